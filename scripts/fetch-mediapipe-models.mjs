@@ -0,0 +1,36 @@
+// Downloads the MediaPipe model files into public/mediapipe/models so the app
+// can serve them itself. Runs before every build (`npm run fetch:models`);
+// files already present are kept, so it only needs the network once.
+import { existsSync, mkdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { mediapipeModels, mediapipeModelsDir } from "./mediapipe-models.mjs";
+
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const target = path.join(root, mediapipeModelsDir);
+mkdirSync(target, { recursive: true });
+
+let failed = false;
+for (const [file, url] of Object.entries(mediapipeModels)) {
+  const destination = path.join(target, file);
+  if (existsSync(destination)) {
+    console.log(`✓ ${file} (already present)`);
+    continue;
+  }
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    writeFileSync(destination, Buffer.from(await response.arrayBuffer()));
+    console.log(`✓ ${file}`);
+  } catch (error) {
+    failed = true;
+    console.error(`✗ ${file}: ${error.message}`);
+  }
+}
+
+if (failed) {
+  console.error(`Some models could not be downloaded; copy them into ${mediapipeModelsDir} by hand to build offline.`);
+  process.exitCode = 1;
+}
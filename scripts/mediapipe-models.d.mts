@@ -0,0 +1,2 @@
+export declare const mediapipeModelsDir: string;
+export declare const mediapipeModels: Record<string, string>;
@@ -0,0 +1,14 @@
+// The MediaPipe model files every build ships in public/mediapipe/models,
+// with the upstream URLs scripts/fetch-mediapipe-models.mjs downloads them from
+export const mediapipeModelsDir = "public/mediapipe/models";
+
+export const mediapipeModels = {
+  "hand_landmarker.task":
+    "https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task",
+  "selfie_segmenter.tflite":
+    "https://storage.googleapis.com/mediapipe-models/image_segmenter/selfie_segmenter/float16/latest/selfie_segmenter.tflite",
+  "face_landmarker.task":
+    "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task",
+  "pose_landmarker_lite.task":
+    "https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task",
+};
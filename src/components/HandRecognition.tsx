@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect, useCallback } from "react";
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -7,6 +7,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
+import { Input } from "@/components/ui/input";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { 
   ArrowLeft, 
   Camera, 
@@ -18,21 +20,130 @@ import {
   Zap,
   Settings,
   Brain,
-  History,
   Target,
   Layers,
-  Activity
+  Activity,
+  Trash2,
+  FileVideo
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/use-error-toast";
+import { useGestureClassifier } from "@/hooks/use-gesture-classifier";
+import { HandFeatures, Handedness } from "@/lib/recognition/features";
+import { pairHands } from "@/lib/recognition/two-hand";
+import {
+  TrajectoryDescription,
+  TrajectoryPoint,
+  builtInTemplates,
+  createTemplate
+} from "@/lib/recognition/trajectory";
+import { useTrajectoryTemplates } from "@/hooks/use-trajectory-templates";
+import {
+  DetectionMethod,
+  builtInGestureDefinitions,
+  parseGestureDefinitions,
+  serializeGestureDefinitions
+} from "@/lib/recognition/gesture-definitions";
+import { useGestureDefinitions } from "@/hooks/use-gesture-definitions";
+import { measureLighting } from "@/lib/recognition/calibration";
+import { useCalibration } from "@/hooks/use-calibration";
+import CalibrationWizard from "@/components/recognition/CalibrationWizard";
+import GestureDefinitionsPanel from "@/components/recognition/GestureDefinitionsPanel";
+import type { CloudGesture } from "@/lib/recognition/cloud-gestures";
+import { useCloudLibrary } from "@/hooks/use-cloud-library";
+import CloudGesturesPanel from "@/components/recognition/CloudGesturesPanel";
+import {
+  SpellingState,
+  addLetter,
+  backspace,
+  checkWordPause,
+  createSpellingState,
+  finishWord,
+  fingerspellingLabels,
+  releaseLetter,
+  replaceWord
+} from "@/lib/recognition/fingerspelling";
+import FingerspellingPanel from "@/components/recognition/FingerspellingPanel";
+import SignToSpeechPanel from "@/components/recognition/SignToSpeechPanel";
+import { useSignToSpeech } from "@/hooks/use-sign-to-speech";
+import { speechTestPhrase, spokenText } from "@/lib/recognition/speech";
+import { useSpeech } from "@/hooks/use-speech";
+import SpeechSettingsPanel from "@/components/recognition/SpeechSettingsPanel";
+import type { TranslationTab } from "@/lib/recognition/commands";
+import { useAppCommands } from "@/hooks/use-app-commands";
+import CommandBindingsPanel from "@/components/recognition/CommandBindingsPanel";
+import { cameraConstraints } from "@/lib/recognition/camera";
+import { useVideoSource } from "@/hooks/use-video-source";
+import CameraSettingsPanel from "@/components/recognition/CameraSettingsPanel";
+import { useDatasetStudio } from "@/hooks/use-dataset-studio";
+import DatasetStudioPanel from "@/components/recognition/DatasetStudioPanel";
+import { useRecognitionModels } from "@/hooks/use-recognition-models";
+import { glossForGesture } from "@/lib/recognition/gloss";
+import { OverlayLayer, clearOverlay, drawHandOverlay, overlayLayers, syncCanvasSize } from "@/lib/recognition/overlay";
+import { CommitEvent, CommitPhase, defaultCommitOptions } from "@/lib/recognition/commit";
+import { FrameResult, motionFrameHeight, motionFrameWidth } from "@/lib/recognition/inference-protocol";
+import { LandmarkFrame, RecordedSession } from "@/lib/recognition/session";
+import {
+  HandInfo,
+  RecognizerOptions,
+  RecognizerOutput,
+  createRecognizerState,
+  recognizeFrame,
+  recognizeMotionFrame,
+  recordedFrameHands
+} from "@/lib/recognition/recognizer";
+import { useSessionReplay } from "@/hooks/use-session-replay";
+import SessionPanel from "@/components/recognition/SessionPanel";
+import VideoFileControls from "@/components/recognition/VideoFileControls";
+import { downloadFile } from "@/lib/utils";
+import { BackgroundMethod, PreviewEffect, createBackgroundModel, previewEffects, subtractBackground } from "@/lib/recognition/background";
+import { NonManualMarkers, handLocationNames } from "@/lib/recognition/non-manual";
+import { useFramePipeline } from "@/hooks/use-frame-pipeline";
+import PerformancePanel from "@/components/recognition/PerformancePanel";
+import { useSessionLog } from "@/hooks/use-session-log";
+import { useSessionReport } from "@/hooks/use-session-report";
+import GestureHistoryPanel from "@/components/recognition/GestureHistoryPanel";
+import { useThrottledState } from "@/hooks/use-throttled-state";
 import Webcam from "react-webcam";
-import { HandLandmarker, FilesetResolver } from "@mediapipe/tasks-vision";
 
 interface HandRecognitionProps {
   onClose: () => void;
+  onSendText?: (text: string) => void;
+  onOpenTranslation?: (tab: TranslationTab) => void;
 }
 
-const HandRecognition: React.FC<HandRecognitionProps> = ({ onClose }) => {
-  const [isWebcamActive, setIsWebcamActive] = useState(false);
+// Recognized only once trained; no rule describes them
+const trainedOnlyLabels = ["Stop", "Victory"];
+
+const handshapeLabels = [
+  ...builtInGestureDefinitions.filter(definition => !definition.methods).map(definition => definition.name),
+  ...trainedOnlyLabels
+];
+
+const dynamicLabels = Array.from(new Set([
+  ...builtInTemplates.map(template => template.label),
+  ...builtInGestureDefinitions.filter(definition => definition.methods).map(definition => definition.name)
+])).filter(label => !handshapeLabels.includes(label));
+
+const gestureLabels = [...handshapeLabels, ...dynamicLabels];
+
+const twoHandedGestureLabels = ["Namaste", "Help"];
+
+const classifierLabels = [...gestureLabels, ...twoHandedGestureLabels];
+
+// Minimum gap between two training samples captured in learning mode
+const sampleIntervalMs = 200;
+
+const movementRecordingMs = 1500;
+
+// Replayed sessions are drawn at this width when the camera is off
+const replayCanvasWidth = 1280;
+
+// Per-frame display state (hand badges, probabilities, movement) renders at most 10x a second
+const displayUpdateIntervalMs = 100;
+
+const HandRecognition: React.FC<HandRecognitionProps> = ({ onClose, onSendText, onOpenTranslation }) => {
+  const videoFileInputRef = useRef<HTMLInputElement>(null);
   const [isRecording, setIsRecording] = useState(false);
   const [recognizedGesture, setRecognizedGesture] = useState<string | null>(null);
   const [confidence, setConfidence] = useState(0);
@@ -41,402 +152,520 @@ const HandRecognition: React.FC<HandRecognitionProps> = ({ onClose }) => {
     accuracy: 0,
     sessionTime: 0
   });
-  const [handLandmarker, setHandLandmarker] = useState<HandLandmarker | null>(null);
-  const [isModelLoading, setIsModelLoading] = useState(false);
-  const webcamRef = useRef<Webcam>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const animationFrameRef = useRef<number>();
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null);
   const { toast } = useToast();
-
-  const gestureLabels = [
-    "Thumbs Up", "Peace Sign", "OK Hand", "Pointing", "Open Palm", 
-    "Fist", "Stop", "Victory", "Hello", "Goodbye", "Swipe Left", 
-    "Swipe Right", "Swipe Up", "Swipe Down", "Pinch", "Spread"
-  ];
+  const reportError = useErrorToast();
 
   // Add new state for enhanced features
-  const [detectionMethod, setDetectionMethod] = useState<'manual' | 'frame-diff' | 'object-detection'>('manual');
-  const [gestureHistory, setGestureHistory] = useState<Array<{gesture: string, timestamp: number, confidence: number}>>([]);
+  const [detectionMethod, setDetectionMethod] = useState<DetectionMethod>('manual');
+  const sessionLog = useSessionLog();
   const [isLearningMode, setIsLearningMode] = useState(false);
-  const [customGestures, setCustomGestures] = useState<string[]>([]);
+  const [trainingLabel, setTrainingLabel] = useState("");
+  const [probabilities, setProbabilities] = useThrottledState<Record<string, number>>({}, displayUpdateIntervalMs);
+  const lastSampleTimeRef = useRef(0);
+  const classifier = useGestureClassifier(classifierLabels);
+  const customGestures = Object.keys(classifier.sampleCounts).filter(label =>
+    !classifierLabels.includes(label) && !fingerspellingLabels.includes(label)
+  );
+  const [dominantHand, setDominantHand] = useState<Handedness>("Right");
+  const [handInfo, setHandInfo] = useThrottledState<HandInfo | null>(null, displayUpdateIntervalMs);
+  const [dwellTime, setDwellTime] = useState(defaultCommitOptions.dwellMs);
+  const [commitPhase, setCommitPhase] = useState<CommitPhase>("idle");
+  const [pendingGesture, setPendingGesture] = useState<string | null>(null);
+  const recognizerRef = useRef(createRecognizerState());
   const [backgroundSubtraction, setBackgroundSubtraction] = useState(true);
+  const [backgroundMethod, setBackgroundMethod] = useThrottledState<BackgroundMethod | null>(null, displayUpdateIntervalMs);
+  const [previewEffect, setPreviewEffect] = useState<PreviewEffect>("none");
+  const backgroundModelRef = useRef(createBackgroundModel());
   const [motionThreshold, setMotionThreshold] = useState(50);
   const [gestureSequence, setGestureSequence] = useState<string[]>([]);
-  const [frameBuffer, setFrameBuffer] = useState<ImageData[]>([]);
-  const maxFrameBuffer = 10;
+  const motionCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const trajectoryTemplates = useTrajectoryTemplates();
+  const gestureDefinitions = useGestureDefinitions();
+  const uploadableGestures = Array.from(new Set([
+    ...customGestures,
+    ...trajectoryTemplates.recorded.map(template => template.label)
+  ]));
+  // Everything that can be committed, apart from fingerspelled letters
+  const committableGestures = Array.from(new Set([...classifierLabels, ...uploadableGestures]));
+  const calibration = useCalibration();
+  const [isCalibrationOffered, setIsCalibrationOffered] = useState(false);
+  const { thresholds } = calibration;
+  const movementRecordingRef = useRef<TrajectoryPoint[] | null>(null);
+  const [isRecordingMovement, setIsRecordingMovement] = useState(false);
+  const [movementInfo, setMovementInfo] = useThrottledState<TrajectoryDescription | null>(null, displayUpdateIntervalMs);
+  const [isFingerspelling, setIsFingerspelling] = useState(false);
+  const [spelling, setSpelling] = useState<SpellingState>(createSpellingState);
+  const [isSignToSpeech, setIsSignToSpeech] = useState(false);
+  const speech = useSpeech();
+  const datasetStudio = useDatasetStudio(isRecording);
+  const { dataset, capture: datasetCapture } = datasetStudio;
+  const recognitionModels = useRecognitionModels();
+  const signToSpeech = useSignToSpeech(isSignToSpeech, speech.say);
+  const spokenWordCountRef = useRef(0);
+  const [isNonManualTracking, setIsNonManualTracking] = useState(false);
+  const [nonManualMarkers, setNonManualMarkers] = useThrottledState<NonManualMarkers | null>(null, displayUpdateIntervalMs);
+  // Question and negation markers seen since the last committed sign
+  const signMarkersRef = useRef({ question: false, negation: false });
+  const [enabledOverlayLayers, setEnabledOverlayLayers] = useState<OverlayLayer[]>(overlayLayers.map(layer => layer.id));
 
-  // Initialize MediaPipe Hand Landmarker
-  const initializeHandLandmarker = useCallback(async () => {
-    try {
-      setIsModelLoading(true);
-      const vision = await FilesetResolver.forVisionTasks(
-        "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.0/wasm"
-      );
-      
-      const handLandmarker = await HandLandmarker.createFromOptions(vision, {
-        baseOptions: {
-          modelAssetPath: "https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task",
-          delegate: "GPU"
-        },
-        runningMode: "VIDEO",
-        numHands: 2
-      });
-      
-      setHandLandmarker(handLandmarker);
-      setIsModelLoading(false);
-      
+  // Clears per-frame recognition state at discontinuities (replays, seeks, camera restarts)
+  const { resetLive: resetModelWindow } = recognitionModels;
+  const resetRecognitionState = useCallback(() => {
+    recognizerRef.current = createRecognizerState();
+    setCommitPhase("idle");
+    setPendingGesture(null);
+    backgroundModelRef.current = createBackgroundModel();
+    signMarkersRef.current = { question: false, negation: false };
+    resetModelWindow();
+  }, [resetModelWindow]);
+
+  // The video source went away or is being replaced
+  const stopRecognition = useCallback(() => {
+    setIsRecording(false);
+    setRecognizedGesture(null);
+    setConfidence(0);
+  }, []);
+
+  const videoInput = useVideoSource({ onStop: stopRecognition, onRestart: resetRecognitionState });
+  const { source: videoSource, camera, videoFile, isPreviewMirrored } = videoInput;
+
+  const resetReplayView = useCallback(() => {
+    resetRecognitionState();
+    clearOverlay(canvasRef.current);
+  }, [resetRecognitionState]);
+
+  // Replays pair hands the way they were paired while recording
+  const adoptSessionHand = useCallback((data: RecordedSession) => setDominantHand(data.header.dominantHand), []);
+
+  const sessionReplay = useSessionReplay({ onReset: resetReplayView, onLoad: adoptSessionHand });
+  const { session, isReplaying, recordFrame, recordCommit, recordingMetrics, isReplayActive } = sessionReplay;
+
+  const trainingForLabel = useCallback((label: string) => ({
+    samples: classifier.samples.filter(sample => sample.label === label),
+    templates: trajectoryTemplates.recorded.filter(template => template.label === label)
+  }), [classifier.samples, trajectoryTemplates.recorded]);
+
+  // Imported gestures replace local training for the same labels
+  const replaceTraining = useCallback((gesture: CloudGesture) => {
+    if (gesture.samples.length > 0) classifier.replaceLabel(gesture.label, gesture.samples);
+    if (gesture.templates.length > 0) trajectoryTemplates.replaceLabel(gesture.label, gesture.templates);
+  }, [classifier, trajectoryTemplates]);
+
+  const cloudLibrary = useCloudLibrary({ getTraining: trainingForLabel, replaceTraining });
+
+  const sessionReport = useSessionReport(sessionLog.log);
+
+  const toggleRecording = () => {
+    // The first start without a calibration profile offers the wizard instead
+    if (!isRecording && !calibration.profile && !isCalibrationOffered) {
+      setIsCalibrationOffered(true);
+      calibration.open();
+      return;
+    }
+    setIsRecording(!isRecording);
+    if (!isRecording) {
       toast({
-        title: "AI Model Loaded",
-        description: "Hand recognition is ready to use"
+        title: "Recording Started",
+        description: "AI is now analyzing your hand gestures"
       });
-    } catch (error) {
-      console.error("Error initializing hand landmarker:", error);
-      setIsModelLoading(false);
+    } else {
       toast({
-        title: "Model Loading Error",
-        description: "Using fallback recognition mode",
-        variant: "destructive"
+        title: "Recording Stopped",
+        description: "Analysis paused"
       });
     }
-  }, [toast]);
+  };
 
-  // Enhanced gesture analysis with deep learning features
-  const analyzeGesture = useCallback((landmarks: any[], frameData?: ImageData) => {
-    if (!landmarks || landmarks.length === 0) return null;
-    
-    const hand = landmarks[0];
-    if (!hand || !hand.landmarks) return null;
-    
-    const points = hand.landmarks;
-    
-    // Store frame data for temporal analysis
-    if (frameData && frameBuffer.length >= maxFrameBuffer) {
-      setFrameBuffer(prev => [...prev.slice(1), frameData]);
-    } else if (frameData) {
-      setFrameBuffer(prev => [...prev, frameData]);
-    }
-    
-    // Advanced gesture recognition with motion analysis
-    let gestureResult = null;
-    let confidence = 0;
-    
-    // Static gesture recognition (existing logic enhanced)
-    const staticGesture = analyzeStaticGesture(points);
-    if (staticGesture) {
-      gestureResult = staticGesture.gesture;
-      confidence = staticGesture.confidence;
-    }
-    
-    // Dynamic gesture recognition using frame difference
-    if (detectionMethod === 'frame-diff' && frameBuffer.length >= 3) {
-      const dynamicGesture = analyzeDynamicGesture(frameBuffer);
-      if (dynamicGesture && dynamicGesture.confidence > confidence) {
-        gestureResult = dynamicGesture.gesture;
-        confidence = dynamicGesture.confidence;
-      }
+  const speakLastTranslation = () => {
+    const lastCaption = signToSpeech.captions[signToSpeech.captions.length - 1];
+    const spelled = [...spelling.words, spelling.current].join(" ").trim();
+    const lastEntry = sessionLog.log.entries[sessionLog.log.entries.length - 1];
+    const text = lastCaption?.sentence || spelled || (lastEntry ? spokenText(lastEntry.gesture, speech.settings) : "");
+    if (text) {
+      speech.say(text);
+    } else {
+      toast({
+        title: "Nothing to Speak",
+        description: "No sign has been translated yet"
+      });
     }
-    
-    // Object tracking based recognition
-    if (detectionMethod === 'object-detection') {
-      const trackingGesture = analyzeTrackingGesture(points);
-      if (trackingGesture && trackingGesture.confidence > confidence) {
-        gestureResult = trackingGesture.gesture;
-        confidence = trackingGesture.confidence;
-      }
+  };
+
+  const appCommands = useAppCommands({
+    onOpenTranslation,
+    onGoBack: onClose,
+    onToggleRecording: toggleRecording,
+    onSpeakLast: speakLastTranslation
+  });
+  const { bindings: commandBindings } = appCommands;
+
+  const copyText = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({
+      title: "Copied!",
+      description: "Fingerspelled text copied to clipboard"
+    });
+  };
+
+  const clearTrainingData = () => {
+    classifier.clearSamples();
+    setProbabilities({});
+    toast({
+      title: "Training Data Cleared",
+      description: "Recognition is back to the built-in rules"
+    });
+  };
+
+  // Downscaled copy of the current video frame for frame-difference analysis
+  const captureMotionFrame = useCallback((video: HTMLVideoElement) => {
+    if (!motionCanvasRef.current) {
+      motionCanvasRef.current = document.createElement("canvas");
+      motionCanvasRef.current.width = motionFrameWidth;
+      motionCanvasRef.current.height = motionFrameHeight;
     }
-    
-    // Learning mode: capture custom gestures
-    if (isLearningMode && gestureResult && confidence > 70) {
-      addCustomGesture(gestureResult);
+    const context = motionCanvasRef.current.getContext("2d", { willReadFrequently: true });
+    if (!context) return undefined;
+    context.drawImage(video, 0, 0, motionFrameWidth, motionFrameHeight);
+    return context.getImageData(0, 0, motionFrameWidth, motionFrameHeight);
+  }, []);
+
+  // Records the dominant hand's path for the current label as a movement template
+  const recordMovementTemplate = () => {
+    const label = trainingLabel.trim();
+    if (!label || !isRecording) {
+      toast({
+        title: "Cannot Record Movement",
+        description: "Enter a gesture label and start recording first",
+        variant: "destructive"
+      });
+      return;
     }
     
-    return gestureResult ? { gesture: gestureResult, confidence } : null;
-  }, [frameBuffer, detectionMethod, isLearningMode, maxFrameBuffer]);
-
-  // Static gesture analysis (enhanced from original)
-  const analyzeStaticGesture = useCallback((points: any[]) => {
-    // Thumb up detection
-    if (points[4].y < points[3].y && points[4].y < points[2].y) {
-      const otherFingersDown = 
-        points[8].y > points[6].y && // Index down
-        points[12].y > points[10].y && // Middle down
-        points[16].y > points[14].y && // Ring down
-        points[20].y > points[18].y; // Pinky down
+    movementRecordingRef.current = [];
+    setIsRecordingMovement(true);
+    setTimeout(() => {
+      const points = movementRecordingRef.current ?? [];
+      movementRecordingRef.current = null;
+      setIsRecordingMovement(false);
       
-      if (otherFingersDown) {
-        return { gesture: "Thumbs Up", confidence: 92 };
+      if (points.length < 5) {
+        toast({
+          title: "Movement Not Captured",
+          description: "Keep your hand in view while performing the movement",
+          variant: "destructive"
+        });
+        return;
       }
+      
+      trajectoryTemplates.addTemplate(createTemplate(label, points));
+      toast({
+        title: "Movement Recorded",
+        description: `Saved a movement template for "${label}"`
+      });
+    }, movementRecordingMs);
+  };
+
+  const { addGloss } = signToSpeech;
+  const { say, settings: speechSettings } = speech;
+  const { handleGesture: handleCommandGesture } = appCommands;
+  const { addEntry: addLogEntry, release: releaseLogEntry } = sessionLog;
+
+  // Only committed signs reach the history, sequence and statistics
+  const handleCommitEvent = useCallback((event: CommitEvent, hands: HandFeatures[] = []) => {
+    const isLetter = isFingerspelling && fingerspellingLabels.includes(event.gesture);
+    // Replays are checked against their recording: not logged or spoken
+    const isLive = !isReplayActive();
+    if (event.type === "release") {
+      if (isLetter) setSpelling(prev => releaseLetter(prev, event.time));
+      if (isLive) releaseLogEntry(event.gesture, Date.now());
+      return;
     }
     
-    // Peace sign (index and middle up, others down)
-    if (points[8].y < points[6].y && points[12].y < points[10].y &&
-        points[16].y > points[14].y && points[20].y > points[18].y) {
-      return { gesture: "Peace Sign", confidence: 88 };
+    // Command and confirmation gestures drive the app instead of being signs
+    if (isLive && handleCommandGesture(event.gesture)) {
+      setRecognizedGesture(event.gesture);
+      setConfidence(event.confidence);
+      return;
     }
     
-    // Pointing gesture (index finger extended, others down)
-    if (points[8].y < points[6].y && points[12].y > points[10].y &&
-        points[16].y > points[14].y && points[20].y > points[18].y) {
-      return { gesture: "Pointing", confidence: 85 };
+    if (isLetter) {
+      setSpelling(prev => addLetter(prev, event));
+    } else {
+      const gloss = glossForGesture(event.gesture);
+      if (gloss) addGloss(gloss, signMarkersRef.current);
+      // In sign-to-speech mode the translated sentence is spoken instead
+      if (isLive && speechSettings.speakGestures && !isSignToSpeech) say(spokenText(event.gesture, speechSettings));
     }
+    signMarkersRef.current = { question: false, negation: false };
     
-    // Open palm (all fingers extended)
-    const allFingersUp = 
-      points[8].y < points[6].y && // Index up
-      points[12].y < points[10].y && // Middle up
-      points[16].y < points[14].y && // Ring up
-      points[20].y < points[18].y; // Pinky up
-    
-    if (allFingersUp) {
-      return { gesture: "Open Palm", confidence: 83 };
-    }
+    setRecognizedGesture(event.gesture);
+    setConfidence(event.confidence);
     
-    // Fist (all fingers down)
-    const allFingersDown = 
-      points[8].y > points[6].y && // Index down
-      points[12].y > points[10].y && // Middle down
-      points[16].y > points[14].y && // Ring down
-      points[20].y > points[18].y; // Pinky down
+    recordCommit(event);
     
-    if (allFingersDown) {
-      return { gesture: "Fist", confidence: 80 };
+    if (isLive) {
+      const pair = pairHands(hands, dominantHand);
+      addLogEntry({
+        gesture: event.gesture,
+        hands: pair ? (pair.nonDominant ? "Both" : pair.dominant.handedness) : null,
+        confidence: event.confidence,
+        method: detectionMethod,
+        // Commit times are on the pipeline clock; only the hold duration carries over
+        startedAt: Date.now() - (event.time - event.startedAt),
+        endedAt: null
+      });
     }
     
-    // OK hand (index and thumb circle)
-    const thumbIndexDistance = Math.sqrt(
-      Math.pow(points[4].x - points[8].x, 2) + Math.pow(points[4].y - points[8].y, 2)
-    );
+    // Update gesture sequence for pattern recognition
+    setGestureSequence(prev => [...prev.slice(-4), event.gesture]);
     
-    if (thumbIndexDistance < 0.05) {
-      return { gesture: "OK Hand", confidence: 90 };
+    setSessionStats(prev => ({
+      ...prev,
+      gesturesDetected: prev.gesturesDetected + 1,
+      accuracy: Math.round((prev.accuracy * prev.gesturesDetected + event.confidence) / (prev.gesturesDetected + 1))
+    }));
+  }, [isFingerspelling, isReplayActive, handleCommandGesture, addGloss, isSignToSpeech, speechSettings, say, recordCommit, dominantHand, detectionMethod, addLogEntry, releaseLogEntry]);
+
+  // Each finished fingerspelled word joins the sentence as one gloss, or is
+  // spoken on its own outside sign-to-speech mode
+  useEffect(() => {
+    if (spelling.words.length > spokenWordCountRef.current) {
+      const words = spelling.words.slice(spokenWordCountRef.current);
+      words.forEach(word => addGloss(word));
+      if (speechSettings.speakGestures && !isSignToSpeech) words.forEach(word => say(word));
     }
-    
-    return null;
-  }, []);
+    spokenWordCountRef.current = spelling.words.length;
+  }, [spelling.words, addGloss, speechSettings.speakGestures, isSignToSpeech, say]);
 
-  // Dynamic gesture analysis using frame difference
-  const analyzeDynamicGesture = useCallback((frames: ImageData[]) => {
-    if (frames.length < 3) return null;
-    
-    // Simple motion detection based on frame differences
-    const current = frames[frames.length - 1];
-    const previous = frames[frames.length - 2];
-    
-    let motionMagnitude = 0;
-    let horizontalMotion = 0;
-    let verticalMotion = 0;
+  // Everything the per-frame recognizer reads from the page's settings and training
+  const { classify: classifySequence } = recognitionModels;
+  const recognizerOptions = useMemo<RecognizerOptions>(() => ({
+    dominantHand,
+    detectionMethod,
+    isFingerspelling,
+    thresholds,
+    commit: { ...defaultCommitOptions, dwellMs: dwellTime, windowSize: thresholds.commitWindow },
+    motionThreshold,
+    classifier,
+    templates: trajectoryTemplates.templates,
+    definitions: gestureDefinitions.definitions,
+    loadedDefinitions: gestureDefinitions.loaded,
+    classifySequence: detectionMethod === 'trained-model' ? (time: number) => classifySequence(dominantHand, time) : null
+  }), [dominantHand, detectionMethod, isFingerspelling, thresholds, dwellTime, motionThreshold, classifier, trajectoryTemplates.templates, gestureDefinitions.definitions, gestureDefinitions.loaded, classifySequence]);
+
+  // Display, training, overlay, commits and word pauses for one recognized frame
+  const applyRecognition = useCallback((
+    output: RecognizerOutput,
+    size: { width: number; height: number },
+    hands: HandFeatures[],
+    time: number
+  ) => {
+    const previous = recognizerRef.current.commit;
+    recognizerRef.current = output.state;
     
-    // Calculate motion vectors (simplified)
-    for (let i = 0; i < current.data.length; i += 4) {
-      const currGray = (current.data[i] + current.data[i + 1] + current.data[i + 2]) / 3;
-      const prevGray = (previous.data[i] + previous.data[i + 1] + previous.data[i + 2]) / 3;
-      const diff = Math.abs(currGray - prevGray);
-      
-      if (diff > motionThreshold) {
-        motionMagnitude += diff;
-        const x = (i / 4) % current.width;
-        const y = Math.floor((i / 4) / current.width);
-        
-        // Simplified direction analysis
-        if (x > current.width * 0.6) horizontalMotion += diff;
-        if (x < current.width * 0.4) horizontalMotion -= diff;
-        if (y > current.height * 0.6) verticalMotion += diff;
-        if (y < current.height * 0.4) verticalMotion -= diff;
-      }
+    setHandInfo(output.handInfo);
+    if (output.probabilities) setProbabilities(output.probabilities);
+    if (output.movement !== undefined) setMovementInfo(output.movement);
+    setNonManualMarkers(output.markers);
+    if (output.markers) {
+      signMarkersRef.current = {
+        question: signMarkersRef.current.question || output.markers.eyebrowsRaised,
+        negation: signMarkersRef.current.negation || output.markers.headShake
+      };
     }
     
-    // Classify motion patterns
-    if (motionMagnitude > 1000) {
-      if (Math.abs(horizontalMotion) > Math.abs(verticalMotion)) {
-        return {
-          gesture: horizontalMotion > 0 ? "Swipe Right" : "Swipe Left",
-          confidence: Math.min(85, 60 + (motionMagnitude / 100))
-        };
-      } else {
-        return {
-          gesture: verticalMotion > 0 ? "Swipe Down" : "Swipe Up",
-          confidence: Math.min(85, 60 + (motionMagnitude / 100))
-        };
+    if (output.trajectoryPoint) movementRecordingRef.current?.push(output.trajectoryPoint);
+    
+    // Learning mode: capture labelled samples for the classifier
+    const label = trainingLabel.trim();
+    if (isLearningMode && label && output.sampleVector && !movementRecordingRef.current) {
+      if (time - lastSampleTimeRef.current >= sampleIntervalMs) {
+        lastSampleTimeRef.current = time;
+        classifier.addSample(label, output.sampleVector);
       }
     }
     
-    return null;
-  }, [motionThreshold]);
-
-  // Object tracking based gesture analysis
-  const analyzeTrackingGesture = useCallback((points: any[]) => {
-    // Enhanced tracking with hand velocity and position history
-    const wrist = points[0];
-    const fingertips = [points[8], points[12], points[16], points[20]]; // Index, Middle, Ring, Pinky tips
-    
-    // Calculate hand spread (distance between fingertips)
-    let totalSpread = 0;
-    for (let i = 0; i < fingertips.length - 1; i++) {
-      const distance = Math.sqrt(
-        Math.pow(fingertips[i].x - fingertips[i + 1].x, 2) +
-        Math.pow(fingertips[i].y - fingertips[i + 1].y, 2)
-      );
-      totalSpread += distance;
+    // Skeleton overlay, labelled on the dominant hand
+    if (canvasRef.current) {
+      syncCanvasSize(canvasRef.current, size.width, size.height);
+      drawHandOverlay(canvasRef.current, hands, enabledOverlayLayers, {
+        mirrored: isPreviewMirrored,
+        labelHand: hands.find(hand => hand.handedness === dominantHand) ?? hands[0],
+        label: output.gesture
+      });
     }
     
-    // Pinch detection (fingertips close together)
-    if (totalSpread < 0.15) {
-      return { gesture: "Pinch", confidence: 87 };
+    const { commit } = output.state;
+    if (commit.phase !== previous.phase || commit.label !== previous.label) {
+      setCommitPhase(commit.phase);
+      setPendingGesture(commit.label);
     }
+    output.events.forEach(event => handleCommitEvent(event, hands));
     
-    // Spread detection (fingertips far apart)
-    if (totalSpread > 0.4) {
-      return { gesture: "Spread", confidence: 85 };
+    // A pause after the last letter ends the fingerspelled word
+    if (isFingerspelling) {
+      setSpelling(prev => checkWordPause(prev, time));
     }
-    
-    return null;
-  }, []);
+  }, [trainingLabel, isLearningMode, classifier, enabledOverlayLayers, isPreviewMirrored, dominantHand, handleCommitEvent, isFingerspelling, setHandInfo, setProbabilities, setMovementInfo, setNonManualMarkers]);
 
-  // Add custom gesture to learning database
-  const addCustomGesture = useCallback((gesture: string) => {
-    if (!customGestures.includes(gesture)) {
-      setCustomGestures(prev => [...prev, gesture]);
-      toast({
-        title: "New Gesture Learned",
-        description: `Added "${gesture}" to custom gestures`
-      });
-    }
-  }, [customGestures, toast]);
+  // Every detector frame feeds the selected sequence model's live window
+  const { addFrame: addModelFrame, setGestureTaskResult } = recognitionModels;
+  const trackModelFrame = useCallback((frame: LandmarkFrame, time: number) => {
+    if (detectionMethod === 'trained-model') addModelFrame(frame, time);
+  }, [detectionMethod, addModelFrame]);
 
-  // Process video frame for hand detection
-  const processVideoFrame = useCallback(async () => {
-    if (!webcamRef.current || !handLandmarker || !isRecording) {
-      return;
+  // Landmarks and classification computed by the inference worker
+  const handleInferenceResult = useCallback((result: FrameResult, video: HTMLVideoElement) => {
+    // Background-blurred or replaced preview, drawn under the landmark overlay
+    const previewCanvas = previewCanvasRef.current;
+    if (result.previewFrame && previewCanvas) {
+      syncCanvasSize(previewCanvas, result.previewFrame.width, result.previewFrame.height);
+      previewCanvas.getContext("2d")?.drawImage(result.previewFrame, 0, 0);
+    } else {
+      clearOverlay(previewCanvas);
     }
+    result.previewFrame?.close();
+    setBackgroundMethod(result.backgroundMethod ?? null);
     
-    const video = webcamRef.current.video;
-    if (!video || video.readyState !== 4) {
-      animationFrameRef.current = requestAnimationFrame(processVideoFrame);
+    // While calibrating or capturing a dataset, frames are only measured or
+    // stored, never recognized
+    if (calibration.isCapturing || datasetCapture.isCapturing) {
+      if (calibration.isCapturing) {
+        calibration.addFrame(pairHands(result.hands, dominantHand)?.dominant ?? null, result.timestamp, measureLighting(captureMotionFrame(video)));
+      } else {
+        datasetStudio.addFrame({ ...result.landmarkFrame, time: result.timestamp });
+      }
+      if (canvasRef.current) {
+        syncCanvasSize(canvasRef.current, video.videoWidth, video.videoHeight);
+        drawHandOverlay(canvasRef.current, result.hands, enabledOverlayLayers, { mirrored: isPreviewMirrored });
+      }
       return;
     }
     
+    recordFrame({ ...result.landmarkFrame, nonManual: result.nonManual }, result.timestamp);
+    
     try {
-      const results = handLandmarker.detectForVideo(video, performance.now());
-      
-      if (results.landmarks && results.landmarks.length > 0) {
-        const gestureResult = analyzeGesture(results.landmarks);
-        
-        if (gestureResult && gestureResult.gesture !== "Unknown") {
-          setRecognizedGesture(gestureResult.gesture);
-          setConfidence(gestureResult.confidence);
-          
-          // Add to gesture history
-          const newGestureEntry = {
-            gesture: gestureResult.gesture,
-            timestamp: Date.now(),
-            confidence: gestureResult.confidence
-          };
-          setGestureHistory(prev => [...prev.slice(-19), newGestureEntry]);
-          
-          // Update gesture sequence for pattern recognition
-          setGestureSequence(prev => [...prev.slice(-4), gestureResult.gesture]);
-          
-          setSessionStats(prev => ({
-            ...prev,
-            gesturesDetected: prev.gesturesDetected + 1,
-            accuracy: Math.round((prev.accuracy + gestureResult.confidence) / 2),
-            sessionTime: prev.sessionTime + 1
-          }));
-        }
-      }
+      trackModelFrame(result.landmarkFrame, result.timestamp);
+      setGestureTaskResult(result.gesture);
+      const output = recognizeFrame(recognizerRef.current, {
+        hands: result.hands,
+        time: result.timestamp,
+        motionFrame: result.motionFrame,
+        classification: result.classification,
+        nonManual: result.nonManual
+      }, recognizerOptions);
+      applyRecognition(output, { width: video.videoWidth, height: video.videoHeight }, result.hands, result.timestamp);
     } catch (error) {
       console.error("Error processing video frame:", error);
     }
-    
-    animationFrameRef.current = requestAnimationFrame(processVideoFrame);
-  }, [handLandmarker, isRecording, analyzeGesture]);
+  }, [calibration, datasetCapture.isCapturing, datasetStudio, recordFrame, dominantHand, isPreviewMirrored, captureMotionFrame, enabledOverlayLayers, trackModelFrame, setGestureTaskResult, recognizerOptions, applyRecognition, setBackgroundMethod]);
+
+  // Motion-only recognition used while no hand landmarker is available
+  const analyzeMotionFrame = useCallback((video: HTMLVideoElement, time: number) => {
+    let frameData = captureMotionFrame(video);
+    if (frameData) {
+      if (backgroundSubtraction) {
+        frameData = subtractBackground(backgroundModelRef.current, frameData);
+      }
+      setBackgroundMethod(backgroundSubtraction ? "running-average" : null);
+    }
+    const output = recognizeMotionFrame(recognizerRef.current, frameData, time, recognizerOptions);
+    applyRecognition(output, { width: video.videoWidth, height: video.videoHeight }, [], time);
+  }, [captureMotionFrame, backgroundSubtraction, setBackgroundMethod, recognizerOptions, applyRecognition]);
+
+  const frameOptions = useMemo(() => ({
+    dominantHand,
+    captureMotion: detectionMethod === 'frame-diff',
+    subtractBackground: backgroundSubtraction,
+    previewEffect,
+    trackNonManual: isNonManualTracking
+  }), [dominantHand, detectionMethod, backgroundSubtraction, previewEffect, isNonManualTracking]);
 
-  // Initialize model when component mounts
+  const pipeline = useFramePipeline({
+    isRunning: isRecording,
+    labels: classifierLabels,
+    samples: classifier.samples,
+    gestureTask: detectionMethod === 'trained-model' ? recognitionModels.gestureTask : null,
+    frameOptions,
+    getVideo: videoInput.getVideo,
+    nextFrame: videoInput.nextFrame,
+    onResult: handleInferenceResult,
+    onMotionFrame: analyzeMotionFrame,
+    sessionMetrics: recordingMetrics
+  });
+  const { inference } = pipeline;
+
+  // Session time ticks once per second while recognizing
   useEffect(() => {
-    initializeHandLandmarker();
-  }, [initializeHandLandmarker]);
+    if (!isRecording) return;
+    const interval = setInterval(() => {
+      setSessionStats(prev => ({ ...prev, sessionTime: prev.sessionTime + 1 }));
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [isRecording]);
 
-  // Start/stop video processing
   useEffect(() => {
-    if (isRecording && handLandmarker) {
-      processVideoFrame();
-    } else if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current);
+    if (!isRecording) {
+      clearOverlay(canvasRef.current);
+      clearOverlay(previewCanvasRef.current);
     }
-    
-    return () => {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
-    };
-  }, [isRecording, handLandmarker, processVideoFrame]);
+  }, [isRecording]);
+
+  // Feeds one recorded frame through the same recognizers as live video
+  const replayFrame = useCallback((frame: LandmarkFrame, time: number, mirroredInput: boolean) => {
+    const hands = recordedFrameHands(frame, mirroredInput);
+    trackModelFrame(frame, time);
+    const output = recognizeFrame(recognizerRef.current, { hands, time, nonManual: frame.nonManual }, recognizerOptions);
+    applyRecognition(output, { width: replayCanvasWidth, height: Math.round(replayCanvasWidth / frame.aspectRatio) }, hands, time);
+  }, [trackModelFrame, recognizerOptions, applyRecognition]);
+
+  const startReplay = () => {
+    if (!isRecording) sessionReplay.startReplay(replayFrame);
+  };
 
-  const startWebcam = async () => {
+  // The summaries count only the frames dropped while the session was recorded
+  const startSessionRecording = () => sessionReplay.startRecording(dominantHand, pipeline.framesDropped());
+  const stopSessionRecording = () => sessionReplay.stopRecording(pipeline.framesDropped());
+
+  const loadDefinitionsFile = async (file: File) => {
     try {
-      // First try with flexible constraints
-      let stream;
-      try {
-        stream = await navigator.mediaDevices.getUserMedia({ 
-          video: { 
-            width: { ideal: 1280 }, 
-            height: { ideal: 720 },
-            facingMode: "user"
-          } 
-        });
-      } catch (firstError) {
-        console.log("Trying with basic video constraints...");
-        // Fallback to basic video request
-        stream = await navigator.mediaDevices.getUserMedia({ video: true });
-      }
-      
-      // Stop the test stream immediately - webcam component will handle the actual stream
-      stream.getTracks().forEach(track => track.stop());
-      
-      setIsWebcamActive(true);
+      const definitions = parseGestureDefinitions(await file.text());
+      gestureDefinitions.addDefinitions(definitions);
       toast({
-        title: "Camera Started",
-        description: "Point your hands towards the camera to begin recognition"
+        title: "Gesture Definitions Loaded",
+        description: `${definitions.length} gesture${definitions.length === 1 ? "" : "s"} from ${file.name}`
       });
     } catch (error) {
-      console.error("Camera access error:", error);
-      
-      let errorMessage = "Please allow camera access to use hand recognition";
-      if (error.name === "NotFoundError") {
-        errorMessage = "No camera found. Please connect a camera and try again.";
-      } else if (error.name === "NotAllowedError") {
-        errorMessage = "Camera access denied. Please allow camera access in your browser settings.";
-      } else if (error.name === "NotSupportedError") {
-        errorMessage = "Camera not supported in this browser.";
-      }
-      
-      toast({
-        title: "Camera Access Error",
-        description: errorMessage,
-        variant: "destructive"
-      });
+      reportError("Could not load definitions", error);
     }
   };
 
-  const stopWebcam = () => {
-    setIsWebcamActive(false);
-    setIsRecording(false);
-    setRecognizedGesture(null);
-    setConfidence(0);
+  const downloadDefinitions = () => {
+    downloadFile("gesture-definitions.json", serializeGestureDefinitions(gestureDefinitions.definitions), "application/json");
   };
 
-  const toggleRecording = () => {
-    setIsRecording(!isRecording);
-    if (!isRecording) {
-      toast({
-        title: "Recording Started",
-        description: "AI is now analyzing your hand gestures"
-      });
-    } else {
-      toast({
-        title: "Recording Stopped",
-        description: "Analysis paused"
-      });
-    }
+  const startCalibration = () => {
+    calibration.start();
+    setIsRecording(true);
+  };
+
+  const skipCalibration = () => {
+    calibration.cancel();
+    setIsRecording(true);
+    toast({
+      title: "Recording Started",
+      description: "Using the default thresholds. You can calibrate from the Detection Method card."
+    });
+  };
+
+  const saveCalibration = () => {
+    calibration.save();
+    toast({
+      title: "Calibration Saved",
+      description: "Recognition thresholds now match your hand and camera"
+    });
   };
 
   const resetSession = () => {
@@ -445,13 +674,21 @@ const HandRecognition: React.FC<HandRecognitionProps> = ({ onClose }) => {
       accuracy: 0,
       sessionTime: 0
     });
+    pipeline.resetMetrics();
     setRecognizedGesture(null);
     setConfidence(0);
-    setGestureHistory([]);
+    setProbabilities({});
+    setHandInfo(null);
+    resetRecognitionState();
+    setSpelling(createSpellingState());
+    sessionLog.reset();
     setGestureSequence([]);
-    setFrameBuffer([]);
+    setMovementInfo(null);
   };
 
+  const isRecognizing = isRecording || isReplaying;
+  const isSourceActive = videoInput.isActive;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted p-4">
       <div className="mx-auto max-w-6xl">
@@ -477,34 +714,105 @@ const HandRecognition: React.FC<HandRecognitionProps> = ({ onClose }) => {
           <div className="lg:col-span-2">
             <Card className="border-0 bg-card/80 backdrop-blur-sm shadow-xl">
               <CardHeader>
-                <CardTitle>Live Camera Feed</CardTitle>
-                <CardDescription>Position your hands in view for real-time recognition</CardDescription>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle>{videoSource === "file" ? "Video File" : "Live Camera Feed"}</CardTitle>
+                    <CardDescription>
+                      {videoFile ? videoFile.name : videoSource === "file"
+                        ? "Check recognition on a recorded clip"
+                        : "Position your hands in view for real-time recognition"}
+                    </CardDescription>
+                  </div>
+                  <ToggleGroup
+                    type="single"
+                    size="sm"
+                    variant="outline"
+                    value={videoSource}
+                    onValueChange={(value: "camera" | "file") => value && videoInput.switchSource(value)}
+                    disabled={isReplaying}
+                  >
+                    <ToggleGroupItem value="camera" className="text-xs">
+                      <Camera className="mr-1 h-3 w-3" />
+                      Camera
+                    </ToggleGroupItem>
+                    <ToggleGroupItem value="file" className="text-xs">
+                      <FileVideo className="mr-1 h-3 w-3" />
+                      Video File
+                    </ToggleGroupItem>
+                  </ToggleGroup>
+                </div>
               </CardHeader>
               <CardContent>
                 <div className="relative aspect-video rounded-lg bg-muted/50 overflow-hidden">
-                  {isWebcamActive ? (
-                    <Webcam
-                      ref={webcamRef}
-                      audio={false}
-                      className="h-full w-full object-cover"
-                      screenshotFormat="image/jpeg"
-                      videoConstraints={{
-                        width: { ideal: 1280, min: 640 },
-                        height: { ideal: 720, min: 480 },
-                        facingMode: "user"
-                      }}
+                  {videoSource === "file" && videoFile ? (
+                    <>
+                      <video
+                        ref={videoInput.videoFileRef}
+                        src={videoFile.url}
+                        className="h-full w-full bg-black object-contain"
+                        playsInline
+                        muted
+                        onPlay={() => videoInput.setIsVideoPlaying(true)}
+                        onPause={() => videoInput.setIsVideoPlaying(false)}
+                        onEnded={() => videoInput.setIsVideoPlaying(false)}
+                        onTimeUpdate={(e) => videoInput.setVideoTime(e.currentTarget.currentTime)}
+                        onLoadedMetadata={(e) => videoInput.setVideoDuration(e.currentTarget.duration)}
+                      />
+                      <canvas
+                        ref={previewCanvasRef}
+                        className="pointer-events-none absolute inset-0 h-full w-full object-contain"
+                      />
+                      <canvas
+                        ref={canvasRef}
+                        className="pointer-events-none absolute inset-0 h-full w-full object-contain"
+                      />
+                    </>
+                  ) : videoInput.isWebcamActive ? (
+                    <>
+                      <Webcam
+                        ref={videoInput.webcamRef}
+                        audio={false}
+                        mirrored={isPreviewMirrored}
+                        className="h-full w-full object-cover"
+                        screenshotFormat="image/jpeg"
+                        videoConstraints={cameraConstraints(camera.settings, videoInput.isBasicCamera)}
+                        onUserMedia={videoInput.handleCameraStream}
+                        onUserMediaError={videoInput.handleCameraError}
+                      />
+                      <canvas
+                        ref={previewCanvasRef}
+                        className={`pointer-events-none absolute inset-0 h-full w-full object-cover ${isPreviewMirrored ? "-scale-x-100" : ""}`}
+                      />
+                      <canvas
+                        ref={canvasRef}
+                        className="pointer-events-none absolute inset-0 h-full w-full object-cover"
+                      />
+                    </>
+                  ) : isReplaying ? (
+                    <canvas
+                      ref={canvasRef}
+                      className="absolute inset-0 h-full w-full bg-black object-contain"
                     />
                   ) : (
                     <div className="flex h-full items-center justify-center">
                       <div className="text-center">
-                        <Camera className="mx-auto mb-4 h-16 w-16 text-muted-foreground" />
-                        <p className="text-muted-foreground">Camera not active</p>
+                        {videoSource === "file" ? (
+                          <>
+                            <FileVideo className="mx-auto mb-4 h-16 w-16 text-muted-foreground" />
+                            <p className="text-muted-foreground">No video loaded</p>
+                          </>
+                        ) : (
+                          <>
+                            <Camera className="mx-auto mb-4 h-16 w-16 text-muted-foreground" />
+                            <p className="text-muted-foreground">Camera not active</p>
+                          </>
+                        )}
                       </div>
                     </div>
                   )}
 
                   {/* Gesture Detection Overlay */}
-                  {isRecording && recognizedGesture && (
+                  {isRecognizing && recognizedGesture && (
                     <div className="absolute bottom-4 left-4 right-4">
                       <div className="rounded-lg bg-black/80 p-4 text-white backdrop-blur-sm">
                         <div className="flex items-center justify-between">
@@ -522,6 +830,32 @@ const HandRecognition: React.FC<HandRecognitionProps> = ({ onClose }) => {
                     </div>
                   )}
 
+                  {/* Running caption of the latest spoken sentence */}
+                  {isSignToSpeech && signToSpeech.captions.length > 0 && (
+                    <div className="absolute top-14 left-4 right-4 text-center">
+                      <span className="rounded-lg bg-black/70 px-3 py-1 text-lg text-white">
+                        {signToSpeech.captions[signToSpeech.captions.length - 1].sentence}
+                      </span>
+                    </div>
+                  )}
+
+                  {/* Sign being held but not yet committed */}
+                  {isRecognizing && (commitPhase === "candidate" || commitPhase === "held") && pendingGesture && (
+                    <div className="absolute top-4 left-4">
+                      <Badge variant="secondary" className="px-3 py-1">
+                        {commitPhase === "held" ? "Holding" : "Seeing"}: {pendingGesture}
+                      </Badge>
+                    </div>
+                  )}
+
+                  {isReplaying && (
+                    <div className="absolute top-4 right-4">
+                      <Badge variant="secondary" className="px-3 py-1">
+                        Replaying {Math.round(sessionReplay.replayProgress)}%
+                      </Badge>
+                    </div>
+                  )}
+
                   {/* Recording Indicator */}
                   {isRecording && (
                     <div className="absolute top-4 right-4">
@@ -533,16 +867,90 @@ const HandRecognition: React.FC<HandRecognitionProps> = ({ onClose }) => {
                   )}
                 </div>
 
+                {videoSource === "file" && videoFile && (
+                  <VideoFileControls
+                    isPlaying={videoInput.isVideoPlaying}
+                    currentTime={videoInput.videoTime}
+                    duration={videoInput.videoDuration}
+                    onTogglePlay={videoInput.toggleVideoPlayback}
+                    onSeek={videoInput.seekVideo}
+                    onStep={videoInput.stepVideo}
+                  />
+                )}
+
+                {isSourceActive && (
+                  <div className="mt-4 flex items-center justify-between gap-2">
+                    <span className="text-sm text-muted-foreground">Overlay</span>
+                    <ToggleGroup
+                      type="multiple"
+                      size="sm"
+                      variant="outline"
+                      value={enabledOverlayLayers}
+                      onValueChange={(value: OverlayLayer[]) => setEnabledOverlayLayers(value)}
+                    >
+                      {overlayLayers.map(layer => (
+                        <ToggleGroupItem key={layer.id} value={layer.id} className="text-xs">
+                          {layer.name}
+                        </ToggleGroupItem>
+                      ))}
+                    </ToggleGroup>
+                  </div>
+                )}
+
+                {inference.status !== "loading" && (
+                  <div className="mt-4 flex items-center justify-between gap-2">
+                    {inference.status === "ready" && inference.modelInfo ? (
+                      <Badge variant="outline" className="text-xs">
+                        <Zap className="mr-1 h-3 w-3" />
+                        Hand tracking · {inference.modelInfo.delegate}
+                      </Badge>
+                    ) : (
+                      <Badge variant="destructive" className="text-xs">
+                        <AlertCircle className="mr-1 h-3 w-3" />
+                        Motion-only mode
+                      </Badge>
+                    )}
+                    {inference.status === "degraded" && (
+                      <Button variant="outline" size="sm" onClick={() => inference.load()}>
+                        <RotateCcw className="mr-1 h-4 w-4" />
+                        Retry loading model
+                      </Button>
+                    )}
+                  </div>
+                )}
+
                 <div className="mt-4 flex gap-4">
-                  {!isWebcamActive ? (
+                  {videoSource === "file" && !videoFile ? (
+                    <>
+                      <Button
+                        onClick={() => videoFileInputRef.current?.click()}
+                        disabled={inference.status === "loading"}
+                        className="flex-1 bg-gradient-to-r from-primary to-accent hover:from-primary-hover hover:to-accent/90"
+                      >
+                        <FileVideo className="mr-2 h-4 w-4" />
+                        {inference.status === "loading" ? "Loading AI Model..." : "Choose Video File"}
+                      </Button>
+                      <input
+                        ref={videoFileInputRef}
+                        type="file"
+                        accept="video/mp4,video/webm,video/*"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) videoInput.loadVideoFile(file);
+                          e.target.value = "";
+                        }}
+                        className="hidden"
+                      />
+                    </>
+                  ) : !isSourceActive ? (
                     <>
                       <Button 
-                        onClick={startWebcam}
-                        disabled={isModelLoading}
+                        onClick={videoInput.startWebcam}
+                        disabled={inference.status === "loading"}
                         className="flex-1 bg-gradient-to-r from-primary to-accent hover:from-primary-hover hover:to-accent/90"
                       >
                         <Camera className="mr-2 h-4 w-4" />
-                        {isModelLoading ? "Loading AI Model..." : "Start Camera"}
+                        {inference.status === "loading" ? "Loading AI Model..." : "Start Camera"}
                       </Button>
                       <Button 
                         variant="outline"
@@ -561,6 +969,7 @@ const HandRecognition: React.FC<HandRecognitionProps> = ({ onClose }) => {
                     <>
                       <Button 
                         onClick={toggleRecording}
+                        disabled={isReplaying}
                         variant={isRecording ? "destructive" : "default"}
                         className="flex-1"
                       >
@@ -576,9 +985,15 @@ const HandRecognition: React.FC<HandRecognitionProps> = ({ onClose }) => {
                           </>
                         )}
                       </Button>
-                      <Button variant="outline" onClick={stopWebcam}>
-                        Stop Camera
-                      </Button>
+                      {videoSource === "file" ? (
+                        <Button variant="outline" onClick={videoInput.closeVideoFile}>
+                          Close Video
+                        </Button>
+                      ) : (
+                        <Button variant="outline" onClick={videoInput.stopWebcam}>
+                          Stop Camera
+                        </Button>
+                      )}
                     </>
                   )}
                 </div>
@@ -588,6 +1003,17 @@ const HandRecognition: React.FC<HandRecognitionProps> = ({ onClose }) => {
 
           {/* Stats and Controls */}
           <div className="space-y-6">
+            <CalibrationWizard
+              step={calibration.step}
+              progress={calibration.progress}
+              result={calibration.result}
+              canStart={isSourceActive && inference.status === "ready"}
+              onStart={startCalibration}
+              onCancel={calibration.cancel}
+              onSave={saveCalibration}
+              onSkip={!isRecording && !calibration.profile ? skipCalibration : undefined}
+            />
+
             {/* Detection Method Selector */}
             <Card className="border-0 bg-card/80 backdrop-blur-sm">
               <CardHeader>
@@ -599,7 +1025,7 @@ const HandRecognition: React.FC<HandRecognitionProps> = ({ onClose }) => {
               <CardContent className="space-y-4">
                 <div className="space-y-2">
                   <Label>Recognition Mode</Label>
-                  <Select value={detectionMethod} onValueChange={(value: 'manual' | 'frame-diff' | 'object-detection') => setDetectionMethod(value)}>
+                  <Select value={detectionMethod} onValueChange={(value: DetectionMethod) => setDetectionMethod(value)}>
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
@@ -607,10 +1033,114 @@ const HandRecognition: React.FC<HandRecognitionProps> = ({ onClose }) => {
                       <SelectItem value="manual">Manual Detection</SelectItem>
                       <SelectItem value="frame-diff">Frame Difference</SelectItem>
                       <SelectItem value="object-detection">Object Tracking</SelectItem>
+                      <SelectItem value="trained-model">Trained Model</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                {detectionMethod === 'trained-model' && (
+                  <div className="space-y-2">
+                    <Label>Model</Label>
+                    <Select value={recognitionModels.selected?.id ?? ""} onValueChange={recognitionModels.select}>
+                      <SelectTrigger>
+                        <SelectValue placeholder={recognitionModels.models.length > 0 ? "Choose a model" : "No saved models"} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {recognitionModels.models.map(model => (
+                          <SelectItem key={model.id} value={model.id}>
+                            {model.name} v{model.version} ({model.labels.length} signs)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      {recognitionModels.status === "loading" && "Loading model…"}
+                      {recognitionModels.status === "error" && recognitionModels.loadError}
+                      {recognitionModels.status === "ready" && (inference.gestureTaskError
+                        ? `Could not start the task: ${inference.gestureTaskError}`
+                        : recognitionModels.selected?.source === "mediapipe"
+                          ? "Runs on live video; session replays are not recognized"
+                          : recognitionModels.selected?.validationAccuracy != null &&
+                            `Validation accuracy ${Math.round(recognitionModels.selected.validationAccuracy * 100)}%`)}
+                      {recognitionModels.models.length === 0 && "Train or import one in Model Training on the dashboard"}
+                    </p>
+                  </div>
+                )}
+                
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <Label>Calibration</Label>
+                    <p className="text-xs text-muted-foreground">
+                      {calibration.profile
+                        ? `Calibrated ${new Date(calibration.profile.createdAt).toLocaleDateString()}`
+                        : "Using default thresholds"}
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={calibration.open}
+                      disabled={calibration.step !== "idle" || isReplaying}
+                    >
+                      {calibration.profile ? "Recalibrate" : "Calibrate"}
+                    </Button>
+                    {calibration.profile && (
+                      <Button variant="ghost" size="sm" onClick={calibration.reset} className="h-8 w-8 p-0">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                
+                <div className="space-y-2">
+                  <Label>Dominant Hand</Label>
+                  <Select value={dominantHand} onValueChange={(value: Handedness) => setDominantHand(value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="Right">Right-handed</SelectItem>
+                      <SelectItem value="Left">Left-handed</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
                 
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="non-manual">Face &amp; Body Markers</Label>
+                    <Switch
+                      id="non-manual"
+                      checked={isNonManualTracking}
+                      onCheckedChange={setIsNonManualTracking}
+                      disabled={inference.status !== "ready" || !inference.isNonManualAvailable}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {inference.isNonManualAvailable
+                      ? "Raised eyebrows, head shakes and nods, mouth shapes and where the hand is signed"
+                      : "Face and pose tracking is unavailable"}
+                  </p>
+                </div>
+                
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="sign-to-speech">Sign to Speech</Label>
+                  <Switch
+                    id="sign-to-speech"
+                    checked={isSignToSpeech}
+                    onCheckedChange={setIsSignToSpeech}
+                  />
+                </div>
+                
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="fingerspelling-mode">Fingerspelling Mode</Label>
+                  <Switch
+                    id="fingerspelling-mode"
+                    checked={isFingerspelling}
+                    onCheckedChange={setIsFingerspelling}
+                  />
+                </div>
+                
                 <div className="flex items-center justify-between">
                   <Label htmlFor="learning-mode">Learning Mode</Label>
                   <Switch
@@ -620,6 +1150,52 @@ const HandRecognition: React.FC<HandRecognitionProps> = ({ onClose }) => {
                   />
                 </div>
                 
+                {isLearningMode && (
+                  <div className="space-y-2 rounded-lg border bg-muted/30 p-3">
+                    <Label htmlFor="training-label">Gesture Label</Label>
+                    <Input
+                      id="training-label"
+                      list="training-label-options"
+                      placeholder="e.g. Namaste"
+                      value={trainingLabel}
+                      onChange={(e) => setTrainingLabel(e.target.value)}
+                    />
+                    <datalist id="training-label-options">
+                      {[...classifierLabels, ...fingerspellingLabels].map((gesture) => (
+                        <option key={gesture} value={gesture} />
+                      ))}
+                    </datalist>
+                    <p className="text-xs text-muted-foreground">
+                      {trainingLabel.trim()
+                        ? `Hold the gesture while recording: ${classifier.sampleCounts[trainingLabel.trim()] || 0} samples captured`
+                        : "Enter a label, then record to capture training samples"}
+                    </p>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={recordMovementTemplate}
+                      disabled={isRecordingMovement}
+                      className="w-full"
+                    >
+                      <Activity className="mr-2 h-4 w-4" />
+                      {isRecordingMovement ? "Perform the movement now..." : "Record Movement Template"}
+                    </Button>
+                  </div>
+                )}
+                
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {classifier.isTrained
+                      ? `Classifier: ${classifier.samples.length} samples, ${Object.keys(classifier.sampleCounts).length} labels`
+                      : "Classifier untrained (using built-in rules)"}
+                  </span>
+                  {classifier.isTrained && (
+                    <Button variant="ghost" size="sm" onClick={clearTrainingData} className="h-8 w-8 p-0">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                
                 <div className="flex items-center justify-between">
                   <Label htmlFor="background-sub">Background Subtraction</Label>
                   <Switch
@@ -628,6 +1204,43 @@ const HandRecognition: React.FC<HandRecognitionProps> = ({ onClose }) => {
                     onCheckedChange={setBackgroundSubtraction}
                   />
                 </div>
+                {backgroundSubtraction && isRecording && detectionMethod === 'frame-diff' && backgroundMethod && (
+                  <p className="text-xs text-muted-foreground">
+                    Motion is measured on the {backgroundMethod === "segmentation" ? "segmented signer" : "running-average foreground"} only
+                  </p>
+                )}
+                
+                <div className="space-y-2">
+                  <Label>Preview Background</Label>
+                  <Select
+                    value={previewEffect}
+                    onValueChange={(value: PreviewEffect) => setPreviewEffect(value)}
+                    disabled={inference.status !== "ready" || !inference.isSegmentationAvailable}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {previewEffects.map(effect => (
+                        <SelectItem key={effect.id} value={effect.id}>{effect.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {!inference.isSegmentationAvailable && (
+                    <p className="text-xs text-muted-foreground">Person segmentation is unavailable</p>
+                  )}
+                </div>
+                
+                <div className="space-y-2">
+                  <Label>Hold Time: {dwellTime}ms</Label>
+                  <Slider
+                    value={[dwellTime]}
+                    onValueChange={(value) => setDwellTime(value[0])}
+                    max={1500}
+                    min={100}
+                    step={50}
+                  />
+                </div>
                 
                 <div className="space-y-2">
                   <Label>Motion Threshold: {motionThreshold}</Label>
@@ -642,6 +1255,128 @@ const HandRecognition: React.FC<HandRecognitionProps> = ({ onClose }) => {
               </CardContent>
             </Card>
 
+            {isFingerspelling && (
+              <FingerspellingPanel
+                spelling={spelling}
+                trainedLabels={Object.keys(classifier.sampleCounts)}
+                onSpace={() => setSpelling(prev => finishWord(prev))}
+                onBackspace={() => setSpelling(prev => backspace(prev))}
+                onClear={() => setSpelling(createSpellingState())}
+                onReplaceWord={(index, word) => setSpelling(prev => replaceWord(prev, index, word))}
+                onCopy={copyText}
+                onSendText={onSendText}
+              />
+            )}
+
+            {isSignToSpeech && (
+              <SignToSpeechPanel
+                pendingGlosses={signToSpeech.pendingGlosses}
+                pendingMarkers={signToSpeech.pendingMarkers}
+                captions={signToSpeech.captions}
+                isTranslating={signToSpeech.isTranslating}
+                isMuted={signToSpeech.isMuted}
+                onToggleMute={() => signToSpeech.setIsMuted(!signToSpeech.isMuted)}
+                onFinishSentence={signToSpeech.flush}
+                onSpeak={signToSpeech.speak}
+                onClear={signToSpeech.clear}
+              />
+            )}
+
+            {videoSource === "camera" && (
+              <CameraSettingsPanel
+                devices={camera.devices}
+                settings={camera.settings}
+                activeTrack={videoInput.cameraTrack}
+                isBasic={videoInput.isBasicCamera}
+                onChange={videoInput.updateCameraSettings}
+                onRefresh={camera.refresh}
+              />
+            )}
+
+            <SpeechSettingsPanel
+              isSupported={speech.isSupported}
+              settings={speech.settings}
+              voices={speech.voices}
+              isSpeaking={speech.isSpeaking}
+              gestures={committableGestures}
+              onChange={speech.updateSettings}
+              onSetPhrase={speech.setPhrase}
+              onRemovePhrase={speech.removePhrase}
+              onTest={() => speech.say(speechTestPhrase(speech.settings.lang))}
+              onStop={speech.cancel}
+            />
+
+            <CommandBindingsPanel
+              settings={commandBindings.settings}
+              pending={commandBindings.pending}
+              gestures={committableGestures}
+              onChange={commandBindings.updateSettings}
+              onBind={commandBindings.bind}
+              onUnbind={commandBindings.unbind}
+              onCancelPending={commandBindings.cancel}
+            />
+
+            <DatasetStudioPanel
+              samples={dataset.samples}
+              counts={dataset.counts}
+              settings={datasetCapture.settings}
+              captureState={datasetCapture.state}
+              countdown={datasetCapture.countdown}
+              isCapturing={datasetCapture.isCapturing}
+              canCapture={isRecording && inference.status === "ready" && !isReplaying && !calibration.isCapturing}
+              suggestedLabels={committableGestures}
+              mirrored={camera.settings.mirrored}
+              onChange={datasetCapture.updateSettings}
+              onStart={() => datasetCapture.start(dominantHand)}
+              onCancel={datasetCapture.cancel}
+              onDelete={datasetStudio.deleteSamples}
+              onExport={datasetStudio.exportDataset}
+              onImport={datasetStudio.importDataset}
+            />
+
+            <SessionPanel
+              session={session}
+              canRecord={isRecording && inference.status === "ready"}
+              canReplay={!isRecording && !sessionReplay.isRecording && (session?.data.frames.length ?? 0) > 0}
+              isSessionRecording={sessionReplay.isRecording}
+              recordedFrameCount={sessionReplay.recordedFrameCount}
+              onStartRecording={startSessionRecording}
+              onStopRecording={stopSessionRecording}
+              onDownload={sessionReplay.download}
+              onLoadFile={sessionReplay.loadFile}
+              isReplaying={isReplaying}
+              replayProgress={sessionReplay.replayProgress}
+              replaySpeed={sessionReplay.replaySpeed}
+              onReplaySpeedChange={sessionReplay.setReplaySpeed}
+              onReplay={startReplay}
+              onStopReplay={sessionReplay.stopReplay}
+              replayReport={sessionReplay.replayReport}
+            />
+
+            <CloudGesturesPanel
+              localLabels={uploadableGestures}
+              gestures={cloudLibrary.gestures}
+              shared={cloudLibrary.shared}
+              isLoaded={cloudLibrary.isLoaded}
+              isBusy={cloudLibrary.isBusy}
+              onRefresh={cloudLibrary.refresh}
+              onUpload={cloudLibrary.upload}
+              onVisibilityChange={cloudLibrary.setVisibility}
+              onDelete={cloudLibrary.remove}
+              onCopyLink={cloudLibrary.copyShareLink}
+              onImport={cloudLibrary.importGestures}
+              onDismissShared={cloudLibrary.dismissShared}
+            />
+
+            <GestureDefinitionsPanel
+              loaded={gestureDefinitions.loaded}
+              isClassifierTrained={classifier.isTrained}
+              onLoadFile={loadDefinitionsFile}
+              onDownload={downloadDefinitions}
+              onRemove={gestureDefinitions.removeDefinition}
+              onClear={gestureDefinitions.clearDefinitions}
+            />
+
             {/* Session Stats */}
             <Card className="border-0 bg-card/80 backdrop-blur-sm">
               <CardHeader>
@@ -674,6 +1409,13 @@ const HandRecognition: React.FC<HandRecognitionProps> = ({ onClose }) => {
               </CardContent>
             </Card>
 
+            <PerformancePanel
+              metrics={pipeline.metrics}
+              backend={inference.modelInfo
+                ? `${inference.modelInfo.delegate} inference`
+                : inference.status === "degraded" ? "Motion only" : "Model loading"}
+            />
+
             {/* Current Recognition */}
             <Card className="border-0 bg-card/80 backdrop-blur-sm">
               <CardHeader>
@@ -686,6 +1428,50 @@ const HandRecognition: React.FC<HandRecognitionProps> = ({ onClose }) => {
                       <CheckCircle className="h-5 w-5 text-success" />
                       <span className="font-semibold">{recognizedGesture}</span>
                     </div>
+                    {movementInfo && (
+                      <p className="text-xs text-muted-foreground">
+                        Movement: {movementInfo.direction}, {movementInfo.shape}
+                        {movementInfo.repetitions > 0 && `, ${movementInfo.repetitions} repetitions`}
+                      </p>
+                    )}
+                    {handInfo && (
+                      <div className="flex flex-wrap gap-2">
+                        <Badge variant="default" className="text-xs">
+                          Dominant: {handInfo.dominant}
+                        </Badge>
+                        {handInfo.nonDominant && (
+                          <Badge variant="outline" className="text-xs">
+                            Non-dominant: {handInfo.nonDominant}
+                          </Badge>
+                        )}
+                        {handInfo.inContact && (
+                          <Badge variant="secondary" className="text-xs">
+                            Hands touching
+                          </Badge>
+                        )}
+                        {handInfo.location && (
+                          <Badge variant="outline" className="text-xs">
+                            At: {handLocationNames[handInfo.location]}
+                          </Badge>
+                        )}
+                      </div>
+                    )}
+                    {nonManualMarkers && (
+                      <div className="flex flex-wrap gap-2">
+                        {nonManualMarkers.eyebrowsRaised && (
+                          <Badge variant="secondary" className="text-xs">Eyebrows raised</Badge>
+                        )}
+                        {nonManualMarkers.headShake && (
+                          <Badge variant="secondary" className="text-xs">Head shake</Badge>
+                        )}
+                        {nonManualMarkers.headNod && (
+                          <Badge variant="secondary" className="text-xs">Head nod</Badge>
+                        )}
+                        {nonManualMarkers.mouthShape && (
+                          <Badge variant="secondary" className="text-xs capitalize">Mouth {nonManualMarkers.mouthShape}</Badge>
+                        )}
+                      </div>
+                    )}
                     <div className="space-y-2">
                       <div className="flex justify-between text-sm">
                         <span>Confidence</span>
@@ -693,6 +1479,19 @@ const HandRecognition: React.FC<HandRecognitionProps> = ({ onClose }) => {
                       </div>
                       <Progress value={confidence} />
                     </div>
+                    {Object.keys(probabilities).length > 0 && (
+                      <div className="space-y-1">
+                        {Object.entries(probabilities)
+                          .sort((a, b) => b[1] - a[1])
+                          .slice(0, 3)
+                          .map(([label, probability]) => (
+                            <div key={label} className="flex justify-between text-xs text-muted-foreground">
+                              <span>{label}</span>
+                              <span>{Math.round(probability * 100)}%</span>
+                            </div>
+                          ))}
+                      </div>
+                    )}
                     <p className="text-xs text-muted-foreground">
                       {confidence > 80 ? "Excellent recognition!" : 
                        confidence > 60 ? "Good recognition" : "Try adjusting hand position"}
@@ -709,30 +1508,13 @@ const HandRecognition: React.FC<HandRecognitionProps> = ({ onClose }) => {
               </CardContent>
             </Card>
 
-            {/* Gesture History */}
-            <Card className="border-0 bg-card/80 backdrop-blur-sm">
-              <CardHeader>
-                <CardTitle className="text-lg flex items-center gap-2">
-                  <History className="h-5 w-5" />
-                  Gesture History
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-2 max-h-32 overflow-y-auto">
-                  {gestureHistory.slice(-5).reverse().map((entry, index) => (
-                    <div key={index} className="flex items-center justify-between text-sm">
-                      <span className="font-medium">{entry.gesture}</span>
-                      <span className="text-muted-foreground">{entry.confidence}%</span>
-                    </div>
-                  ))}
-                  {gestureHistory.length === 0 && (
-                    <p className="text-sm text-muted-foreground text-center py-4">
-                      No gestures detected yet
-                    </p>
-                  )}
-                </div>
-              </CardContent>
-            </Card>
+            <GestureHistoryPanel
+              log={sessionLog.log}
+              summary={sessionLog.summary}
+              onLearnerChange={sessionLog.setLearner}
+              onDownload={sessionReport.download}
+              onPrint={sessionReport.print}
+            />
 
             {/* Gesture Library */}
             <Card className="border-0 bg-card/80 backdrop-blur-sm">
@@ -748,7 +1530,7 @@ const HandRecognition: React.FC<HandRecognitionProps> = ({ onClose }) => {
                   <div>
                     <p className="text-sm font-medium mb-2">Standard Gestures</p>
                     <div className="grid grid-cols-2 gap-2">
-                      {gestureLabels.slice(0, 10).map((gesture, index) => (
+                      {handshapeLabels.map((gesture, index) => (
                         <Badge 
                           key={index} 
                           variant="outline" 
@@ -763,9 +1545,24 @@ const HandRecognition: React.FC<HandRecognitionProps> = ({ onClose }) => {
                   <div>
                     <p className="text-sm font-medium mb-2">Dynamic Gestures</p>
                     <div className="grid grid-cols-2 gap-2">
-                      {gestureLabels.slice(10).map((gesture, index) => (
+                      {dynamicLabels.map((gesture, index) => (
+                        <Badge 
+                          key={index + handshapeLabels.length} 
+                          variant="secondary" 
+                          className="justify-center py-2 text-xs"
+                        >
+                          {gesture}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <p className="text-sm font-medium mb-2">Two-Handed Signs</p>
+                    <div className="grid grid-cols-2 gap-2">
+                      {twoHandedGestureLabels.map((gesture) => (
                         <Badge 
-                          key={index + 10} 
+                          key={gesture} 
                           variant="secondary" 
                           className="justify-center py-2 text-xs"
                         >
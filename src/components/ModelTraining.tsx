@@ -0,0 +1,416 @@
+import { useState, useEffect, useRef } from "react";
+import type * as tf from "@tensorflow/tfjs";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { ArrowLeft, Brain, Database, Play, Save, Square, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/use-error-toast";
+import { useDataset } from "@/hooks/use-dataset";
+import { useRecognitionModels } from "@/hooks/use-recognition-models";
+import ModelImportPanel from "@/components/recognition/ModelImportPanel";
+import { importRecognitionModel } from "@/lib/recognition/model-import";
+import { frameFeatureLength, sequenceSteps } from "@/lib/recognition/sequence-features";
+import {
+  EpochMetrics,
+  ModelArchitecture,
+  TrainingOptions,
+  architectureNames,
+  defaultTrainingOptions,
+  modelSourceNames,
+  nextModelVersion,
+  sampleDurationMs,
+  trainSequenceModel
+} from "@/lib/recognition/sequence-model";
+
+interface ModelTrainingProps {
+  onClose: () => void;
+}
+
+const epochPresets = [20, 40, 80, 150];
+const validationSplitPresets = [0.1, 0.2, 0.3];
+
+const lossChartConfig = {
+  loss: { label: "Training loss", color: "hsl(var(--primary))" },
+  validationLoss: { label: "Validation loss", color: "hsl(var(--accent))" }
+} satisfies ChartConfig;
+
+const accuracyChartConfig = {
+  accuracy: { label: "Training accuracy", color: "hsl(var(--primary))" },
+  validationAccuracy: { label: "Validation accuracy", color: "hsl(var(--accent))" }
+} satisfies ChartConfig;
+
+const formatPercent = (value: number | null) => (value === null ? "—" : `${Math.round(value * 100)}%`);
+
+const ModelTraining: React.FC<ModelTrainingProps> = ({ onClose }) => {
+  const dataset = useDataset();
+  const recognitionModels = useRecognitionModels();
+  const { toast } = useToast();
+  const reportError = useErrorToast();
+  const [options, setOptions] = useState<TrainingOptions>(defaultTrainingOptions);
+  const [modelName, setModelName] = useState("ISL signs");
+  // Labels are included unless switched off, so new captures join automatically
+  const [excludedLabels, setExcludedLabels] = useState<string[]>([]);
+  const [isTraining, setIsTraining] = useState(false);
+  const [history, setHistory] = useState<EpochMetrics[]>([]);
+  const [trained, setTrained] = useState<{ labels: string[]; sampleCount: number; sequenceMs: number } | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const trainedModelRef = useRef<tf.LayersModel | null>(null);
+  const stopRef = useRef(false);
+  const isUnmountedRef = useRef(false);
+
+  const labels = Object.keys(dataset.counts).sort();
+  const includedLabels = labels.filter(label => !excludedLabels.includes(label));
+  const includedSamples = dataset.samples.filter(sample => includedLabels.includes(sample.label));
+  const lastEpoch = history[history.length - 1] ?? null;
+
+  const discardTrained = () => {
+    trainedModelRef.current?.dispose();
+    trainedModelRef.current = null;
+    setTrained(null);
+  };
+
+  // Stops a running fit and frees an unsaved model when leaving the page
+  useEffect(() => {
+    return () => {
+      isUnmountedRef.current = true;
+      stopRef.current = true;
+      trainedModelRef.current?.dispose();
+    };
+  }, []);
+
+  const toggleLabel = (label: string, included: boolean) => {
+    setExcludedLabels(prev => (included ? prev.filter(excluded => excluded !== label) : [...prev, label]));
+  };
+
+  const train = async () => {
+    discardTrained();
+    setHistory([]);
+    setIsTraining(true);
+    stopRef.current = false;
+    try {
+      const result = await trainSequenceModel(
+        includedSamples,
+        options,
+        (metrics) => setHistory(prev => [...prev, metrics]),
+        () => stopRef.current
+      );
+      if (isUnmountedRef.current) {
+        result.model.dispose();
+        return;
+      }
+      trainedModelRef.current = result.model;
+      setTrained({ labels: result.labels, sampleCount: includedSamples.length, sequenceMs: sampleDurationMs(includedSamples) });
+    } catch (error) {
+      reportError("Training Failed", error);
+    } finally {
+      setIsTraining(false);
+    }
+  };
+
+  const saveModel = async () => {
+    const model = trainedModelRef.current;
+    const name = modelName.trim();
+    if (!model || !trained || !name) return;
+
+    const version = nextModelVersion(recognitionModels.models, name);
+    try {
+      await recognitionModels.register(model, {
+        id: crypto.randomUUID(),
+        name,
+        version,
+        source: "trained",
+        architecture: options.architecture,
+        labels: trained.labels,
+        inputShape: [sequenceSteps, frameFeatureLength],
+        sequenceMs: trained.sequenceMs,
+        accuracy: lastEpoch?.accuracy ?? null,
+        validationAccuracy: lastEpoch?.validationAccuracy ?? null,
+        sampleCount: trained.sampleCount,
+        createdAt: new Date().toISOString()
+      });
+      discardTrained();
+      toast({
+        title: "Model Saved",
+        description: `${name} v${version} can now be selected in Hand Recognition`
+      });
+    } catch (error) {
+      reportError("Could not save the model", error);
+    }
+  };
+
+  const importModel = async (files: File[], labelMap: File, name: string) => {
+    setIsImporting(true);
+    try {
+      const { model, info } = await importRecognitionModel(files, await labelMap.text(), name, recognitionModels.models);
+      try {
+        await recognitionModels.register(model, info);
+      } finally {
+        if (!(model instanceof ArrayBuffer)) model.dispose();
+      }
+      toast({
+        title: "Model Imported",
+        description: `${info.name} v${info.version} (${info.labels.length} labels) can now be selected in Hand Recognition`
+      });
+      return true;
+    } catch (error) {
+      reportError("Could not import the model", error);
+      return false;
+    } finally {
+      if (!isUnmountedRef.current) setIsImporting(false);
+    }
+  };
+
+  const deleteModel = async (id: string) => {
+    try {
+      await recognitionModels.remove(id);
+    } catch (error) {
+      reportError("Could not delete the model", error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted p-4">
+      <div className="mx-auto max-w-7xl">
+        {/* Header */}
+        <div className="mb-8 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="outline" onClick={onClose} className="h-10 w-10 p-0">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Model Training</h1>
+              <p className="text-muted-foreground">Train a sequence model on your captured landmark samples, or import one</p>
+            </div>
+          </div>
+          <Badge variant="secondary" className="px-3 py-1">
+            <Brain className="mr-1 h-4 w-4" />
+            On-device
+          </Badge>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <div className="space-y-6">
+            <Card className="border-0 bg-card/80 backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Database className="h-5 w-5" />
+                  Training Data
+                </CardTitle>
+                <CardDescription>Samples from the Dataset Studio in Hand Recognition</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {labels.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    {dataset.isLoaded ? "No samples yet. Capture some in Hand Recognition first." : "Loading samples…"}
+                  </p>
+                ) : (
+                  labels.map(label => (
+                    <div key={label} className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id={`train-label-${label}`}
+                          checked={includedLabels.includes(label)}
+                          onCheckedChange={(checked) => toggleLabel(label, checked === true)}
+                          disabled={isTraining}
+                        />
+                        <Label htmlFor={`train-label-${label}`} className="font-normal">{label}</Label>
+                      </div>
+                      <span className="text-sm text-muted-foreground">{dataset.counts[label]}</span>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="border-0 bg-card/80 backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle className="text-lg">Training Settings</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Architecture</Label>
+                  <Select
+                    value={options.architecture}
+                    onValueChange={(value) => setOptions(prev => ({ ...prev, architecture: value as ModelArchitecture }))}
+                    disabled={isTraining}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(architectureNames) as ModelArchitecture[]).map(architecture => (
+                        <SelectItem key={architecture} value={architecture}>{architectureNames[architecture]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <Label>Epochs</Label>
+                    <Select
+                      value={String(options.epochs)}
+                      onValueChange={(value) => setOptions(prev => ({ ...prev, epochs: Number(value) }))}
+                      disabled={isTraining}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {epochPresets.map(epochs => (
+                          <SelectItem key={epochs} value={String(epochs)}>{epochs}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Validation</Label>
+                    <Select
+                      value={String(options.validationSplit)}
+                      onValueChange={(value) => setOptions(prev => ({ ...prev, validationSplit: Number(value) }))}
+                      disabled={isTraining}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {validationSplitPresets.map(split => (
+                          <SelectItem key={split} value={String(split)}>{formatPercent(split)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {isTraining ? (
+                  <Button variant="destructive" onClick={() => { stopRef.current = true; }} className="w-full">
+                    <Square className="mr-2 h-4 w-4" />
+                    Stop After This Epoch
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={train}
+                    disabled={includedLabels.length < 2}
+                    className="w-full bg-gradient-to-r from-primary to-accent hover:from-primary-hover hover:to-accent/90"
+                  >
+                    <Play className="mr-2 h-4 w-4" />
+                    Train on {includedSamples.length} samples
+                  </Button>
+                )}
+                {includedLabels.length < 2 && (
+                  <p className="text-xs text-muted-foreground">Include at least 2 labels to train</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-6 lg:col-span-2">
+            <Card className="border-0 bg-card/80 backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle className="text-lg">Progress</CardTitle>
+                <CardDescription>
+                  {lastEpoch
+                    ? `Epoch ${lastEpoch.epoch}/${options.epochs} · validation accuracy ${formatPercent(lastEpoch.validationAccuracy)}`
+                    : "Loss and accuracy appear here once training starts"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {isTraining && <Progress value={((lastEpoch?.epoch ?? 0) / options.epochs) * 100} className="h-2" />}
+                {history.length > 0 && (
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <ChartContainer config={lossChartConfig}>
+                      <LineChart data={history} margin={{ left: 0, right: 8 }}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="epoch" tickLine={false} axisLine={false} />
+                        <YAxis tickLine={false} axisLine={false} width={40} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        <Line dataKey="loss" stroke="var(--color-loss)" dot={false} isAnimationActive={false} />
+                        <Line dataKey="validationLoss" stroke="var(--color-validationLoss)" dot={false} isAnimationActive={false} />
+                      </LineChart>
+                    </ChartContainer>
+                    <ChartContainer config={accuracyChartConfig}>
+                      <LineChart data={history} margin={{ left: 0, right: 8 }}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="epoch" tickLine={false} axisLine={false} />
+                        <YAxis domain={[0, 1]} tickLine={false} axisLine={false} width={40} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        <Line dataKey="accuracy" stroke="var(--color-accuracy)" dot={false} isAnimationActive={false} />
+                        <Line dataKey="validationAccuracy" stroke="var(--color-validationAccuracy)" dot={false} isAnimationActive={false} />
+                      </LineChart>
+                    </ChartContainer>
+                  </div>
+                )}
+
+                {trained && (
+                  <div className="space-y-3 rounded-lg border bg-background/50 p-3">
+                    <p className="text-sm">
+                      Trained on {trained.sampleCount} samples of {trained.labels.length} labels ·
+                      validation accuracy <span className="font-semibold">{formatPercent(lastEpoch?.validationAccuracy ?? null)}</span>
+                    </p>
+                    <div className="flex gap-2">
+                      <Input value={modelName} onChange={(e) => setModelName(e.target.value)} placeholder="Model name" />
+                      <Button onClick={saveModel} disabled={!modelName.trim()} className="shrink-0">
+                        <Save className="mr-2 h-4 w-4" />
+                        Save v{nextModelVersion(recognitionModels.models, modelName.trim())}
+                      </Button>
+                      <Button variant="outline" onClick={discardTrained} className="shrink-0">
+                        Discard
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="border-0 bg-card/80 backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Brain className="h-5 w-5" />
+                  Saved Models
+                </CardTitle>
+                <CardDescription>Select one under Detection Method → Trained Model in Hand Recognition</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {recognitionModels.models.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No saved models yet</p>
+                ) : (
+                  recognitionModels.models.map(model => (
+                    <div key={model.id} className="flex items-center justify-between gap-2 rounded-lg bg-muted/50 p-3">
+                      <div className="min-w-0">
+                        <p className="truncate text-sm font-medium">
+                          {model.name} <span className="text-muted-foreground">v{model.version}</span>
+                        </p>
+                        <p className="truncate text-xs text-muted-foreground">
+                          {model.architecture ? architectureNames[model.architecture] : modelSourceNames[model.source]} · {model.labels.length} labels ·
+                          {model.validationAccuracy !== null
+                            ? ` validation ${formatPercent(model.validationAccuracy)}`
+                            : ` accuracy ${formatPercent(model.accuracy)}`} · {new Date(model.createdAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <Button variant="ghost" size="sm" onClick={() => deleteModel(model.id)} className="h-8 w-8 shrink-0 p-0">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            <ModelImportPanel isImporting={isImporting} onImport={importModel} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModelTraining;
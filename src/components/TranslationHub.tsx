@@ -25,13 +25,16 @@ import {
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import type { TranslationTab } from "@/lib/recognition/commands";
 
 interface TranslationHubProps {
   onClose: () => void;
+  initialText?: string;
+  initialTab?: TranslationTab;
 }
 
-const TranslationHub: React.FC<TranslationHubProps> = ({ onClose }) => {
-  const [inputText, setInputText] = useState("");
+const TranslationHub: React.FC<TranslationHubProps> = ({ onClose, initialText = "", initialTab = "translate" }) => {
+  const [inputText, setInputText] = useState(initialText);
   const [translatedText, setTranslatedText] = useState("");
   const [isTranslating, setIsTranslating] = useState(false);
   const [isListening, setIsListening] = useState(false);
@@ -41,7 +44,7 @@ const TranslationHub: React.FC<TranslationHubProps> = ({ onClose }) => {
   const [chatMessages, setChatMessages] = useState<Array<{id: string, type: 'user' | 'assistant', content: string, timestamp: Date}>>([]);
   const [chatInput, setChatInput] = useState("");
   const [isChatMode, setIsChatMode] = useState(false);
-  const [activeTab, setActiveTab] = useState("translate");
+  const [activeTab, setActiveTab] = useState<string>(initialTab);
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -0,0 +1,122 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { AlertCircle, CheckCircle, Hand, Ruler } from "lucide-react";
+import type { CalibrationCheck, CalibrationProfile, CalibrationStep } from "@/lib/recognition/calibration";
+
+interface CalibrationWizardProps {
+  step: CalibrationStep;
+  progress: number;
+  result: { profile: CalibrationProfile; checks: CalibrationCheck[] } | null;
+  canStart: boolean;
+  onStart: () => void;
+  onCancel: () => void;
+  onSave: () => void;
+  onSkip?: () => void;
+}
+
+const captureInstructions = {
+  "open-palm": {
+    title: "Open Palm",
+    text: "Hold your dominant hand up, palm towards the camera, with all fingers spread wide."
+  },
+  fist: {
+    title: "Fist",
+    text: "Now close the same hand into a tight fist and keep it in view."
+  }
+};
+
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({
+  step,
+  progress,
+  result,
+  canStart,
+  onStart,
+  onCancel,
+  onSave,
+  onSkip
+}) => {
+  if (step === "idle") return null;
+
+  return (
+    <Card className="border-2 border-primary/40 bg-card/90 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Ruler className="h-5 w-5" />
+          Calibration
+        </CardTitle>
+        <CardDescription>Tunes recognition to your hand, distance and camera</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {step === "intro" && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Sit where you will sign, with your upper body in view. You will show an open palm and then a fist for a few
+              seconds each.
+            </p>
+            {!canStart && (
+              <p className="text-xs text-muted-foreground">Start the camera or a video and wait for the AI model to load.</p>
+            )}
+            <div className="flex gap-2">
+              <Button onClick={onStart} disabled={!canStart} className="flex-1">
+                Begin
+              </Button>
+              {onSkip && (
+                <Button variant="outline" onClick={onSkip}>
+                  Skip
+                </Button>
+              )}
+              <Button variant="ghost" onClick={onCancel}>
+                Cancel
+              </Button>
+            </div>
+          </>
+        )}
+
+        {(step === "open-palm" || step === "fist") && (
+          <>
+            <div className="flex items-center gap-2">
+              <Hand className="h-5 w-5 text-primary" />
+              <span className="font-semibold">
+                Step {step === "open-palm" ? 1 : 2} of 2: {captureInstructions[step].title}
+              </span>
+            </div>
+            <p className="text-sm text-muted-foreground">{captureInstructions[step].text}</p>
+            <Progress value={progress} className="h-2" />
+            <Button variant="ghost" size="sm" onClick={onCancel} className="w-full">
+              Cancel
+            </Button>
+          </>
+        )}
+
+        {step === "review" && result && (
+          <>
+            <div className="space-y-2">
+              {result.checks.map(check => (
+                <div key={check.label} className="flex items-start gap-2">
+                  {check.ok
+                    ? <CheckCircle className="mt-0.5 h-4 w-4 shrink-0 text-success" />
+                    : <AlertCircle className="mt-0.5 h-4 w-4 shrink-0 text-warning" />}
+                  <div>
+                    <p className="text-sm font-medium">{check.label}</p>
+                    <p className="text-xs text-muted-foreground">{check.message}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={onSave} className="flex-1">
+                Save Profile
+              </Button>
+              <Button variant="outline" onClick={onStart}>
+                Retry
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CalibrationWizard;
@@ -0,0 +1,119 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RefreshCw, Video } from "lucide-react";
+import { CameraSettings, ResolutionPreset, cameraName, frameRatePresets, resolutionPresets } from "@/lib/recognition/camera";
+
+interface CameraSettingsPanelProps {
+  devices: MediaDeviceInfo[];
+  settings: CameraSettings;
+  // What the running camera actually delivers, which may differ from the request
+  activeTrack: MediaTrackSettings | null;
+  // Reduced constraints after the camera rejected the chosen ones
+  isBasic: boolean;
+  onChange: (changes: Partial<CameraSettings>) => void;
+  onRefresh: () => void;
+}
+
+const defaultDevice = "default";
+
+const CameraSettingsPanel: React.FC<CameraSettingsPanelProps> = ({
+  devices,
+  settings,
+  activeTrack,
+  isBasic,
+  onChange,
+  onRefresh
+}) => {
+  // Device ids are blank until camera permission has been granted
+  const listedDevices = devices.filter(device => device.deviceId);
+
+  return (
+    <Card className="border-0 bg-card/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Video className="h-5 w-5" />
+          Camera
+        </CardTitle>
+        <CardDescription>Switch cameras without restarting recognition</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Device</Label>
+          <div className="flex gap-2">
+            <Select
+              value={settings.deviceId ?? defaultDevice}
+              onValueChange={(value) => onChange({ deviceId: value === defaultDevice ? null : value })}
+            >
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={defaultDevice}>Default front camera</SelectItem>
+                {listedDevices.map((device, index) => (
+                  <SelectItem key={device.deviceId} value={device.deviceId}>{cameraName(device, index)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={onRefresh} className="h-10 px-3">
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+          {listedDevices.length === 0 && (
+            <p className="text-xs text-muted-foreground">Start the camera once to list every connected device</p>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="camera-mirrored">Mirror preview</Label>
+          <Switch
+            id="camera-mirrored"
+            checked={settings.mirrored}
+            onCheckedChange={(checked) => onChange({ mirrored: checked })}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label>Resolution</Label>
+            <Select value={settings.resolution} onValueChange={(value) => onChange({ resolution: value as ResolutionPreset })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(resolutionPresets) as ResolutionPreset[]).map(preset => (
+                  <SelectItem key={preset} value={preset}>{resolutionPresets[preset].name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Frame rate</Label>
+            <Select value={String(settings.frameRate)} onValueChange={(value) => onChange({ frameRate: Number(value) })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {frameRatePresets.map(rate => (
+                  <SelectItem key={rate} value={String(rate)}>{rate} fps</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {activeTrack && (
+          <p className="text-xs text-muted-foreground">
+            Receiving {activeTrack.width} × {activeTrack.height}
+            {activeTrack.frameRate ? ` at ${Math.round(activeTrack.frameRate)} fps` : ""}
+            {isBasic ? " (the camera rejected the chosen settings)" : ""}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CameraSettingsPanel;
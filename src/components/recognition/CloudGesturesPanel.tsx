@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Cloud, CloudUpload, Download, Link, RefreshCw, Trash2, X } from "lucide-react";
+import { CloudGesture, GestureVisibility, gestureVisibilityNames } from "@/lib/recognition/cloud-gestures";
+
+interface CloudGesturesPanelProps {
+  // Locally trained labels that can be uploaded
+  localLabels: string[];
+  gestures: CloudGesture[];
+  shared: CloudGesture[];
+  isLoaded: boolean;
+  isBusy: boolean;
+  onRefresh: () => void;
+  onUpload: (label: string, visibility: GestureVisibility) => void;
+  onVisibilityChange: (id: string, visibility: GestureVisibility) => void;
+  onDelete: (id: string) => void;
+  onCopyLink: (gestures: CloudGesture[]) => void;
+  onImport: (gestures: CloudGesture[]) => void;
+  onDismissShared: () => void;
+}
+
+const visibilities = Object.keys(gestureVisibilityNames) as GestureVisibility[];
+
+const gestureSize = (gesture: CloudGesture) =>
+  [
+    gesture.samples.length > 0 && `${gesture.samples.length} samples`,
+    gesture.templates.length > 0 && `${gesture.templates.length} movements`
+  ].filter(Boolean).join(", ") || "empty";
+
+const CloudGesturesPanel: React.FC<CloudGesturesPanelProps> = ({
+  localLabels,
+  gestures,
+  shared,
+  isLoaded,
+  isBusy,
+  onRefresh,
+  onUpload,
+  onVisibilityChange,
+  onDelete,
+  onCopyLink,
+  onImport,
+  onDismissShared
+}) => {
+  const [uploadLabel, setUploadLabel] = useState("");
+  const [uploadVisibility, setUploadVisibility] = useState<GestureVisibility>("private");
+  const own = gestures.filter(gesture => gesture.isOwn);
+  const publicGestures = gestures.filter(gesture => !gesture.isOwn);
+  const shareable = own.filter(gesture => gesture.visibility !== "private");
+
+  return (
+    <Card className="border-0 bg-card/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Cloud className="h-5 w-5" />
+          Cloud Gestures
+        </CardTitle>
+        <CardDescription>Save trained gestures to your account and share them</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {shared.length > 0 && (
+          <div className="space-y-2 rounded-lg border border-primary/40 p-3">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">Shared with you</p>
+              <Button variant="ghost" size="sm" onClick={onDismissShared} className="h-6 w-6 p-0">
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+            {shared.map(gesture => (
+              <div key={gesture.id} className="flex items-center justify-between text-sm">
+                <span className="font-medium">{gesture.label}</span>
+                <span className="text-xs text-muted-foreground">{gestureSize(gesture)}</span>
+              </div>
+            ))}
+            <Button size="sm" onClick={() => onImport(shared)} disabled={isBusy} className="w-full">
+              <Download className="mr-2 h-4 w-4" />
+              Import {shared.length === 1 ? "Gesture" : `${shared.length} Gestures`}
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Select value={uploadLabel} onValueChange={setUploadLabel}>
+            <SelectTrigger>
+              <SelectValue placeholder={localLabels.length > 0 ? "Choose a trained gesture" : "Train a custom gesture first"} />
+            </SelectTrigger>
+            <SelectContent>
+              {localLabels.map(label => (
+                <SelectItem key={label} value={label}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex gap-2">
+            <Select value={uploadVisibility} onValueChange={(value) => setUploadVisibility(value as GestureVisibility)}>
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {visibilities.map(visibility => (
+                  <SelectItem key={visibility} value={visibility}>{gestureVisibilityNames[visibility]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              onClick={() => onUpload(uploadLabel, uploadVisibility)}
+              disabled={!uploadLabel || !localLabels.includes(uploadLabel) || isBusy}
+            >
+              <CloudUpload className="mr-2 h-4 w-4" />
+              Upload
+            </Button>
+          </div>
+        </div>
+
+        <Button variant="outline" size="sm" onClick={onRefresh} disabled={isBusy} className="w-full">
+          <RefreshCw className={`mr-2 h-4 w-4 ${isBusy ? "animate-spin" : ""}`} />
+          {isLoaded ? "Refresh Library" : "Load Library"}
+        </Button>
+
+        {own.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">My gestures</p>
+              {shareable.length > 0 && (
+                <Button variant="ghost" size="sm" onClick={() => onCopyLink(shareable)} className="h-7 text-xs">
+                  <Link className="mr-1 h-3 w-3" />
+                  Copy set link
+                </Button>
+              )}
+            </div>
+            {own.map(gesture => (
+              <div key={gesture.id} className="space-y-1 rounded-lg bg-muted/50 p-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">{gesture.label}</span>
+                  <div className="flex gap-1">
+                    {gesture.visibility !== "private" && (
+                      <Button variant="ghost" size="sm" onClick={() => onCopyLink([gesture])} className="h-6 w-6 p-0">
+                        <Link className="h-3 w-3" />
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => onDelete(gesture.id)} disabled={isBusy} className="h-6 w-6 p-0">
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-muted-foreground">{gestureSize(gesture)}</span>
+                  <Select
+                    value={gesture.visibility}
+                    onValueChange={(value) => onVisibilityChange(gesture.id, value as GestureVisibility)}
+                    disabled={isBusy}
+                  >
+                    <SelectTrigger className="h-7 w-40 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {visibilities.map(visibility => (
+                        <SelectItem key={visibility} value={visibility}>{gestureVisibilityNames[visibility]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {publicGestures.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Public gestures</p>
+            {publicGestures.map(gesture => (
+              <div key={gesture.id} className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="truncate text-sm">{gesture.label}</p>
+                  <p className="text-xs text-muted-foreground">{gestureSize(gesture)}</p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => onImport([gesture])} disabled={isBusy} className="h-7 text-xs">
+                  Import
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isLoaded && gestures.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center">
+            No saved gestures yet
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CloudGesturesPanel;
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Command, Plus, X } from "lucide-react";
+import { AppCommand, CommandSettings, CommandState, appCommandNames } from "@/lib/recognition/commands";
+
+interface CommandBindingsPanelProps {
+  settings: CommandSettings;
+  pending: CommandState["pending"];
+  // Gestures the recognizer can commit
+  gestures: string[];
+  onChange: (changes: Partial<CommandSettings>) => void;
+  onBind: (gesture: string, command: AppCommand) => void;
+  onUnbind: (gesture: string) => void;
+  onCancelPending: () => void;
+}
+
+const commands = Object.keys(appCommandNames) as AppCommand[];
+
+const CommandBindingsPanel: React.FC<CommandBindingsPanelProps> = ({
+  settings,
+  pending,
+  gestures,
+  onChange,
+  onBind,
+  onUnbind,
+  onCancelPending
+}) => {
+  const [newGesture, setNewGesture] = useState("");
+  const [newCommand, setNewCommand] = useState<AppCommand | "">("");
+  const boundGestures = settings.bindings.map(binding => binding.gesture);
+
+  const addBinding = () => {
+    if (!newGesture || !newCommand) return;
+    onBind(newGesture, newCommand);
+    setNewGesture("");
+    setNewCommand("");
+  };
+
+  return (
+    <Card className="border-0 bg-card/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Command className="h-5 w-5" />
+          Gesture Commands
+        </CardTitle>
+        <CardDescription>Control the app with gestures, confirmed by a second gesture</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="gesture-commands">Enable gesture commands</Label>
+          <Switch
+            id="gesture-commands"
+            checked={settings.enabled}
+            onCheckedChange={(checked) => onChange({ enabled: checked })}
+          />
+        </div>
+
+        {pending && (
+          <div className="flex items-center justify-between gap-2 rounded-lg border border-primary/40 bg-primary/10 p-3">
+            <p className="text-sm">
+              Show <span className="font-semibold">{settings.confirmGesture}</span> to {appCommandNames[pending.command].toLowerCase()}
+            </p>
+            <Button variant="ghost" size="sm" onClick={onCancelPending} className="h-6 w-6 shrink-0 p-0">
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Confirmation gesture</Label>
+          <Select value={settings.confirmGesture} onValueChange={(confirmGesture) => onChange({ confirmGesture })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {gestures.filter(gesture => !boundGestures.includes(gesture)).map(gesture => (
+                <SelectItem key={gesture} value={gesture}>{gesture}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Must follow a command gesture within {settings.confirmTimeoutMs / 1000} seconds; any other sign cancels it.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Bindings</Label>
+          {settings.bindings.map(binding => (
+            <div key={binding.gesture} className="flex items-center justify-between gap-2 rounded bg-muted/50 px-2 py-1 text-sm">
+              <span className="truncate">
+                <span className="font-medium">{binding.gesture}</span>
+                <span className="text-muted-foreground"> → {appCommandNames[binding.command]}</span>
+              </span>
+              <Button variant="ghost" size="sm" onClick={() => onUnbind(binding.gesture)} className="h-6 w-6 shrink-0 p-0">
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          {settings.bindings.length === 0 && (
+            <p className="text-sm text-muted-foreground">No gestures are bound yet</p>
+          )}
+          <div className="flex gap-2">
+            <Select value={newGesture} onValueChange={setNewGesture}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Gesture" />
+              </SelectTrigger>
+              <SelectContent>
+                {gestures.filter(gesture => gesture !== settings.confirmGesture).map(gesture => (
+                  <SelectItem key={gesture} value={gesture}>{gesture}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={newCommand} onValueChange={(value) => setNewCommand(value as AppCommand)}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Command" />
+              </SelectTrigger>
+              <SelectContent>
+                {commands.map(command => (
+                  <SelectItem key={command} value={command}>{appCommandNames[command]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={addBinding} disabled={!newGesture || !newCommand}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CommandBindingsPanel;
@@ -0,0 +1,288 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Database, Download, FileUp, Square, Timer, Trash2, X } from "lucide-react";
+import {
+  CaptureSettings,
+  CaptureState,
+  DatasetFileFormat,
+  DatasetSample,
+  SampleKind,
+  captureCountPresets,
+  sequenceLengthPresets
+} from "@/lib/recognition/dataset";
+import { drawSampleThumbnail } from "@/lib/recognition/overlay";
+
+interface DatasetStudioPanelProps {
+  samples: DatasetSample[];
+  counts: Record<string, number>;
+  settings: CaptureSettings;
+  captureState: CaptureState | null;
+  countdown: number | null;
+  isCapturing: boolean;
+  canCapture: boolean;
+  // Offered as labels next to the ones already in the dataset
+  suggestedLabels: string[];
+  mirrored: boolean;
+  onChange: (changes: Partial<CaptureSettings>) => void;
+  onStart: () => void;
+  onCancel: () => void;
+  onDelete: (ids: string[]) => void;
+  onExport: (format: DatasetFileFormat) => void;
+  onImport: (file: File) => void;
+}
+
+const SampleThumbnail: React.FC<{ sample: DatasetSample; mirrored: boolean }> = ({ sample, mirrored }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (canvasRef.current) drawSampleThumbnail(canvasRef.current, sample.frames, mirrored);
+  }, [sample, mirrored]);
+
+  return <canvas ref={canvasRef} width={96} height={96} className="h-full w-full" />;
+};
+
+function captureStatus(state: CaptureState, settings: CaptureSettings, countdown: number | null) {
+  switch (state.phase) {
+    case "countdown":
+      return `Get ready… ${countdown ?? ""}`;
+    case "recording":
+      return settings.kind === "static" ? "Hold the sign in view" : "Sign now";
+    case "rest":
+      return settings.kind === "static" ? "Captured, keep going" : "Return to rest";
+    case "done":
+      return `Captured ${state.captured} samples`;
+  }
+}
+
+const DatasetStudioPanel: React.FC<DatasetStudioPanelProps> = ({
+  samples,
+  counts,
+  settings,
+  captureState,
+  countdown,
+  isCapturing,
+  canCapture,
+  suggestedLabels,
+  mirrored,
+  onChange,
+  onStart,
+  onCancel,
+  onDelete,
+  onExport,
+  onImport
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [reviewLabel, setReviewLabel] = useState<string | null>(null);
+  const labels = Object.keys(counts).sort();
+  const reviewSamples = reviewLabel ? samples.filter(sample => sample.label === reviewLabel) : [];
+
+  return (
+    <Card className="border-0 bg-card/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Database className="h-5 w-5" />
+          Dataset Studio
+        </CardTitle>
+        <CardDescription>Record labeled landmark samples for training</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="dataset-label">Label</Label>
+          <Input
+            id="dataset-label"
+            list="dataset-label-suggestions"
+            value={settings.label}
+            onChange={(e) => onChange({ label: e.target.value })}
+            placeholder="e.g. Namaste"
+            disabled={isCapturing}
+          />
+          <datalist id="dataset-label-suggestions">
+            {[...new Set([...labels, ...suggestedLabels])].map(label => (
+              <option key={label} value={label} />
+            ))}
+          </datalist>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label>Sample type</Label>
+            <Select
+              value={settings.kind}
+              onValueChange={(value) => onChange({ kind: value as SampleKind })}
+              disabled={isCapturing}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="static">Static pose</SelectItem>
+                <SelectItem value="sequence">Sequence</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Samples</Label>
+            <Select
+              value={String(settings.count)}
+              onValueChange={(value) => onChange({ count: Number(value) })}
+              disabled={isCapturing}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {captureCountPresets.map(count => (
+                  <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {settings.kind === "sequence" && (
+          <div className="space-y-2">
+            <Label>Sequence length</Label>
+            <Select
+              value={String(settings.sequenceMs)}
+              onValueChange={(value) => onChange({ sequenceMs: Number(value) })}
+              disabled={isCapturing}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sequenceLengthPresets.map(duration => (
+                  <SelectItem key={duration} value={String(duration)}>{duration / 1000}s</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {isCapturing ? (
+          <Button variant="destructive" onClick={onCancel} className="w-full">
+            <Square className="mr-2 h-4 w-4" />
+            Stop Capture
+          </Button>
+        ) : (
+          <Button onClick={onStart} disabled={!canCapture || !settings.label.trim()} className="w-full">
+            <Timer className="mr-2 h-4 w-4" />
+            Start Capture ({settings.countdownMs / 1000}s countdown)
+          </Button>
+        )}
+        {!canCapture && !isCapturing && (
+          <p className="text-xs text-muted-foreground">Start recognition to capture samples</p>
+        )}
+
+        {captureState && (
+          <div className="space-y-2 rounded-lg border bg-background/50 p-3">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">{captureStatus(captureState, settings, countdown)}</span>
+              <span className="text-muted-foreground">{captureState.captured}/{settings.count}</span>
+            </div>
+            <Progress value={(captureState.captured / settings.count) * 100} className="h-2" />
+            {captureState.discarded > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {captureState.discarded} sequences skipped because the hand left the frame
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Samples per label</Label>
+          {labels.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No samples captured yet</p>
+          ) : (
+            <div className="flex flex-wrap gap-1">
+              {labels.map(label => (
+                <Badge
+                  key={label}
+                  variant={label === reviewLabel ? "default" : "outline"}
+                  onClick={() => setReviewLabel(label === reviewLabel ? null : label)}
+                  className="cursor-pointer text-xs"
+                >
+                  {label}: {counts[label]}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {reviewLabel && reviewSamples.length > 0 && (
+          <div className="space-y-2 rounded-lg border bg-background/50 p-3">
+            <div className="flex items-center justify-between gap-2">
+              <span className="truncate text-sm font-medium">Review “{reviewLabel}”</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  onDelete(reviewSamples.map(sample => sample.id));
+                  setReviewLabel(null);
+                }}
+                className="h-7 shrink-0 px-2 text-destructive"
+              >
+                <Trash2 className="mr-1 h-3 w-3" />
+                Delete all
+              </Button>
+            </div>
+            <div className="grid max-h-64 grid-cols-4 gap-2 overflow-y-auto">
+              {reviewSamples.map(sample => (
+                <div key={sample.id} className="group relative aspect-square rounded bg-muted/50">
+                  <SampleThumbnail sample={sample} mirrored={mirrored} />
+                  {sample.kind === "sequence" && (
+                    <span className="absolute bottom-0.5 left-1 text-[10px] text-muted-foreground">
+                      {(sample.frames[sample.frames.length - 1].time / 1000).toFixed(1)}s
+                    </span>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onDelete([sample.id])}
+                    className="absolute right-0 top-0 h-5 w-5 p-0 opacity-60 group-hover:opacity-100"
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => onExport("json")} disabled={samples.length === 0} className="flex-1">
+            <Download className="mr-1 h-4 w-4" />
+            JSON
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onExport("csv")} disabled={samples.length === 0} className="flex-1">
+            <Download className="mr-1 h-4 w-4" />
+            CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isCapturing} className="flex-1">
+            <FileUp className="mr-1 h-4 w-4" />
+            Import
+          </Button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = "";
+          }}
+          className="hidden"
+        />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DatasetStudioPanel;
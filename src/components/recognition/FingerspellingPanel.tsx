@@ -0,0 +1,131 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Delete, Space, Trash2, Copy, Send, Type } from "lucide-react";
+import {
+  SpellingState,
+  assembledText,
+  builtInSpellingLabels,
+  fingerspellingLabels,
+  spellingDictionary,
+  suggestCorrections
+} from "@/lib/recognition/fingerspelling";
+
+interface FingerspellingPanelProps {
+  spelling: SpellingState;
+  // Letters and numerals with recorded training samples
+  trainedLabels: string[];
+  onSpace: () => void;
+  onBackspace: () => void;
+  onClear: () => void;
+  onReplaceWord: (index: number, word: string) => void;
+  onCopy: (text: string) => void;
+  onSendText?: (text: string) => void;
+}
+
+const FingerspellingPanel: React.FC<FingerspellingPanelProps> = ({
+  spelling,
+  trainedLabels,
+  onSpace,
+  onBackspace,
+  onClear,
+  onReplaceWord,
+  onCopy,
+  onSendText
+}) => {
+  const text = assembledText(spelling);
+  const words = [...spelling.words, spelling.current].filter(Boolean);
+  const suggestions = words
+    .map((word, index) => ({ index, word, options: suggestCorrections(word, spellingDictionary) }))
+    .filter(entry => entry.options.length > 0);
+
+  return (
+    <Card className="border-0 bg-card/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Type className="h-5 w-5" />
+          Fingerspelling
+        </CardTitle>
+        <CardDescription>
+          Only the vowels, L, M, N, X and the numerals are built in. Other letters are recognized once trained
+          in Learning Mode. Pause briefly between words.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="min-h-[60px] rounded-lg border bg-muted/50 p-3 font-mono text-lg tracking-wider">
+          {spelling.words.join(" ")}
+          {spelling.words.length > 0 && spelling.current && " "}
+          <span className="text-primary">{spelling.current}</span>
+          <span className="animate-pulse">|</span>
+        </div>
+
+        <div className="flex flex-wrap gap-1">
+          {fingerspellingLabels.map(label => {
+            const isAvailable = builtInSpellingLabels.includes(label) || trainedLabels.includes(label);
+            return (
+              <Badge
+                key={label}
+                variant={isAvailable ? "secondary" : "outline"}
+                className={`w-6 justify-center px-0 font-mono ${isAvailable ? "" : "text-muted-foreground opacity-60"}`}
+                title={isAvailable ? undefined : "Needs training samples"}
+              >
+                {label}
+              </Badge>
+            );
+          })}
+        </div>
+
+        {suggestions.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">Did you mean:</p>
+            {suggestions.map(entry => (
+              <div key={entry.index} className="flex flex-wrap items-center gap-2">
+                <span className="text-sm line-through text-muted-foreground">{entry.word}</span>
+                {entry.options.map(option => (
+                  <Badge
+                    key={option}
+                    variant="outline"
+                    className="cursor-pointer hover:bg-primary hover:text-primary-foreground"
+                    onClick={() => onReplaceWord(entry.index, option)}
+                  >
+                    {option}
+                  </Badge>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-2">
+          <Button variant="outline" size="sm" onClick={onSpace}>
+            <Space className="mr-1 h-4 w-4" />
+            Space
+          </Button>
+          <Button variant="outline" size="sm" onClick={onBackspace}>
+            <Delete className="mr-1 h-4 w-4" />
+            Delete
+          </Button>
+          <Button variant="outline" size="sm" onClick={onClear}>
+            <Trash2 className="mr-1 h-4 w-4" />
+            Clear
+          </Button>
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => onCopy(text)} disabled={!text} className="flex-1">
+            <Copy className="mr-1 h-4 w-4" />
+            Copy
+          </Button>
+          {onSendText && (
+            <Button size="sm" onClick={() => onSendText(text)} disabled={!text} className="flex-1">
+              <Send className="mr-1 h-4 w-4" />
+              Translate
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FingerspellingPanel;
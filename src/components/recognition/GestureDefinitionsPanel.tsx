@@ -0,0 +1,117 @@
+import { useRef } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { BookOpen, Download, FileUp, Trash2, X } from "lucide-react";
+import { GestureDefinition, builtInGestureDefinitions } from "@/lib/recognition/gesture-definitions";
+
+interface GestureDefinitionsPanelProps {
+  loaded: GestureDefinition[];
+  // The classifier replaces the built-in definitions once it has samples
+  isClassifierTrained: boolean;
+  onLoadFile: (file: File) => void;
+  onDownload: () => void;
+  onRemove: (name: string) => void;
+  onClear: () => void;
+}
+
+// One-line summary of what a definition checks
+function describeDefinition(definition: GestureDefinition) {
+  const parts = Object.entries(definition.fingers ?? {}).map(([finger, state]) => `${finger} ${state}`);
+  if (definition.thumb) parts.push(`thumb ${definition.thumb}`);
+  if (definition.palm) parts.push(`palm ${definition.palm}`);
+  definition.contacts?.forEach(contact => {
+    parts.push(`${contact.fingers.join("-")} ${contact.touching ? "touching" : "apart"}`);
+  });
+  if (definition.spread) parts.push("spread");
+  if (definition.location) parts.push(`at ${definition.location}`);
+  if (definition.motion) parts.push(`moving ${definition.motion}`);
+  return parts.join(" · ");
+}
+
+const GestureDefinitionsPanel: React.FC<GestureDefinitionsPanelProps> = ({
+  loaded,
+  isClassifierTrained,
+  onLoadFile,
+  onDownload,
+  onRemove,
+  onClear
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <Card className="border-0 bg-card/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <BookOpen className="h-5 w-5" />
+          Gesture Definitions
+        </CardTitle>
+        <CardDescription>Handshape rules loaded from JSON files</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} className="flex-1">
+            <FileUp className="mr-1 h-4 w-4" />
+            Load File
+          </Button>
+          <Button variant="outline" size="sm" onClick={onDownload} className="flex-1">
+            <Download className="mr-1 h-4 w-4" />
+            Download All
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onLoadFile(file);
+              e.target.value = "";
+            }}
+            className="hidden"
+          />
+        </div>
+
+        {loaded.length > 0 ? (
+          <div className="space-y-2 max-h-48 overflow-y-auto">
+            {loaded.map(definition => (
+              <div key={definition.name} className="flex items-start justify-between gap-2 rounded-lg border bg-background/50 p-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="truncate text-sm font-medium">{definition.name}</span>
+                    {builtInGestureDefinitions.some(builtIn => builtIn.name === definition.name) && (
+                      <Badge variant="outline" className="shrink-0 text-xs">replaces built-in</Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">{describeDefinition(definition) || "no conditions"}</p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => onRemove(definition.name)} className="h-8 w-8 shrink-0 p-0">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Using the {builtInGestureDefinitions.length} built-in definitions. Download them as a starting point for your own.
+          </p>
+        )}
+
+        {isClassifierTrained && (
+          <p className="text-xs text-muted-foreground">
+            The trained classifier is active, so the built-in definitions are paused. Loaded definitions still
+            run and win over the classifier when their confidence is higher.
+          </p>
+        )}
+
+        {loaded.length > 0 && (
+          <Button variant="ghost" size="sm" onClick={onClear} className="w-full">
+            <Trash2 className="mr-1 h-4 w-4" />
+            Remove Loaded Definitions
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GestureDefinitionsPanel;
@@ -0,0 +1,94 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Download, History, Printer } from "lucide-react";
+import type { SessionLog, SessionLogFormat, SessionLogSummary } from "@/lib/recognition/session-log";
+
+interface GestureHistoryPanelProps {
+  log: SessionLog;
+  summary: SessionLogSummary;
+  onLearnerChange: (learner: string) => void;
+  onDownload: (format: SessionLogFormat) => void;
+  onPrint: () => void;
+}
+
+const GestureHistoryPanel: React.FC<GestureHistoryPanelProps> = ({
+  log,
+  summary,
+  onLearnerChange,
+  onDownload,
+  onPrint
+}) => {
+  const isEmpty = log.entries.length === 0;
+
+  return (
+    <Card className="border-0 bg-card/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Gesture History
+        </CardTitle>
+        <CardDescription>Every recognized sign this session, for progress reports</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2 max-h-32 overflow-y-auto">
+          {log.entries.slice(-5).reverse().map((entry, index) => (
+            <div key={index} className="flex items-center justify-between text-sm">
+              <span className="font-medium">{entry.gesture}</span>
+              <span className="text-muted-foreground">{entry.confidence}%</span>
+            </div>
+          ))}
+          {isEmpty && (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No gestures detected yet
+            </p>
+          )}
+        </div>
+
+        {!isEmpty && (
+          <div className="space-y-1 border-t pt-3">
+            <p className="text-xs text-muted-foreground">
+              {summary.total} signs, {summary.averageConfidence}% average confidence
+            </p>
+            {summary.gestures.slice(0, 3).map(gesture => (
+              <div key={gesture.gesture} className="flex items-center justify-between text-xs">
+                <span>{gesture.gesture}</span>
+                <span className="text-muted-foreground">
+                  {gesture.count}× · {gesture.averageConfidence}%
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="session-learner">Learner</Label>
+          <Input
+            id="session-learner"
+            value={log.learner}
+            onChange={(e) => onLearnerChange(e.target.value)}
+            placeholder="Name shown on the report"
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => onDownload("csv")} disabled={isEmpty} className="flex-1">
+            <Download className="mr-2 h-4 w-4" />
+            CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onDownload("json")} disabled={isEmpty} className="flex-1">
+            <Download className="mr-2 h-4 w-4" />
+            JSON
+          </Button>
+          <Button variant="outline" size="sm" onClick={onPrint} disabled={isEmpty} className="flex-1">
+            <Printer className="mr-2 h-4 w-4" />
+            Report
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GestureHistoryPanel;
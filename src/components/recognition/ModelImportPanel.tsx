@@ -0,0 +1,124 @@
+import { useRef, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { FileUp, Tags, Upload } from "lucide-react";
+import { frameFeatureLength } from "@/lib/recognition/sequence-features";
+
+interface ModelImportPanelProps {
+  isImporting: boolean;
+  // Resolves true once the model is registered, which clears the form
+  onImport: (files: File[], labelMap: File, name: string) => Promise<boolean>;
+}
+
+// "model.json" says nothing about the model, so only other file names are suggested
+function suggestedName(files: File[]): string {
+  const file = files.find(candidate => /\.(json|task)$/i.test(candidate.name));
+  const name = file?.name.replace(/\.(json|task)$/i, "") ?? "";
+  return name.toLowerCase() === "model" ? "" : name;
+}
+
+const ModelImportPanel: React.FC<ModelImportPanelProps> = ({ isImporting, onImport }) => {
+  const [modelFiles, setModelFiles] = useState<File[]>([]);
+  const [labelMap, setLabelMap] = useState<File | null>(null);
+  const [name, setName] = useState("");
+  const modelInputRef = useRef<HTMLInputElement>(null);
+  const labelMapInputRef = useRef<HTMLInputElement>(null);
+
+  const chooseModelFiles = (files: File[]) => {
+    setModelFiles(files);
+    if (!name.trim()) setName(suggestedName(files));
+  };
+
+  const submit = async () => {
+    if (!labelMap || modelFiles.length === 0 || !name.trim()) return;
+    if (await onImport(modelFiles, labelMap, name.trim())) {
+      setModelFiles([]);
+      setLabelMap(null);
+      setName("");
+    }
+  };
+
+  return (
+    <Card className="border-0 bg-card/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Upload className="h-5 w-5" />
+          Import Model
+        </CardTitle>
+        <CardDescription>
+          A TF.js model.json with its weight files, taking [steps, {frameFeatureLength}] landmark sequences,
+          or a MediaPipe GestureRecognizer .task file
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-2">
+          <Label>Model</Label>
+          <Button variant="outline" onClick={() => modelInputRef.current?.click()} disabled={isImporting} className="w-full justify-start">
+            <FileUp className="mr-2 h-4 w-4 shrink-0" />
+            <span className="truncate">
+              {modelFiles.length > 0 ? modelFiles.map(file => file.name).join(", ") : "Choose model files"}
+            </span>
+          </Button>
+        </div>
+        <div className="space-y-2">
+          <Label>Label map</Label>
+          <Button variant="outline" onClick={() => labelMapInputRef.current?.click()} disabled={isImporting} className="w-full justify-start">
+            <Tags className="mr-2 h-4 w-4 shrink-0" />
+            <span className="truncate">{labelMap ? labelMap.name : "Choose a label map"}</span>
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            A JSON list of labels in output order, or an object mapping output indices (TF.js) or category
+            names (MediaPipe) to labels. Wrap it as {"{ \"labels\": … }"} to add accuracy, validationAccuracy
+            and sequenceMs.
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="import-model-name">Name</Label>
+          <Input
+            id="import-model-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Model name"
+            disabled={isImporting}
+          />
+        </div>
+        <Button
+          onClick={submit}
+          disabled={isImporting || modelFiles.length === 0 || !labelMap || !name.trim()}
+          className="w-full"
+        >
+          <Upload className="mr-2 h-4 w-4" />
+          {isImporting ? "Checking model…" : "Import"}
+        </Button>
+
+        <input
+          ref={modelInputRef}
+          type="file"
+          multiple
+          accept=".json,.bin,.task,application/json"
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []);
+            if (files.length > 0) chooseModelFiles(files);
+            e.target.value = "";
+          }}
+          className="hidden"
+        />
+        <input
+          ref={labelMapInputRef}
+          type="file"
+          accept=".json,.txt,application/json,text/plain"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) setLabelMap(file);
+            e.target.value = "";
+          }}
+          className="hidden"
+        />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ModelImportPanel;
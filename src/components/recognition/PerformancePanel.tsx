@@ -0,0 +1,68 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, Gauge } from "lucide-react";
+import { MetricsSnapshot, metricsWindowMs } from "@/lib/recognition/metrics";
+
+interface PerformancePanelProps {
+  metrics: MetricsSnapshot | null;
+  // Shown next to the figures, e.g. "GPU" or "motion only"
+  backend: string;
+}
+
+const formatMs = (value: number | null) => (value === null ? "—" : `${value.toFixed(1)} ms`);
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const PerformancePanel: React.FC<PerformancePanelProps> = ({ metrics, backend }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const rows = metrics ? [
+    { label: "Capture FPS", value: metrics.captureFps.toFixed(1) },
+    { label: "Analyzed FPS", value: metrics.analyzedFps.toFixed(1) },
+    { label: "Landmarker", value: formatMs(metrics.landmarkMs) },
+    { label: "Classifier", value: formatMs(metrics.classifierMs) },
+    { label: "Round trip", value: formatMs(metrics.roundTripMs) },
+    { label: "Dropped frames", value: `${metrics.framesDropped} (${formatPercent(metrics.droppedRatio)})` },
+    { label: "Hand presence", value: formatPercent(metrics.handPresence) }
+  ] : [];
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <Card className="border-0 bg-card/80 backdrop-blur-sm">
+        <CardHeader className="py-4">
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" className="w-full justify-between px-0 hover:bg-transparent">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Gauge className="h-5 w-5" />
+                Performance
+              </CardTitle>
+              <ChevronDown className={`h-4 w-4 transition-transform ${isOpen ? "rotate-180" : ""}`} />
+            </Button>
+          </CollapsibleTrigger>
+        </CardHeader>
+        <CollapsibleContent>
+          <CardContent className="space-y-2 pt-0">
+            {metrics ? (
+              <>
+                {rows.map(row => (
+                  <div key={row.label} className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">{row.label}</span>
+                    <span className="font-mono">{row.value}</span>
+                  </div>
+                ))}
+                <p className="pt-2 text-xs text-muted-foreground">
+                  {backend}; averaged over the last {metricsWindowMs / 1000} seconds
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">Start recognition to measure the pipeline.</p>
+            )}
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  );
+};
+
+export default PerformancePanel;
@@ -0,0 +1,158 @@
+import { useRef } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Circle, Download, FileUp, Film, Play, Square } from "lucide-react";
+import { CommitComparison, RecordedSession, SessionFileFormat, replaySpeeds } from "@/lib/recognition/session";
+
+interface SessionPanelProps {
+  session: { name: string; data: RecordedSession } | null;
+  canRecord: boolean;
+  canReplay: boolean;
+  isSessionRecording: boolean;
+  recordedFrameCount: number;
+  onStartRecording: () => void;
+  onStopRecording: () => void;
+  onDownload: (format: SessionFileFormat) => void;
+  onLoadFile: (file: File) => void;
+  isReplaying: boolean;
+  replayProgress: number;
+  replaySpeed: number;
+  onReplaySpeedChange: (speed: number) => void;
+  onReplay: () => void;
+  onStopReplay: () => void;
+  replayReport: CommitComparison | null;
+}
+
+const SessionPanel: React.FC<SessionPanelProps> = ({
+  session,
+  canRecord,
+  canReplay,
+  isSessionRecording,
+  recordedFrameCount,
+  onStartRecording,
+  onStopRecording,
+  onDownload,
+  onLoadFile,
+  isReplaying,
+  replayProgress,
+  replaySpeed,
+  onReplaySpeedChange,
+  onReplay,
+  onStopReplay,
+  replayReport
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <Card className="border-0 bg-card/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Film className="h-5 w-5" />
+          Session Recording
+        </CardTitle>
+        <CardDescription>Record landmarks and replay them through the recognizers</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isSessionRecording ? (
+          <Button variant="destructive" onClick={onStopRecording} className="w-full">
+            <Square className="mr-2 h-4 w-4" />
+            Stop Recording ({recordedFrameCount} frames)
+          </Button>
+        ) : (
+          <Button variant="outline" onClick={onStartRecording} disabled={!canRecord || isReplaying} className="w-full">
+            <Circle className="mr-2 h-4 w-4 text-red-500" />
+            Record Session
+          </Button>
+        )}
+
+        <Button
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isSessionRecording || isReplaying}
+          className="w-full"
+        >
+          <FileUp className="mr-2 h-4 w-4" />
+          Load Session File
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".ndjson,.json,.jsonl,application/json"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onLoadFile(file);
+            e.target.value = "";
+          }}
+          className="hidden"
+        />
+
+        {session && (
+          <div className="space-y-3 rounded-lg border bg-background/50 p-3">
+            <div className="flex items-center justify-between gap-2">
+              <span className="truncate text-sm font-medium">{session.name}</span>
+              <Badge variant="outline" className="shrink-0 text-xs">
+                {(session.data.header.durationMs / 1000).toFixed(1)}s
+              </Badge>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {session.data.frames.length} frames · {session.data.commits.length} recorded signs · {session.data.header.dominantHand}-handed
+            </p>
+
+            <div className="flex gap-2">
+              {isReplaying ? (
+                <Button variant="outline" size="sm" onClick={onStopReplay} className="flex-1">
+                  <Square className="mr-1 h-4 w-4" />
+                  Stop
+                </Button>
+              ) : (
+                <Button size="sm" onClick={onReplay} disabled={!canReplay} className="flex-1">
+                  <Play className="mr-1 h-4 w-4" />
+                  Replay
+                </Button>
+              )}
+              <Select
+                value={String(replaySpeed)}
+                onValueChange={(value) => onReplaySpeedChange(Number(value))}
+                disabled={isReplaying}
+              >
+                <SelectTrigger className="h-9 w-20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {replaySpeeds.map(speed => (
+                    <SelectItem key={speed} value={String(speed)}>{speed}x</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {isReplaying && <Progress value={replayProgress} className="h-2" />}
+
+            {replayReport && !isReplaying && (
+              <p className="text-xs">
+                Replay reproduced <span className="font-semibold">{replayReport.matched}/{replayReport.recorded}</span> recorded
+                signs ({replayReport.replayed} committed)
+              </p>
+            )}
+
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => onDownload("ndjson")} className="flex-1">
+                <Download className="mr-1 h-4 w-4" />
+                NDJSON
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => onDownload("json")} className="flex-1">
+                <Download className="mr-1 h-4 w-4" />
+                JSON
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SessionPanel;
@@ -0,0 +1,105 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { MessageSquare, Volume2, VolumeX, Trash2, RefreshCw, CornerDownLeft } from "lucide-react";
+import type { Caption } from "@/hooks/use-sign-to-speech";
+import type { SentenceMarkers } from "@/lib/recognition/gloss";
+
+interface SignToSpeechPanelProps {
+  pendingGlosses: string[];
+  pendingMarkers: SentenceMarkers;
+  captions: Caption[];
+  isTranslating: boolean;
+  isMuted: boolean;
+  onToggleMute: () => void;
+  onFinishSentence: () => void;
+  onSpeak: (text: string) => void;
+  onClear: () => void;
+}
+
+function markerNames(markers: SentenceMarkers) {
+  return [markers.question && "question", markers.negation && "negation"].filter(Boolean);
+}
+
+const SignToSpeechPanel: React.FC<SignToSpeechPanelProps> = ({
+  pendingGlosses,
+  pendingMarkers,
+  captions,
+  isTranslating,
+  isMuted,
+  onToggleMute,
+  onFinishSentence,
+  onSpeak,
+  onClear
+}) => {
+  return (
+    <Card className="border-0 bg-card/80 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <MessageSquare className="h-5 w-5" />
+            Sign to Speech
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={onToggleMute} className="h-8 w-8 p-0">
+            {isMuted ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
+          </Button>
+        </div>
+        <CardDescription>Signs become a spoken sentence after a short pause</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex min-h-[32px] flex-wrap items-center gap-2">
+          {pendingGlosses.map((gloss, index) => (
+            <Badge key={index} variant="outline" className="font-mono">
+              {gloss}
+            </Badge>
+          ))}
+          {pendingGlosses.length > 0 && markerNames(pendingMarkers).map(name => (
+            <Badge key={name} variant="secondary" className="text-xs capitalize">
+              {name}
+            </Badge>
+          ))}
+          {isTranslating && <RefreshCw className="h-4 w-4 animate-spin text-muted-foreground" />}
+          {pendingGlosses.length === 0 && !isTranslating && (
+            <span className="text-sm text-muted-foreground">Waiting for signs...</span>
+          )}
+        </div>
+
+        <div className="space-y-2 max-h-40 overflow-y-auto">
+          {captions.slice().reverse().map(caption => (
+            <div key={caption.id} className="flex items-start justify-between gap-2 rounded-lg border bg-background/50 p-2">
+              <div>
+                <p className="text-sm font-medium">{caption.sentence}</p>
+                <p className="text-xs text-muted-foreground font-mono">
+                  {caption.glosses.join(" ")}
+                  {markerNames(caption.markers).map(name => ` · ${name}`)}
+                  {" "}· {caption.source === "ai" ? "AI" : "rules"}
+                </p>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => onSpeak(caption.sentence)} className="h-8 w-8 p-0">
+                <Volume2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onFinishSentence}
+            disabled={pendingGlosses.length === 0}
+            className="flex-1"
+          >
+            <CornerDownLeft className="mr-1 h-4 w-4" />
+            Finish Sentence
+          </Button>
+          <Button variant="outline" size="sm" onClick={onClear}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SignToSpeechPanel;
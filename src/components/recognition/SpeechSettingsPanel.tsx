@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Square, Volume2, X } from "lucide-react";
+import {
+  SpeechSettings,
+  maxSpeechRate,
+  minSpeechRate,
+  speechLanguages,
+  voicesForLanguage
+} from "@/lib/recognition/speech";
+
+interface SpeechSettingsPanelProps {
+  isSupported: boolean;
+  settings: SpeechSettings;
+  voices: SpeechSynthesisVoice[];
+  isSpeaking: boolean;
+  // Gestures that can be given custom spoken text
+  gestures: string[];
+  onChange: (changes: Partial<SpeechSettings>) => void;
+  onSetPhrase: (gesture: string, text: string) => void;
+  onRemovePhrase: (gesture: string) => void;
+  onTest: () => void;
+  onStop: () => void;
+}
+
+// Select items cannot have an empty value
+const automaticVoice = "auto";
+
+const SpeechSettingsPanel: React.FC<SpeechSettingsPanelProps> = ({
+  isSupported,
+  settings,
+  voices,
+  isSpeaking,
+  gestures,
+  onChange,
+  onSetPhrase,
+  onRemovePhrase,
+  onTest,
+  onStop
+}) => {
+  const [phraseGesture, setPhraseGesture] = useState("");
+  const [phraseText, setPhraseText] = useState("");
+  const languageVoices = voicesForLanguage(voices, settings.lang);
+  const languageName = speechLanguages.find(language => language.code === settings.lang)?.name ?? settings.lang;
+
+  const addPhrase = () => {
+    if (!phraseGesture || !phraseText.trim()) return;
+    onSetPhrase(phraseGesture, phraseText.trim());
+    setPhraseText("");
+  };
+
+  return (
+    <Card className="border-0 bg-card/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Volume2 className="h-5 w-5" />
+          Spoken Output
+        </CardTitle>
+        <CardDescription>Say recognized signs aloud for a hearing partner</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isSupported ? (
+          <p className="text-sm text-muted-foreground">This browser does not support speech synthesis.</p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="speak-gestures">Speak recognized gestures</Label>
+              <Switch
+                id="speak-gestures"
+                checked={settings.speakGestures}
+                onCheckedChange={(checked) => onChange({ speakGestures: checked })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Language</Label>
+              <Select value={settings.lang} onValueChange={(lang) => onChange({ lang, voiceURI: null })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {speechLanguages.map(language => (
+                    <SelectItem key={language.code} value={language.code}>{language.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Voice</Label>
+              <Select
+                value={settings.voiceURI ?? automaticVoice}
+                onValueChange={(value) => onChange({ voiceURI: value === automaticVoice ? null : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={automaticVoice}>Automatic</SelectItem>
+                  {languageVoices.map(voice => (
+                    <SelectItem key={voice.voiceURI} value={voice.voiceURI}>
+                      {voice.name} ({voice.lang})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {languageVoices.length === 0 && (
+                <p className="text-xs text-muted-foreground">
+                  No {languageName} voice is installed; the browser's default voice will be used.
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Rate: {settings.rate.toFixed(1)}×</Label>
+              <Slider
+                value={[settings.rate]}
+                onValueChange={([rate]) => onChange({ rate })}
+                min={minSpeechRate}
+                max={maxSpeechRate}
+                step={0.1}
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={onTest} className="flex-1">
+                <Volume2 className="mr-2 h-4 w-4" />
+                Test Voice
+              </Button>
+              <Button variant="outline" size="sm" onClick={onStop} disabled={!isSpeaking}>
+                <Square className="mr-2 h-4 w-4" />
+                Stop
+              </Button>
+            </div>
+
+            <div className="space-y-2 border-t pt-4">
+              <Label>Custom spoken text</Label>
+              <Select value={phraseGesture} onValueChange={setPhraseGesture}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a gesture" />
+                </SelectTrigger>
+                <SelectContent>
+                  {gestures.map(gesture => (
+                    <SelectItem key={gesture} value={gesture}>{gesture}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex gap-2">
+                <Input
+                  value={phraseText}
+                  onChange={(e) => setPhraseText(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && addPhrase()}
+                  placeholder={phraseGesture ? `Say instead of "${phraseGesture}"` : "Spoken text"}
+                />
+                <Button size="sm" onClick={addPhrase} disabled={!phraseGesture || !phraseText.trim()}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+              {Object.entries(settings.phrases).map(([gesture, text]) => (
+                <div key={gesture} className="flex items-center justify-between gap-2 rounded bg-muted/50 px-2 py-1 text-sm">
+                  <span className="truncate">
+                    <span className="font-medium">{gesture}</span>
+                    <span className="text-muted-foreground"> → “{text}”</span>
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={() => onRemovePhrase(gesture)} className="h-6 w-6 shrink-0 p-0">
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SpeechSettingsPanel;
@@ -0,0 +1,53 @@
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Pause, Play, SkipBack, SkipForward } from "lucide-react";
+
+interface VideoFileControlsProps {
+  isPlaying: boolean;
+  currentTime: number;
+  duration: number;
+  onTogglePlay: () => void;
+  onSeek: (time: number) => void;
+  onStep: (direction: 1 | -1) => void;
+}
+
+function formatTime(seconds: number) {
+  if (!Number.isFinite(seconds)) return "0:00";
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${Math.floor(seconds % 60).toString().padStart(2, "0")}`;
+}
+
+const VideoFileControls: React.FC<VideoFileControlsProps> = ({
+  isPlaying,
+  currentTime,
+  duration,
+  onTogglePlay,
+  onSeek,
+  onStep
+}) => {
+  return (
+    <div className="mt-4 flex items-center gap-2">
+      <Button variant="outline" size="sm" onClick={() => onStep(-1)} className="h-8 w-8 p-0" title="Previous frame">
+        <SkipBack className="h-4 w-4" />
+      </Button>
+      <Button variant="outline" size="sm" onClick={onTogglePlay} className="h-8 w-8 p-0" title={isPlaying ? "Pause" : "Play"}>
+        {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => onStep(1)} className="h-8 w-8 p-0" title="Next frame">
+        <SkipForward className="h-4 w-4" />
+      </Button>
+      <Slider
+        value={[currentTime]}
+        onValueChange={(value) => onSeek(value[0])}
+        max={duration || 1}
+        step={0.01}
+        className="flex-1"
+      />
+      <span className="w-24 text-right text-xs tabular-nums text-muted-foreground">
+        {formatTime(currentTime)} / {formatTime(duration)}
+      </span>
+    </div>
+  );
+};
+
+export default VideoFileControls;
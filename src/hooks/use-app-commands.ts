@@ -0,0 +1,78 @@
+import { useCallback, useMemo, useRef } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { useCommandBindings } from "@/hooks/use-command-bindings";
+import { CommandEvent, TranslationTab, appCommandNames, commandTabs } from "@/lib/recognition/commands";
+
+interface AppCommandHandlers {
+  onOpenTranslation?: (tab: TranslationTab) => void;
+  onGoBack: () => void;
+  onToggleRecording: () => void;
+  onSpeakLast: () => void;
+}
+
+// Command gestures bound to app actions. The handlers are read when a command
+// is confirmed, so they may change on every render.
+export function useAppCommands(handlers: AppCommandHandlers) {
+  const bindings = useCommandBindings();
+  const { toast } = useToast();
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const { handleGesture: stepGesture, settings } = bindings;
+
+  // Only confirmed commands run; arming and cancelling just give feedback
+  const runCommand = useCallback((event: CommandEvent) => {
+    const name = appCommandNames[event.command];
+    if (event.type === "armed") {
+      toast({
+        title: name,
+        description: `Show ${settings.confirmGesture} to confirm`
+      });
+      return;
+    }
+    if (event.type === "cancelled") {
+      toast({
+        title: "Command Cancelled",
+        description: name
+      });
+      return;
+    }
+
+    const { onOpenTranslation, onGoBack, onToggleRecording, onSpeakLast } = handlersRef.current;
+    const tab = commandTabs[event.command];
+    if (tab) {
+      if (onOpenTranslation) {
+        onOpenTranslation(tab);
+      } else {
+        toast({
+          title: "Command Unavailable",
+          description: "The Translation Hub cannot be opened from here",
+          variant: "destructive"
+        });
+      }
+      return;
+    }
+    switch (event.command) {
+      case "go-back":
+        onGoBack();
+        break;
+      case "toggle-recording":
+        onToggleRecording();
+        break;
+      case "speak-last":
+        onSpeakLast();
+        break;
+    }
+  }, [settings.confirmGesture, toast]);
+
+  // Returns true when the gesture belonged to a command rather than being a sign
+  const handleGesture = useCallback((gesture: string) => {
+    const { event, consumed } = stepGesture(gesture);
+    if (event) runCommand(event);
+    return consumed;
+  }, [stepGesture, runCommand]);
+
+  return useMemo(() => ({
+    bindings,
+    handleGesture
+  }), [bindings, handleGesture]);
+}
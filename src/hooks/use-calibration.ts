@@ -0,0 +1,112 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import type { HandFeatures } from "@/lib/recognition/features";
+import {
+  CalibrationCheck,
+  CalibrationProfile,
+  CalibrationSample,
+  CalibrationStep,
+  calibrationCaptureMs,
+  calibrationSample,
+  calibrationThresholds,
+  loadCalibrationProfile,
+  minCalibrationSamples,
+  saveCalibrationProfile,
+  summarizeCalibration
+} from "@/lib/recognition/calibration";
+import { useThrottledState } from "@/hooks/use-throttled-state";
+
+interface Capture {
+  step: "open-palm" | "fist";
+  startedAt: number | null;
+  samples: CalibrationSample[];
+  frames: number;
+}
+
+// Drives the calibration wizard: analyzed frames are fed in while a pose is
+// being captured, and the resulting profile is stored once the user saves it.
+export function useCalibration() {
+  const [profile, setProfile] = useState<CalibrationProfile | null>(() => loadCalibrationProfile());
+  const [step, setStep] = useState<CalibrationStep>("idle");
+  const [progress, setProgress] = useThrottledState(0, 100);
+  const [result, setResult] = useState<{ profile: CalibrationProfile; checks: CalibrationCheck[] } | null>(null);
+  const captureRef = useRef<Capture | null>(null);
+  const openPalmRef = useRef<{ samples: CalibrationSample[]; frameRate: number } | null>(null);
+
+  useEffect(() => {
+    saveCalibrationProfile(profile);
+  }, [profile]);
+
+  const beginCapture = useCallback((captureStep: Capture["step"]) => {
+    captureRef.current = { step: captureStep, startedAt: null, samples: [], frames: 0 };
+    setProgress(0);
+    setStep(captureStep);
+  }, [setProgress]);
+
+  const open = useCallback(() => {
+    captureRef.current = null;
+    setResult(null);
+    setStep("intro");
+  }, []);
+
+  const start = useCallback(() => beginCapture("open-palm"), [beginCapture]);
+
+  const cancel = useCallback(() => {
+    captureRef.current = null;
+    openPalmRef.current = null;
+    setResult(null);
+    setStep("idle");
+  }, []);
+
+  // Feeds one analyzed frame while a pose is being captured
+  const addFrame = useCallback((hand: HandFeatures | null, time: number, lighting: { brightness: number; contrast: number }) => {
+    const capture = captureRef.current;
+    if (!capture) return;
+
+    if (capture.startedAt === null) capture.startedAt = time;
+    capture.frames += 1;
+    if (hand) capture.samples.push(calibrationSample(hand, lighting));
+
+    const elapsed = time - capture.startedAt;
+    setProgress(Math.min(100, Math.min(elapsed / calibrationCaptureMs, capture.samples.length / minCalibrationSamples) * 100));
+    if (elapsed < calibrationCaptureMs || capture.samples.length < minCalibrationSamples) return;
+
+    const frameRate = elapsed > 0 ? (capture.frames - 1) / (elapsed / 1000) : 0;
+    if (capture.step === "open-palm") {
+      openPalmRef.current = { samples: capture.samples, frameRate };
+      beginCapture("fist");
+    } else {
+      const openPalm = openPalmRef.current;
+      captureRef.current = null;
+      openPalmRef.current = null;
+      setResult(summarizeCalibration(openPalm?.samples ?? [], capture.samples, ((openPalm?.frameRate ?? frameRate) + frameRate) / 2));
+      setStep("review");
+    }
+  }, [beginCapture, setProgress]);
+
+  const save = useCallback(() => {
+    if (result) setProfile(result.profile);
+    setResult(null);
+    setStep("idle");
+  }, [result]);
+
+  const reset = useCallback(() => {
+    setProfile(null);
+  }, []);
+
+  const thresholds = useMemo(() => calibrationThresholds(profile), [profile]);
+
+  return useMemo(() => ({
+    profile,
+    thresholds,
+    step,
+    progress,
+    result,
+    isCapturing: step === "open-palm" || step === "fist",
+    open,
+    start,
+    cancel,
+    addFrame,
+    save,
+    reset
+  }), [profile, thresholds, step, progress, result, open, start, cancel, addFrame, save, reset]);
+}
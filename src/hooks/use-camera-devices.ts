@@ -0,0 +1,50 @@
+import { useState, useCallback, useEffect, useMemo } from "react";
+import { CameraSettings, loadCameraSettings, saveCameraSettings } from "@/lib/recognition/camera";
+
+// Connected cameras and the chosen capture settings. The device list is
+// refreshed when cameras are plugged in or removed, and once permission is
+// granted (before that the browser hides their labels).
+export function useCameraDevices() {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [settings, setSettings] = useState<CameraSettings>(() => loadCameraSettings());
+
+  useEffect(() => {
+    saveCameraSettings(settings);
+  }, [settings]);
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      const all = await navigator.mediaDevices.enumerateDevices();
+      setDevices(all.filter(device => device.kind === "videoinput"));
+    } catch (error) {
+      console.error("Error listing cameras:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices) return;
+    refresh();
+    mediaDevices.addEventListener("devicechange", refresh);
+    return () => mediaDevices.removeEventListener("devicechange", refresh);
+  }, [refresh]);
+
+  const updateSettings = useCallback((changes: Partial<CameraSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  // A remembered camera that is no longer connected falls back to the default.
+  // Device ids are blank until permission is granted, so only judge after that.
+  const isListed = devices.some(device => device.deviceId === settings.deviceId);
+  const hasIds = devices.some(device => device.deviceId);
+  const deviceId = settings.deviceId && hasIds && !isListed ? null : settings.deviceId;
+  const activeSettings = useMemo(() => ({ ...settings, deviceId }), [settings, deviceId]);
+
+  return useMemo(() => ({
+    devices,
+    settings: activeSettings,
+    refresh,
+    updateSettings
+  }), [devices, activeSettings, refresh, updateSettings]);
+}
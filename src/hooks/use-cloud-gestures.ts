@@ -0,0 +1,78 @@
+import { useState, useCallback, useMemo } from "react";
+import type { LabeledSample } from "@/lib/recognition/classifier";
+import type { TrajectoryTemplate } from "@/lib/recognition/trajectory";
+import {
+  CloudGesture,
+  GestureVisibility,
+  deleteCloudGesture,
+  fetchCloudGestures,
+  fetchSharedGestures,
+  setCloudGestureVisibility,
+  uploadCloudGesture
+} from "@/lib/recognition/cloud-gestures";
+
+// The Supabase gesture library: the user's own and public gestures, plus any
+// opened from a share link. Errors are rethrown for the page to report.
+export function useCloudGestures() {
+  const [gestures, setGestures] = useState<CloudGesture[]>([]);
+  const [shared, setShared] = useState<CloudGesture[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const run = useCallback(async <T>(task: () => Promise<T>) => {
+    setIsBusy(true);
+    try {
+      return await task();
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  const refresh = useCallback(() => run(async () => {
+    setGestures(await fetchCloudGestures());
+    setIsLoaded(true);
+  }), [run]);
+
+  const upload = useCallback((
+    label: string,
+    samples: LabeledSample[],
+    templates: TrajectoryTemplate[],
+    visibility: GestureVisibility
+  ) => run(async () => {
+    const gesture = await uploadCloudGesture(label, samples, templates, visibility);
+    setGestures(prev => [gesture, ...prev.filter(existing => existing.id !== gesture.id)]);
+    setIsLoaded(true);
+    return gesture;
+  }), [run]);
+
+  const setVisibility = useCallback((id: string, visibility: GestureVisibility) => run(async () => {
+    await setCloudGestureVisibility(id, visibility);
+    setGestures(prev => prev.map(gesture => (gesture.id === id ? { ...gesture, visibility } : gesture)));
+  }), [run]);
+
+  const remove = useCallback((id: string) => run(async () => {
+    await deleteCloudGesture(id);
+    setGestures(prev => prev.filter(gesture => gesture.id !== id));
+  }), [run]);
+
+  const openShared = useCallback((tokens: string[]) => run(async () => {
+    const found = await fetchSharedGestures(tokens);
+    setShared(found);
+    return found;
+  }), [run]);
+
+  const dismissShared = useCallback(() => setShared([]), []);
+
+  return useMemo(() => ({
+    gestures,
+    shared,
+    isLoaded,
+    isBusy,
+    refresh,
+    upload,
+    setVisibility,
+    remove,
+    openShared,
+    dismissShared
+  }), [gestures, shared, isLoaded, isBusy, refresh, upload, setVisibility, remove, openShared, dismissShared]);
+}
@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useMemo } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/use-error-toast";
+import { useCloudGestures } from "@/hooks/use-cloud-gestures";
+import type { LabeledSample } from "@/lib/recognition/classifier";
+import type { TrajectoryTemplate } from "@/lib/recognition/trajectory";
+import { CloudGesture, GestureVisibility, gestureShareLink, parseShareTokens } from "@/lib/recognition/cloud-gestures";
+
+interface CloudLibraryOptions {
+  // The local training uploaded for a label
+  getTraining: (label: string) => { samples: LabeledSample[]; templates: TrajectoryTemplate[] };
+  // Imported gestures replace local training for the same label
+  replaceTraining: (gesture: CloudGesture) => void;
+}
+
+// The cloud gesture library as the page uses it: every action reports its
+// outcome, and gestures shared by link are offered for import when the page opens.
+export function useCloudLibrary({ getTraining, replaceTraining }: CloudLibraryOptions) {
+  const cloudGestures = useCloudGestures();
+  const { toast } = useToast();
+  const reportError = useErrorToast();
+  const { refresh, upload, setVisibility, remove, openShared, dismissShared, shared } = cloudGestures;
+
+  const refreshLibrary = useCallback(async () => {
+    try {
+      await refresh();
+    } catch (error) {
+      reportError("Could not load the gesture library", error);
+    }
+  }, [refresh, reportError]);
+
+  const uploadGesture = useCallback(async (label: string, visibility: GestureVisibility) => {
+    try {
+      const { samples, templates } = getTraining(label);
+      await upload(label, samples, templates, visibility);
+      toast({
+        title: "Gesture Saved",
+        description: `"${label}" is stored in your cloud library`
+      });
+    } catch (error) {
+      reportError("Could not save the gesture", error);
+    }
+  }, [getTraining, upload, toast, reportError]);
+
+  const changeVisibility = useCallback(async (id: string, visibility: GestureVisibility) => {
+    try {
+      await setVisibility(id, visibility);
+    } catch (error) {
+      reportError("Could not change sharing", error);
+    }
+  }, [setVisibility, reportError]);
+
+  const deleteGesture = useCallback(async (id: string) => {
+    try {
+      await remove(id);
+    } catch (error) {
+      reportError("Could not delete the gesture", error);
+    }
+  }, [remove, reportError]);
+
+  const copyShareLink = useCallback((gestures: CloudGesture[]) => {
+    navigator.clipboard.writeText(gestureShareLink(gestures));
+    toast({
+      title: "Link Copied",
+      description: `Anyone with the link can import ${gestures.length === 1 ? `"${gestures[0].label}"` : `these ${gestures.length} gestures`}`
+    });
+  }, [toast]);
+
+  const importGestures = useCallback((gestures: CloudGesture[]) => {
+    gestures.forEach(replaceTraining);
+    if (gestures.some(gesture => shared.includes(gesture))) {
+      dismissShared();
+      window.history.replaceState(null, "", window.location.pathname);
+    }
+    toast({
+      title: "Gestures Imported",
+      description: gestures.map(gesture => gesture.label).join(", ")
+    });
+  }, [replaceTraining, shared, dismissShared, toast]);
+
+  useEffect(() => {
+    const tokens = parseShareTokens(window.location.search);
+    if (tokens.length === 0) return;
+    openShared(tokens).catch(error => reportError("Could not open the shared gestures", error));
+  }, [openShared, reportError]);
+
+  return useMemo(() => ({
+    gestures: cloudGestures.gestures,
+    shared,
+    isLoaded: cloudGestures.isLoaded,
+    isBusy: cloudGestures.isBusy,
+    refresh: refreshLibrary,
+    upload: uploadGesture,
+    setVisibility: changeVisibility,
+    remove: deleteGesture,
+    copyShareLink,
+    importGestures,
+    dismissShared
+  }), [
+    cloudGestures.gestures, shared, cloudGestures.isLoaded, cloudGestures.isBusy, refreshLibrary, uploadGesture,
+    changeVisibility, deleteGesture, copyShareLink, importGestures, dismissShared
+  ]);
+}
@@ -0,0 +1,71 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import {
+  AppCommand,
+  CommandSettings,
+  CommandState,
+  createCommandState,
+  loadCommandSettings,
+  saveCommandSettings,
+  stepCommandState
+} from "@/lib/recognition/commands";
+
+// Gesture-to-command bindings and the arm → confirm state between signs.
+// The page runs the command once `handleGesture` reports it confirmed.
+export function useCommandBindings() {
+  const [settings, setSettings] = useState<CommandSettings>(() => loadCommandSettings());
+  const [pending, setPending] = useState<CommandState["pending"]>(null);
+  const stateRef = useRef(createCommandState());
+  const expiryTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => {
+    saveCommandSettings(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    return () => clearTimeout(expiryTimerRef.current);
+  }, []);
+
+  const cancel = useCallback(() => {
+    clearTimeout(expiryTimerRef.current);
+    stateRef.current = createCommandState();
+    setPending(null);
+  }, []);
+
+  const handleGesture = useCallback((gesture: string) => {
+    if (!settings.enabled) return { event: null, consumed: false };
+
+    const result = stepCommandState(stateRef.current, gesture, performance.now(), settings);
+    stateRef.current = result.state;
+    setPending(result.state.pending);
+    clearTimeout(expiryTimerRef.current);
+    if (result.state.pending) expiryTimerRef.current = setTimeout(cancel, settings.confirmTimeoutMs);
+    return { event: result.event, consumed: result.consumed };
+  }, [settings, cancel]);
+
+  const updateSettings = useCallback((changes: Partial<CommandSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+    if (changes.enabled === false) cancel();
+  }, [cancel]);
+
+  // A gesture drives at most one command
+  const bind = useCallback((gesture: string, command: AppCommand) => {
+    setSettings(prev => ({
+      ...prev,
+      bindings: [...prev.bindings.filter(binding => binding.gesture !== gesture), { gesture, command }]
+    }));
+  }, []);
+
+  const unbind = useCallback((gesture: string) => {
+    setSettings(prev => ({ ...prev, bindings: prev.bindings.filter(binding => binding.gesture !== gesture) }));
+  }, []);
+
+  return useMemo(() => ({
+    settings,
+    pending,
+    handleGesture,
+    cancel,
+    updateSettings,
+    bind,
+    unbind
+  }), [settings, pending, handleGesture, cancel, updateSettings, bind, unbind]);
+}
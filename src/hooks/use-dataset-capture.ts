@@ -0,0 +1,73 @@
+import { useState, useCallback, useMemo, useRef } from "react";
+import type { Handedness } from "@/lib/recognition/features";
+import type { LandmarkFrame } from "@/lib/recognition/session";
+import {
+  CaptureSettings,
+  CaptureState,
+  DatasetSample,
+  createCaptureState,
+  createDatasetSample,
+  defaultCaptureSettings,
+  stepCaptureState
+} from "@/lib/recognition/dataset";
+import { useThrottledState } from "@/hooks/use-throttled-state";
+
+// Drives the dataset capture studio: detector frames are fed in while a run
+// is active, and each finished sample is handed back for the page to store.
+export function useDatasetCapture() {
+  const [settings, setSettings] = useState<CaptureSettings>(defaultCaptureSettings);
+  const [state, setState] = useThrottledState<CaptureState | null>(null, 100);
+  // Whole seconds left in the countdown, by frame time
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const runRef = useRef<{ state: CaptureState; settings: CaptureSettings; dominantHand: Handedness } | null>(null);
+
+  const updateSettings = useCallback((changes: Partial<CaptureSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  const start = useCallback((dominantHand: Handedness) => {
+    const label = settings.label.trim();
+    if (!label) return;
+    const captureState = createCaptureState();
+    runRef.current = { state: captureState, settings: { ...settings, label }, dominantHand };
+    setState(captureState);
+    setCountdown(Math.ceil(settings.countdownMs / 1000));
+  }, [settings, setState]);
+
+  const cancel = useCallback(() => {
+    runRef.current = null;
+    setState(null);
+    setCountdown(null);
+  }, [setState]);
+
+  // Feeds one detector frame; returns a sample once one is complete
+  const addFrame = useCallback((frame: LandmarkFrame): DatasetSample | null => {
+    const run = runRef.current;
+    if (!run) return null;
+
+    const result = stepCaptureState(run.state, frame, run.settings);
+    run.state = result.state;
+    if (result.state.phase === "done") runRef.current = null;
+    setState(result.state);
+    const { phase, phaseStartedAt } = result.state;
+    setCountdown(phase === "countdown"
+      ? Math.max(1, Math.ceil((run.settings.countdownMs - (phaseStartedAt === null ? 0 : frame.time - phaseStartedAt)) / 1000))
+      : null);
+    return result.sample
+      ? createDatasetSample(run.settings.label, run.settings.kind, run.dominantHand, result.sample)
+      : null;
+  }, [setState]);
+
+  const isCapturing = state !== null && state.phase !== "done";
+
+  return useMemo(() => ({
+    settings,
+    state,
+    countdown,
+    isCapturing,
+    updateSettings,
+    start,
+    cancel,
+    addFrame
+  }), [settings, state, countdown, isCapturing, updateSettings, start, cancel, addFrame]);
+}
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useMemo } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/use-error-toast";
+import { useDataset } from "@/hooks/use-dataset";
+import { useDatasetCapture } from "@/hooks/use-dataset-capture";
+import { downloadFile } from "@/lib/utils";
+import type { LandmarkFrame } from "@/lib/recognition/session";
+import { DatasetFileFormat, parseDataset, serializeDataset } from "@/lib/recognition/dataset";
+
+// The stored landmark dataset and the capture studio feeding it. Captured
+// samples are saved as they complete; a capture cannot outlive recognition.
+export function useDatasetStudio(isRunning: boolean) {
+  const dataset = useDataset();
+  const capture = useDatasetCapture();
+  const { toast } = useToast();
+  const reportError = useErrorToast();
+  const { add, remove, samples } = dataset;
+  const { addFrame: addCaptureFrame, cancel } = capture;
+
+  useEffect(() => {
+    if (!isRunning) cancel();
+  }, [isRunning, cancel]);
+
+  // Feeds one detector frame to the running capture
+  const addFrame = useCallback((frame: LandmarkFrame) => {
+    const sample = addCaptureFrame(frame);
+    if (sample) add([sample]).catch(error => reportError("Could not save the sample", error));
+  }, [addCaptureFrame, add, reportError]);
+
+  const exportDataset = useCallback((format: DatasetFileFormat) => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(
+      `isl-landmark-dataset-${date}.${format}`,
+      serializeDataset(samples, format),
+      format === "json" ? "application/json" : "text/csv"
+    );
+  }, [samples]);
+
+  const importDataset = useCallback(async (file: File) => {
+    try {
+      const imported = parseDataset(await file.text());
+      await add(imported);
+      toast({
+        title: "Dataset Imported",
+        description: `${imported.length} samples added`
+      });
+    } catch (error) {
+      reportError("Could not import the dataset", error);
+    }
+  }, [add, toast, reportError]);
+
+  const deleteSamples = useCallback((ids: string[]) => {
+    remove(ids).catch(error => reportError("Could not delete samples", error));
+  }, [remove, reportError]);
+
+  return useMemo(() => ({
+    dataset,
+    capture,
+    addFrame,
+    exportDataset,
+    importDataset,
+    deleteSamples
+  }), [dataset, capture, addFrame, exportDataset, importDataset, deleteSamples]);
+}
@@ -0,0 +1,52 @@
+import { useState, useCallback, useEffect, useMemo } from "react";
+import { DatasetSample, countDatasetLabels } from "@/lib/recognition/dataset";
+import { clearRecords, deleteRecords, getAllRecords, putRecords } from "@/lib/recognition/local-db";
+
+// The labeled landmark dataset, kept in IndexedDB. Errors are rethrown for
+// the page to report.
+export function useDataset() {
+  const [samples, setSamples] = useState<DatasetSample[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getAllRecords<DatasetSample>("datasetSamples")
+      .then(stored => {
+        if (cancelled) return;
+        setSamples(stored.sort((a, b) => a.createdAt.localeCompare(b.createdAt)));
+        setIsLoaded(true);
+      })
+      .catch(error => console.error("Error loading dataset:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const add = useCallback(async (added: DatasetSample[]) => {
+    await putRecords("datasetSamples", added);
+    const ids = new Set(added.map(sample => sample.id));
+    setSamples(prev => [...prev.filter(sample => !ids.has(sample.id)), ...added]);
+  }, []);
+
+  const remove = useCallback(async (ids: string[]) => {
+    await deleteRecords("datasetSamples", ids);
+    const removed = new Set(ids);
+    setSamples(prev => prev.filter(sample => !removed.has(sample.id)));
+  }, []);
+
+  const clear = useCallback(async () => {
+    await clearRecords("datasetSamples");
+    setSamples([]);
+  }, []);
+
+  const counts = useMemo(() => countDatasetLabels(samples), [samples]);
+
+  return useMemo(() => ({
+    samples,
+    counts,
+    isLoaded,
+    add,
+    remove,
+    clear
+  }), [samples, counts, isLoaded, add, remove, clear]);
+}
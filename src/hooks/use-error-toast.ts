@@ -0,0 +1,22 @@
+import { useCallback } from "react";
+import { useToast } from "@/hooks/use-toast";
+
+export function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return typeof error === "string" ? error : "Unknown error";
+}
+
+// Logs a failed action and reports it as a destructive toast titled with what
+// could not be done, e.g. reportError("Could not save the sample", error)
+export function useErrorToast() {
+  const { toast } = useToast();
+
+  return useCallback((title: string, error: unknown) => {
+    console.error(`${title}:`, error);
+    toast({
+      title,
+      description: errorMessage(error),
+      variant: "destructive"
+    });
+  }, [toast]);
+}
@@ -0,0 +1,162 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { useHandInference } from "@/hooks/use-hand-inference";
+import type { SourceFrame } from "@/hooks/use-video-source";
+import type { LabeledSample } from "@/lib/recognition/classifier";
+import type { FrameOptions, FrameResult, GestureTaskModel } from "@/lib/recognition/inference-protocol";
+import {
+  FrameTiming,
+  MetricsSnapshot,
+  PipelineMetrics,
+  createPipelineMetrics,
+  recordCapture,
+  recordFrameTiming,
+  snapshotMetrics
+} from "@/lib/recognition/metrics";
+
+interface FramePipelineOptions {
+  isRunning: boolean;
+  labels: string[];
+  samples: LabeledSample[];
+  gestureTask: GestureTaskModel | null;
+  // Memoized by the page; every change restarts the frame loop
+  frameOptions: FrameOptions;
+  getVideo: () => HTMLVideoElement | null;
+  nextFrame: () => SourceFrame | null;
+  // A frame analyzed by the worker, while running
+  onResult: (result: FrameResult, video: HTMLVideoElement) => void;
+  // A frame while hand tracking is unavailable, for motion-only recognition
+  onMotionFrame: (video: HTMLVideoElement, time: number) => void;
+  // Metrics of a session being recorded, which get the same measurements
+  sessionMetrics?: () => PipelineMetrics | null;
+}
+
+// Drives recognition once per animation frame while running: each new video
+// frame goes to the inference worker, or to motion-only recognition while no
+// hand landmarker is available. Owns the pipeline metrics shown on the page.
+export function useFramePipeline({
+  isRunning,
+  labels,
+  samples,
+  gestureTask,
+  frameOptions,
+  getVideo,
+  nextFrame,
+  onResult,
+  onMotionFrame,
+  sessionMetrics
+}: FramePipelineOptions) {
+  const { toast } = useToast();
+  const metricsRef = useRef(createPipelineMetrics());
+  const [metrics, setMetrics] = useState<MetricsSnapshot | null>(null);
+  const animationFrameRef = useRef<number>();
+
+  const recordCaptureMetrics = useCallback((time: number) => {
+    recordCapture(metricsRef.current, time);
+    const session = sessionMetrics?.();
+    if (session) recordCapture(session, time);
+  }, [sessionMetrics]);
+
+  const recordTimingMetrics = useCallback((timing: FrameTiming) => {
+    recordFrameTiming(metricsRef.current, timing);
+    const session = sessionMetrics?.();
+    if (session) recordFrameTiming(session, timing);
+  }, [sessionMetrics]);
+
+  const handleResult = useCallback((result: FrameResult, roundTripMs: number) => {
+    const video = getVideo();
+    if (!video || !isRunning) {
+      result.previewFrame?.close();
+      return;
+    }
+    recordTimingMetrics({
+      time: performance.now(),
+      hasHands: result.hands.length > 0,
+      landmarkMs: result.landmarkMs,
+      classifierMs: result.classifierMs,
+      roundTripMs
+    });
+    onResult(result, video);
+  }, [getVideo, isRunning, recordTimingMetrics, onResult]);
+
+  const inference = useHandInference({ labels, samples, gestureTask, onResult: handleResult });
+
+  const processVideoFrame = useCallback(() => {
+    if (!isRunning || inference.status === "loading") return;
+
+    const frame = nextFrame();
+    if (frame) {
+      if (inference.status === "ready") {
+        inference.sendFrame(frame.video, frameOptions, frame.time).then(sent => {
+          if (!sent) return;
+          recordCaptureMetrics(performance.now());
+          frame.markSent();
+        });
+      } else {
+        try {
+          const now = performance.now();
+          recordCaptureMetrics(now);
+          recordTimingMetrics({ time: now, hasHands: false });
+          onMotionFrame(frame.video, frame.time);
+          frame.markSent();
+        } catch (error) {
+          console.error("Error processing video frame:", error);
+        }
+      }
+    }
+
+    animationFrameRef.current = requestAnimationFrame(processVideoFrame);
+  }, [inference, isRunning, nextFrame, frameOptions, recordCaptureMetrics, recordTimingMetrics, onMotionFrame]);
+
+  useEffect(() => {
+    if (isRunning && inference.status !== "loading") {
+      processVideoFrame();
+    } else if (animationFrameRef.current) {
+      cancelAnimationFrame(animationFrameRef.current);
+    }
+    return () => {
+      if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
+    };
+  }, [isRunning, inference.status, processVideoFrame]);
+
+  useEffect(() => {
+    if (inference.status === "ready" && inference.modelInfo) {
+      toast({
+        title: "AI Model Loaded",
+        description: `Hand recognition is ready (${inference.modelInfo.delegate})`
+      });
+    } else if (inference.status === "degraded") {
+      toast({
+        title: "Model Loading Error",
+        description: `Hand tracking is unavailable${inference.loadError ? ` (${inference.loadError})` : ""}. Recognizing swipes from camera motion only.`,
+        variant: "destructive"
+      });
+    }
+  }, [inference.status, inference.modelInfo, inference.loadError, toast]);
+
+  // The performance panel ticks once per second while running
+  const { statsRef } = inference;
+  useEffect(() => {
+    if (!isRunning) return;
+    metricsRef.current = createPipelineMetrics(statsRef.current.framesDropped);
+    const interval = setInterval(() => {
+      setMetrics(snapshotMetrics(metricsRef.current, performance.now(), statsRef.current.framesDropped));
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [isRunning, statsRef]);
+
+  const resetMetrics = useCallback(() => {
+    metricsRef.current = createPipelineMetrics(statsRef.current.framesDropped);
+    setMetrics(null);
+  }, [statsRef]);
+
+  // The worker's running count of dropped frames
+  const framesDropped = useCallback(() => statsRef.current.framesDropped, [statsRef]);
+
+  return useMemo(() => ({
+    inference,
+    metrics,
+    resetMetrics,
+    framesDropped
+  }), [inference, metrics, resetMetrics, framesDropped]);
+}
@@ -0,0 +1,50 @@
+import { useState, useCallback, useEffect, useMemo } from "react";
+import {
+  LabeledSample,
+  classifyVector,
+  countSamplesByLabel,
+  loadSamples,
+  saveSamples
+} from "@/lib/recognition/classifier";
+
+export function useGestureClassifier(labels: string[]) {
+  const [samples, setSamples] = useState<LabeledSample[]>(() => loadSamples());
+
+  useEffect(() => {
+    saveSamples(samples);
+  }, [samples]);
+
+  const addSample = useCallback((label: string, vector: number[]) => {
+    setSamples(prev => [...prev, { label, vector, createdAt: Date.now() }]);
+  }, []);
+
+  const removeLabel = useCallback((label: string) => {
+    setSamples(prev => prev.filter(sample => sample.label !== label));
+  }, []);
+
+  // Imported gestures replace any local samples with the same label
+  const replaceLabel = useCallback((label: string, labelSamples: LabeledSample[]) => {
+    setSamples(prev => [...prev.filter(sample => sample.label !== label), ...labelSamples]);
+  }, []);
+
+  const clearSamples = useCallback(() => {
+    setSamples([]);
+  }, []);
+
+  const classify = useCallback((vector: number[]) => {
+    return classifyVector(samples, vector, labels);
+  }, [samples, labels]);
+
+  const sampleCounts = useMemo(() => countSamplesByLabel(samples), [samples]);
+
+  return useMemo(() => ({
+    samples,
+    sampleCounts,
+    isTrained: samples.length > 0,
+    addSample,
+    removeLabel,
+    replaceLabel,
+    clearSamples,
+    classify
+  }), [samples, sampleCounts, addSample, removeLabel, replaceLabel, clearSamples, classify]);
+}
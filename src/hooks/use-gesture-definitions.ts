@@ -0,0 +1,40 @@
+import { useState, useCallback, useEffect, useMemo } from "react";
+import {
+  GestureDefinition,
+  builtInGestureDefinitions,
+  loadGestureDefinitions,
+  mergeGestureDefinitions,
+  saveGestureDefinitions
+} from "@/lib/recognition/gesture-definitions";
+
+// Built-in gesture definitions plus those loaded from files. A loaded
+// definition replaces the built-in one of the same name.
+export function useGestureDefinitions() {
+  const [loaded, setLoaded] = useState<GestureDefinition[]>(() => loadGestureDefinitions());
+
+  useEffect(() => {
+    saveGestureDefinitions(loaded);
+  }, [loaded]);
+
+  const addDefinitions = useCallback((definitions: GestureDefinition[]) => {
+    setLoaded(prev => mergeGestureDefinitions(prev, definitions));
+  }, []);
+
+  const removeDefinition = useCallback((name: string) => {
+    setLoaded(prev => prev.filter(definition => definition.name !== name));
+  }, []);
+
+  const clearDefinitions = useCallback(() => {
+    setLoaded([]);
+  }, []);
+
+  const definitions = useMemo(() => mergeGestureDefinitions(builtInGestureDefinitions, loaded), [loaded]);
+
+  return useMemo(() => ({
+    definitions,
+    loaded,
+    addDefinitions,
+    removeDefinition,
+    clearDefinitions
+  }), [definitions, loaded, addDefinitions, removeDefinition, clearDefinitions]);
+}
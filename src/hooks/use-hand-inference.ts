@@ -0,0 +1,199 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import type { LabeledSample } from "@/lib/recognition/classifier";
+import type { FrameOptions, FrameResult, GestureTaskModel, InferenceRequest, InferenceResponse } from "@/lib/recognition/inference-protocol";
+import type { Delegate } from "@/lib/recognition/vision-assets";
+
+export type ModelStatus = "loading" | "ready" | "degraded";
+
+export interface InferenceStats {
+  framesSent: number;
+  framesDropped: number;
+  inferenceMs: number;
+  // Latest frame: from handing it to the worker until its result arrived
+  roundTripMs: number;
+}
+
+interface HandInferenceOptions {
+  labels: string[];
+  samples: LabeledSample[];
+  // Imported gesture task to run on every frame, if any
+  gestureTask?: GestureTaskModel | null;
+  onResult: (result: FrameResult, roundTripMs: number) => void;
+}
+
+// Consecutive GPU inference failures before the worker is rebuilt on the CPU
+const maxGpuFrameErrors = 3;
+
+function post(worker: Worker, request: InferenceRequest, transfer: Transferable[] = []) {
+  worker.postMessage(request, transfer);
+}
+
+// Runs hand landmark detection and classification in a dedicated worker.
+// Only one frame is in flight at a time; frames offered meanwhile are dropped.
+export function useHandInference({ labels, samples, gestureTask = null, onResult }: HandInferenceOptions) {
+  const [status, setStatus] = useState<ModelStatus>("loading");
+  const [modelInfo, setModelInfo] = useState<{ delegate: Delegate } | null>(null);
+  // Why hand tracking could not start, while degraded
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isSegmentationAvailable, setIsSegmentationAvailable] = useState(true);
+  const [isNonManualAvailable, setIsNonManualAvailable] = useState(true);
+  const [gestureTaskError, setGestureTaskError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const readyRef = useRef(false);
+  const busyRef = useRef(false);
+  const frameIdRef = useRef(0);
+  const frameErrorCountRef = useRef(0);
+  const statsRef = useRef<InferenceStats>({ framesSent: 0, framesDropped: 0, inferenceMs: 0, roundTripMs: 0 });
+  const sentAtRef = useRef(0);
+  const samplesRef = useRef(samples);
+  samplesRef.current = samples;
+  const gestureTaskRef = useRef(gestureTask);
+  gestureTaskRef.current = gestureTask;
+  const onResultRef = useRef(onResult);
+  onResultRef.current = onResult;
+
+  const load = useCallback(function load(delegates: Delegate[] = ["GPU", "CPU"]) {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    readyRef.current = false;
+    busyRef.current = false;
+    frameErrorCountRef.current = 0;
+    setStatus("loading");
+    setLoadError(null);
+    setIsSegmentationAvailable(true);
+    setIsNonManualAvailable(true);
+    setGestureTaskError(null);
+
+    if (typeof Worker === "undefined" || typeof OffscreenCanvas === "undefined") {
+      console.error("Web Workers with OffscreenCanvas are not supported in this browser");
+      setModelInfo(null);
+      setLoadError("This browser cannot run hand tracking in the background");
+      setStatus("degraded");
+      return;
+    }
+
+    const worker = new Worker(new URL("../lib/recognition/hand-inference.worker.ts", import.meta.url), { type: "module" });
+    workerRef.current = worker;
+    let delegate: Delegate | null = null;
+
+    const fail = (error: unknown) => {
+      console.error("Error initializing hand landmarker:", error);
+      worker.terminate();
+      if (workerRef.current === worker) workerRef.current = null;
+      readyRef.current = false;
+      setModelInfo(null);
+      setLoadError(error instanceof Error ? error.message : String(error));
+      setStatus("degraded");
+    };
+
+    worker.onmessage = (event: MessageEvent<InferenceResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case "ready":
+          delegate = message.delegate;
+          readyRef.current = true;
+          setModelInfo({ delegate: message.delegate });
+          setStatus("ready");
+          break;
+        case "result":
+          busyRef.current = false;
+          frameErrorCountRef.current = 0;
+          statsRef.current.inferenceMs = message.inferenceMs;
+          statsRef.current.roundTripMs = performance.now() - sentAtRef.current;
+          onResultRef.current(message, statsRef.current.roundTripMs);
+          break;
+        case "error":
+          if (message.stage === "init") {
+            fail(message.message);
+            break;
+          }
+          if (message.stage === "segmentation") {
+            // Background removal falls back to the running-average model in the worker
+            console.error("Error initializing person segmentation:", message.message);
+            setIsSegmentationAvailable(false);
+            break;
+          }
+          if (message.stage === "non-manual") {
+            // Hands keep being tracked; only the face and body markers are missing
+            console.error("Error initializing face and pose landmarkers:", message.message);
+            setIsNonManualAvailable(false);
+            break;
+          }
+          if (message.stage === "gesture-task") {
+            console.error("Error loading gesture task:", message.message);
+            setGestureTaskError(message.message);
+            break;
+          }
+          console.error("Error processing video frame:", message.message);
+          busyRef.current = false;
+          frameErrorCountRef.current += 1;
+          // A GPU context that keeps failing (lost context, driver issues) is rebuilt on the CPU
+          if (delegate === "GPU" && frameErrorCountRef.current >= maxGpuFrameErrors) {
+            load(["CPU"]);
+          }
+          break;
+      }
+    };
+    worker.onerror = event => fail(event.message);
+
+    post(worker, { type: "init", delegates, labels, samples: samplesRef.current });
+    if (gestureTaskRef.current) post(worker, { type: "gestureTask", model: gestureTaskRef.current });
+  }, [labels]);
+
+  // Returns false when the frame was dropped because the worker is still busy.
+  // `timestamp` is echoed back on the result and drives recognition timing.
+  const sendFrame = useCallback(async (source: HTMLVideoElement, options: FrameOptions, timestamp = performance.now()) => {
+    const worker = workerRef.current;
+    if (!worker || !readyRef.current) return false;
+    if (busyRef.current) {
+      statsRef.current.framesDropped += 1;
+      return false;
+    }
+
+    busyRef.current = true;
+    sentAtRef.current = performance.now();
+    try {
+      const bitmap = await createImageBitmap(source);
+      if (workerRef.current !== worker) {
+        bitmap.close();
+        return false;
+      }
+      post(worker, { type: "frame", id: ++frameIdRef.current, bitmap, timestamp, ...options }, [bitmap]);
+      statsRef.current.framesSent += 1;
+      return true;
+    } catch (error) {
+      console.error("Error capturing video frame:", error);
+      busyRef.current = false;
+      return false;
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    };
+  }, [load]);
+
+  useEffect(() => {
+    if (workerRef.current) post(workerRef.current, { type: "samples", samples });
+  }, [samples]);
+
+  useEffect(() => {
+    setGestureTaskError(null);
+    if (workerRef.current) post(workerRef.current, { type: "gestureTask", model: gestureTask });
+  }, [gestureTask]);
+
+  return useMemo(() => ({
+    status,
+    modelInfo,
+    loadError,
+    isSegmentationAvailable,
+    isNonManualAvailable,
+    gestureTaskError,
+    statsRef,
+    load,
+    sendFrame
+  }), [status, modelInfo, loadError, isSegmentationAvailable, isNonManualAvailable, gestureTaskError, load, sendFrame]);
+}
@@ -0,0 +1,202 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import type * as tf from "@tensorflow/tfjs";
+import type { ClassificationResult } from "@/lib/recognition/classifier";
+import type { Handedness } from "@/lib/recognition/features";
+import type { GestureTaskModel, SequenceModelRequest, SequenceModelResponse } from "@/lib/recognition/inference-protocol";
+import type { LandmarkFrame } from "@/lib/recognition/session";
+import { sequenceFeatures, trimSequenceFrames } from "@/lib/recognition/sequence-features";
+import {
+  RecognitionModelInfo,
+  deleteRecognitionModel,
+  listRecognitionModels,
+  loadModelTask,
+  loadSelectedModelId,
+  minModelConfidence,
+  saveRecognitionModel,
+  saveSelectedModelId
+} from "@/lib/recognition/sequence-model";
+
+// A sequence needs this many live frames before it is classified
+const minLiveFrames = 5;
+// The model runs at most this often; frames in between reuse its last answer
+const predictionIntervalMs = 100;
+
+function post(worker: Worker, request: SequenceModelRequest) {
+  worker.postMessage(request);
+}
+
+// The registry of saved recognition models and the one selected for live
+// recognition. Registry changes rethrow errors for the page to report; a
+// model that fails to load is reported through `loadError`. Sequence models
+// run in their own worker on the live window kept here; a MediaPipe task is
+// handed out as `gestureTask` for the inference worker to run, and its answers
+// are fed back through `setGestureTaskResult`.
+export function useRecognitionModels() {
+  const [models, setModels] = useState<RecognitionModelInfo[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(() => loadSelectedModelId());
+  const [status, setStatus] = useState<"idle" | "loading" | "ready" | "error">("idle");
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const [gestureTask, setGestureTask] = useState<GestureTaskModel | null>(null);
+  const lastPredictionRef = useRef<{ time: number; result: ClassificationResult | null }>({ time: -Infinity, result: null });
+  // The prediction in flight, and the live time its window ends at
+  const pendingPredictionRef = useRef<{ id: number; time: number } | null>(null);
+  const predictionIdRef = useRef(0);
+  // Recent detector frames, with or without hands, for a sequence model
+  const framesRef = useRef<LandmarkFrame[]>([]);
+  // Latest confident answer from a MediaPipe task
+  const gestureTaskResultRef = useRef<ClassificationResult | null>(null);
+
+  const refresh = useCallback(async () => {
+    setModels(await listRecognitionModels());
+  }, []);
+
+  useEffect(() => {
+    refresh().catch(error => console.error("Error loading recognition models:", error));
+  }, [refresh]);
+
+  useEffect(() => {
+    saveSelectedModelId(selectedId);
+  }, [selectedId]);
+
+  const selected = models.find(model => model.id === selectedId) ?? null;
+  const selectedRef = useRef(selected);
+  selectedRef.current = selected;
+  const loadedId = selected?.id ?? null;
+
+  // Loads the selected model's weights or task file, replacing the previous one. Keyed on
+  // the id so refreshing the registry does not reload them.
+  useEffect(() => {
+    const info = selectedRef.current;
+    if (!loadedId || !info) {
+      setStatus("idle");
+      return;
+    }
+    let cancelled = false;
+    setStatus("loading");
+    setLoadError(null);
+    const fail = (error: unknown) => {
+      if (cancelled) return;
+      console.error("Error loading recognition model:", error);
+      setLoadError(error instanceof Error ? error.message : String(error));
+      setStatus("error");
+    };
+
+    if (info.source === "mediapipe") {
+      loadModelTask(info).then(data => {
+        if (cancelled) return;
+        setGestureTask({ id: info.id, data, categories: info.categories ?? info.labels, labels: info.labels });
+        setStatus("ready");
+      }).catch(fail);
+    } else {
+      const worker = new Worker(new URL("../lib/recognition/sequence-model.worker.ts", import.meta.url), { type: "module" });
+      workerRef.current = worker;
+      lastPredictionRef.current = { time: -Infinity, result: null };
+      pendingPredictionRef.current = null;
+
+      worker.onmessage = (event: MessageEvent<SequenceModelResponse>) => {
+        const message = event.data;
+        switch (message.type) {
+          case "loaded":
+            if (!cancelled) setStatus("ready");
+            break;
+          case "prediction": {
+            const pending = pendingPredictionRef.current;
+            if (pending?.id !== message.id) break;
+            pendingPredictionRef.current = null;
+            lastPredictionRef.current = {
+              time: pending.time,
+              result: message.result.confidence >= minModelConfidence ? message.result : null
+            };
+            break;
+          }
+          case "error":
+            if (message.stage === "load") {
+              fail(new Error(message.message));
+              break;
+            }
+            // The next window gets a fresh try
+            console.error("Error running recognition model:", message.message);
+            pendingPredictionRef.current = null;
+            break;
+        }
+      };
+      worker.onerror = event => fail(new Error(event.message));
+      post(worker, { type: "load", model: info });
+    }
+
+    return () => {
+      cancelled = true;
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      pendingPredictionRef.current = null;
+      setGestureTask(null);
+    };
+  }, [loadedId]);
+
+  const select = useCallback((id: string | null) => setSelectedId(id), []);
+
+  const register = useCallback(async (model: tf.LayersModel | ArrayBuffer, info: RecognitionModelInfo) => {
+    await saveRecognitionModel(model, info);
+    setModels(prev => [info, ...prev.filter(existing => existing.id !== info.id)]);
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    const info = models.find(model => model.id === id);
+    if (!info) return;
+    await deleteRecognitionModel(info);
+    setModels(prev => prev.filter(model => model.id !== id));
+    setSelectedId(prev => (prev === id ? null : prev));
+  }, [models]);
+
+  const addFrame = useCallback((frame: LandmarkFrame, time: number) => {
+    if (!selected) return;
+    framesRef.current = trimSequenceFrames([...framesRef.current, { ...frame, time }], time, selected.sequenceMs);
+  }, [selected]);
+
+  const setGestureTaskResult = useCallback((result: ClassificationResult | null | undefined) => {
+    gestureTaskResultRef.current = result && result.confidence >= minModelConfidence ? result : null;
+  }, []);
+
+  // Forgets the live window at discontinuities (replays, seeks)
+  const resetLive = useCallback(() => {
+    framesRef.current = [];
+    gestureTaskResultRef.current = null;
+  }, []);
+
+  // The selected model's latest answer, null until it is loaded and
+  // confident. A sequence model gets the live window whenever that answer is
+  // due for a refresh.
+  const classify = useCallback((dominantHand: Handedness, time: number) => {
+    if (selected?.source === "mediapipe") return gestureTaskResultRef.current;
+    const worker = workerRef.current;
+    const frames = framesRef.current;
+    if (!worker || !selected || status !== "ready" || frames.length < minLiveFrames) return null;
+
+    const last = lastPredictionRef.current;
+    // An earlier time means the clock restarted (a replay), so the last answer is stale
+    const isStale = time < last.time;
+    if (!pendingPredictionRef.current && (isStale || time - last.time >= predictionIntervalMs)) {
+      const id = ++predictionIdRef.current;
+      pendingPredictionRef.current = { id, time };
+      post(worker, { type: "predict", id, features: sequenceFeatures(frames, dominantHand, selected.inputShape[0]) });
+    }
+    return isStale ? null : last.result;
+  }, [selected, status]);
+
+  return useMemo(() => ({
+    models,
+    selected,
+    status,
+    loadError,
+    gestureTask,
+    refresh,
+    select,
+    register,
+    remove,
+    addFrame,
+    setGestureTaskResult,
+    resetLive,
+    classify
+  }), [models, selected, status, loadError, gestureTask, refresh, select, register, remove, addFrame, setGestureTaskResult, resetLive, classify]);
+}
@@ -0,0 +1,49 @@
+import { useState, useCallback, useEffect, useMemo } from "react";
+import {
+  SessionLog,
+  SessionLogEntry,
+  createSessionLog,
+  loadSessionLog,
+  logCommit,
+  logRelease,
+  saveSessionLog,
+  summarizeSessionLog
+} from "@/lib/recognition/session-log";
+
+// Keeps every committed sign of the current session, persisted so the log
+// survives leaving the page until the session is reset.
+export function useSessionLog() {
+  const [log, setLog] = useState<SessionLog>(() => loadSessionLog());
+
+  useEffect(() => {
+    saveSessionLog(log);
+  }, [log]);
+
+  const addEntry = useCallback((entry: SessionLogEntry) => {
+    setLog(prev => logCommit(prev, entry));
+  }, []);
+
+  const release = useCallback((gesture: string, endedAt: number) => {
+    setLog(prev => logRelease(prev, gesture, endedAt));
+  }, []);
+
+  const setLearner = useCallback((learner: string) => {
+    setLog(prev => ({ ...prev, learner }));
+  }, []);
+
+  // A new session keeps the learner's name
+  const reset = useCallback(() => {
+    setLog(prev => createSessionLog(prev.learner));
+  }, []);
+
+  const summary = useMemo(() => summarizeSessionLog(log), [log]);
+
+  return useMemo(() => ({
+    log,
+    summary,
+    addEntry,
+    release,
+    setLearner,
+    reset
+  }), [log, summary, addEntry, release, setLearner, reset]);
+}
@@ -0,0 +1,197 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/use-error-toast";
+import { useThrottledState } from "@/hooks/use-throttled-state";
+import { downloadFile } from "@/lib/utils";
+import type { CommitEvent } from "@/lib/recognition/commit";
+import type { Handedness } from "@/lib/recognition/features";
+import { PipelineMetrics, createPipelineMetrics, summarizeMetrics } from "@/lib/recognition/metrics";
+import {
+  CommitComparison,
+  LandmarkFrame,
+  RecordedSession,
+  SessionCommit,
+  SessionFileFormat,
+  compareCommits,
+  createSessionHeader,
+  parseSession,
+  serializeSession
+} from "@/lib/recognition/session";
+
+interface SessionReplayOptions {
+  // Clears recognition state and the overlay before and after a replay
+  onReset: () => void;
+  // A session file was loaded, e.g. to pair hands the way it was recorded
+  onLoad?: (session: RecordedSession) => void;
+}
+
+// Records landmark sessions (detector frames and commits, relative to the
+// first frame) and replays a recorded or loaded session through the page's
+// recognizers, comparing the commits with the recorded ones.
+export function useSessionReplay({ onReset, onLoad }: SessionReplayOptions) {
+  const { toast } = useToast();
+  const reportError = useErrorToast();
+  const recordingRef = useRef<{ data: RecordedSession; startedAt: number | null; metrics: PipelineMetrics } | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordedFrameCount, setRecordedFrameCount] = useThrottledState(0, 100);
+  const [session, setSession] = useState<{ name: string; data: RecordedSession } | null>(null);
+  const replayRef = useRef<{ animationFrame: number; startedAt: number; commits: SessionCommit[] } | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [replayProgress, setReplayProgress] = useThrottledState(0, 100);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [replayReport, setReplayReport] = useState<CommitComparison | null>(null);
+
+  // `framesDropped` is the worker's running count, so the summary only counts this session's drops
+  const startRecording = useCallback((dominantHand: Handedness, framesDropped: number) => {
+    recordingRef.current = {
+      // Frames reach the detector unmirrored
+      data: { header: createSessionHeader(dominantHand, false), frames: [], commits: [] },
+      // Set by the first recorded frame, so camera and file clocks both work
+      startedAt: null,
+      metrics: createPipelineMetrics(framesDropped)
+    };
+    setRecordedFrameCount(0);
+    setIsRecording(true);
+  }, [setRecordedFrameCount]);
+
+  const stopRecording = useCallback((framesDropped: number) => {
+    const recording = recordingRef.current;
+    recordingRef.current = null;
+    setIsRecording(false);
+    if (!recording) return;
+
+    const { data } = recording;
+    data.header.durationMs = data.frames.length > 0 ? data.frames[data.frames.length - 1].time : 0;
+    data.header.metrics = summarizeMetrics(recording.metrics, data.header.durationMs, framesDropped);
+    setSession({ name: `session-${data.header.createdAt.replace(/[:.]/g, "-")}`, data });
+    setReplayReport(null);
+  }, []);
+
+  // Every detector frame is kept while recording, including empty ones
+  const recordFrame = useCallback((frame: LandmarkFrame, time: number) => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+    if (recording.startedAt === null) recording.startedAt = time;
+    if (time < recording.startedAt) return;
+    recording.data.frames.push({ ...frame, time: time - recording.startedAt });
+    setRecordedFrameCount(recording.data.frames.length);
+  }, [setRecordedFrameCount]);
+
+  // Committed signs join the recording and the running replay
+  const recordCommit = useCallback((event: CommitEvent) => {
+    const recording = recordingRef.current;
+    if (recording && recording.startedAt !== null) {
+      recording.data.commits.push({ time: event.time - recording.startedAt, gesture: event.gesture, confidence: event.confidence });
+    }
+    const replay = replayRef.current;
+    if (replay) {
+      replay.commits.push({ time: event.time - replay.startedAt, gesture: event.gesture, confidence: event.confidence });
+    }
+  }, []);
+
+  // Pipeline metrics of the session being recorded, if any
+  const recordingMetrics = useCallback(() => recordingRef.current?.metrics ?? null, []);
+
+  // Replays are checked against their recording, so their commits are not logged or spoken
+  const isReplayActive = useCallback(() => replayRef.current !== null, []);
+
+  const download = useCallback((format: SessionFileFormat) => {
+    if (!session) return;
+    downloadFile(
+      `${session.name}.${format}`,
+      serializeSession(session.data, format),
+      format === "json" ? "application/json" : "application/x-ndjson"
+    );
+  }, [session]);
+
+  const loadFile = useCallback(async (file: File) => {
+    try {
+      const data = parseSession(await file.text());
+      setSession({ name: file.name.replace(/\.(nd)?jsonl?$/i, ""), data });
+      setReplayReport(null);
+      onLoad?.(data);
+      toast({
+        title: "Session Loaded",
+        description: `${data.frames.length} frames and ${data.commits.length} recorded signs`
+      });
+    } catch (error) {
+      reportError("Could not load session", error);
+    }
+  }, [onLoad, toast, reportError]);
+
+  const stopReplay = useCallback(() => {
+    if (replayRef.current) cancelAnimationFrame(replayRef.current.animationFrame);
+    replayRef.current = null;
+    setIsReplaying(false);
+    onReset();
+  }, [onReset]);
+
+  // Feeds the session's frames to `replayFrame` at the chosen speed. Frames
+  // carry session time, not wall time, so results do not depend on the speed.
+  const startReplay = useCallback((replayFrame: (frame: LandmarkFrame, time: number, mirroredInput: boolean) => void) => {
+    if (!session) return;
+
+    const { header, frames, commits } = session.data;
+    onReset();
+    const replay = { animationFrame: 0, startedAt: performance.now(), commits: [] as SessionCommit[] };
+    replayRef.current = replay;
+    setIsReplaying(true);
+    setReplayReport(null);
+    setReplayProgress(0);
+
+    let index = 0;
+    const speed = replaySpeed;
+    const step = () => {
+      if (replayRef.current !== replay) return;
+
+      const elapsed = (performance.now() - replay.startedAt) * speed;
+      while (index < frames.length && frames[index].time <= elapsed) {
+        try {
+          replayFrame(frames[index], replay.startedAt + frames[index].time, header.mirroredInput);
+        } catch (error) {
+          console.error("Error replaying frame:", error);
+        }
+        index++;
+      }
+      setReplayProgress(frames.length > 0 ? (index / frames.length) * 100 : 100);
+
+      if (index >= frames.length) {
+        setReplayReport(compareCommits(commits, replay.commits));
+        stopReplay();
+        return;
+      }
+      replay.animationFrame = requestAnimationFrame(step);
+    };
+    step();
+  }, [session, replaySpeed, onReset, stopReplay, setReplayProgress]);
+
+  useEffect(() => {
+    return () => {
+      if (replayRef.current) cancelAnimationFrame(replayRef.current.animationFrame);
+    };
+  }, []);
+
+  return useMemo(() => ({
+    session,
+    isRecording,
+    recordedFrameCount,
+    isReplaying,
+    replayProgress,
+    replaySpeed,
+    setReplaySpeed,
+    replayReport,
+    startRecording,
+    stopRecording,
+    recordFrame,
+    recordCommit,
+    recordingMetrics,
+    isReplayActive,
+    download,
+    loadFile,
+    startReplay,
+    stopReplay
+  }), [
+    session, isRecording, recordedFrameCount, isReplaying, replayProgress, replaySpeed, replayReport, startRecording,
+    stopRecording, recordFrame, recordCommit, recordingMetrics, isReplayActive, download, loadFile, startReplay, stopReplay
+  ]);
+}
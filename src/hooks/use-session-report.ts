@@ -0,0 +1,41 @@
+import { useCallback, useMemo } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFile } from "@/lib/utils";
+import { SessionLog, SessionLogFormat, serializeSessionLog, sessionReportHtml } from "@/lib/recognition/session-log";
+
+function sessionLogName(log: SessionLog) {
+  const learner = log.learner.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-");
+  const date = new Date(log.startedAt).toISOString().replace(/[:.]/g, "-");
+  return `session-log-${learner ? `${learner}-` : ""}${date}`;
+}
+
+// Exports of the session log: a JSON or CSV download and a printable report
+export function useSessionReport(log: SessionLog) {
+  const { toast } = useToast();
+
+  const download = useCallback((format: SessionLogFormat) => {
+    downloadFile(
+      `${sessionLogName(log)}.${format}`,
+      serializeSessionLog(log, format),
+      format === "json" ? "application/json" : "text/csv"
+    );
+  }, [log]);
+
+  const print = useCallback(() => {
+    const reportWindow = window.open("", "_blank");
+    if (!reportWindow) {
+      toast({
+        title: "Report Blocked",
+        description: "Allow pop-ups for this site to open the printable report",
+        variant: "destructive"
+      });
+      return;
+    }
+    reportWindow.document.write(sessionReportHtml(log));
+    reportWindow.document.close();
+    reportWindow.focus();
+    reportWindow.print();
+  }, [log, toast]);
+
+  return useMemo(() => ({ download, print }), [download, print]);
+}
@@ -0,0 +1,93 @@
+import { useState, useCallback, useEffect, useRef } from "react";
+import { GlossTranslation, SentenceMarkers, noSentenceMarkers, translateGlosses } from "@/lib/recognition/gloss";
+
+export interface Caption extends GlossTranslation {
+  id: string;
+  glosses: string[];
+  markers: SentenceMarkers;
+  timestamp: number;
+}
+
+// Signing pause that ends a sentence
+const sentencePauseMs = 2500;
+
+// Collects committed signs as glosses, turns each pause-delimited run into an
+// English sentence and speaks it through `speak`. Non-manual markers seen
+// during any sign of the sentence apply to the whole sentence.
+export function useSignToSpeech(enabled: boolean, speak: (text: string) => void) {
+  const [pendingGlosses, setPendingGlosses] = useState<string[]>([]);
+  const [captions, setCaptions] = useState<Caption[]>([]);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [isMuted, setIsMuted] = useState(false);
+  const [pendingMarkers, setPendingMarkers] = useState<SentenceMarkers>(noSentenceMarkers);
+  const pendingRef = useRef<string[]>([]);
+  const markersRef = useRef<SentenceMarkers>(noSentenceMarkers);
+  const pauseTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const mutedRef = useRef(isMuted);
+  mutedRef.current = isMuted;
+
+  const flush = useCallback(async () => {
+    clearTimeout(pauseTimerRef.current);
+    const glosses = pendingRef.current;
+    const markers = markersRef.current;
+    if (glosses.length === 0) return;
+
+    pendingRef.current = [];
+    markersRef.current = noSentenceMarkers;
+    setPendingGlosses([]);
+    setPendingMarkers(noSentenceMarkers);
+    setIsTranslating(true);
+
+    const translation = await translateGlosses(glosses, markers);
+    setIsTranslating(false);
+    if (!translation.sentence) return;
+
+    setCaptions(prev => [
+      ...prev.slice(-19),
+      { ...translation, id: Date.now().toString(), glosses, markers, timestamp: Date.now() }
+    ]);
+    if (!mutedRef.current) speak(translation.sentence);
+  }, [speak]);
+
+  const addGloss = useCallback((gloss: string, markers: SentenceMarkers = noSentenceMarkers) => {
+    if (!enabled) return;
+    pendingRef.current = [...pendingRef.current, gloss];
+    setPendingGlosses(pendingRef.current);
+    if ((markers.question && !markersRef.current.question) || (markers.negation && !markersRef.current.negation)) {
+      markersRef.current = {
+        question: markersRef.current.question || markers.question,
+        negation: markersRef.current.negation || markers.negation
+      };
+      setPendingMarkers(markersRef.current);
+    }
+
+    clearTimeout(pauseTimerRef.current);
+    pauseTimerRef.current = setTimeout(flush, sentencePauseMs);
+  }, [enabled, flush]);
+
+  const clear = useCallback(() => {
+    clearTimeout(pauseTimerRef.current);
+    pendingRef.current = [];
+    markersRef.current = noSentenceMarkers;
+    setPendingGlosses([]);
+    setPendingMarkers(noSentenceMarkers);
+    setCaptions([]);
+  }, []);
+
+  useEffect(() => {
+    return () => clearTimeout(pauseTimerRef.current);
+  }, []);
+
+  return {
+    pendingGlosses,
+    pendingMarkers,
+    captions,
+    isTranslating,
+    isMuted,
+    setIsMuted,
+    addGloss,
+    flush,
+    speak,
+    clear
+  };
+}
@@ -0,0 +1,115 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import {
+  SpeechSettings,
+  loadSpeechSettings,
+  maxQueuedUtterances,
+  pickVoice,
+  saveSpeechSettings
+} from "@/lib/recognition/speech";
+
+const isSpeechSupported = typeof window !== "undefined" && "speechSynthesis" in window;
+
+// Text-to-speech with the user's voice settings. Utterances are queued and
+// spoken one at a time, so quick signs never talk over each other.
+export function useSpeech() {
+  const [settings, setSettings] = useState<SpeechSettings>(() => loadSpeechSettings());
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const queueRef = useRef<string[]>([]);
+  const speakingRef = useRef(false);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const voicesRef = useRef(voices);
+  voicesRef.current = voices;
+
+  useEffect(() => {
+    saveSpeechSettings(settings);
+  }, [settings]);
+
+  // Voices load asynchronously in most browsers
+  useEffect(() => {
+    if (!isSpeechSupported) return;
+    const synthesis = window.speechSynthesis;
+    const updateVoices = () => setVoices(synthesis.getVoices());
+    updateVoices();
+    synthesis.addEventListener("voiceschanged", updateVoices);
+    return () => {
+      synthesis.removeEventListener("voiceschanged", updateVoices);
+      queueRef.current = [];
+      synthesis.cancel();
+    };
+  }, []);
+
+  const speakNext = useCallback(function speakNext() {
+    if (speakingRef.current) return;
+    const text = queueRef.current.shift();
+    if (text === undefined) {
+      setIsSpeaking(false);
+      return;
+    }
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    const voice = pickVoice(voicesRef.current, settingsRef.current);
+    if (voice) utterance.voice = voice;
+    utterance.lang = voice?.lang ?? settingsRef.current.lang;
+    utterance.rate = settingsRef.current.rate;
+    const done = () => {
+      if (!speakingRef.current) return;
+      speakingRef.current = false;
+      speakNext();
+    };
+    utterance.onend = done;
+    utterance.onerror = event => {
+      if (event.error !== "canceled" && event.error !== "interrupted") {
+        console.error("Speech synthesis error:", event.error);
+      }
+      done();
+    };
+
+    speakingRef.current = true;
+    setIsSpeaking(true);
+    window.speechSynthesis.speak(utterance);
+  }, []);
+
+  const say = useCallback((text: string) => {
+    if (!isSpeechSupported || !text.trim()) return;
+    // Once the queue is full the oldest waiting utterance gives way
+    queueRef.current = [...queueRef.current, text].slice(-maxQueuedUtterances);
+    speakNext();
+  }, [speakNext]);
+
+  const cancel = useCallback(() => {
+    if (!isSpeechSupported) return;
+    queueRef.current = [];
+    speakingRef.current = false;
+    window.speechSynthesis.cancel();
+    setIsSpeaking(false);
+  }, []);
+
+  const updateSettings = useCallback((changes: Partial<SpeechSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  const setPhrase = useCallback((gesture: string, text: string) => {
+    setSettings(prev => ({ ...prev, phrases: { ...prev.phrases, [gesture]: text } }));
+  }, []);
+
+  const removePhrase = useCallback((gesture: string) => {
+    setSettings(prev => {
+      const { [gesture]: _removed, ...phrases } = prev.phrases;
+      return { ...prev, phrases };
+    });
+  }, []);
+
+  return useMemo(() => ({
+    isSupported: isSpeechSupported,
+    settings,
+    voices,
+    isSpeaking,
+    say,
+    cancel,
+    updateSettings,
+    setPhrase,
+    removePhrase
+  }), [settings, voices, isSpeaking, say, cancel, updateSettings, setPhrase, removePhrase]);
+}
@@ -0,0 +1,28 @@
+import { useState, useCallback, useEffect, useRef } from "react";
+
+// Like useState, but renders at most once per interval with the latest value.
+// Meant for display state that would otherwise be set on every video frame.
+export function useThrottledState<T>(initialValue: T, intervalMs: number) {
+  const [value, setValue] = useState<T>(initialValue);
+  const latestRef = useRef<T>(initialValue);
+  const lastFlushRef = useRef(0);
+  const timerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  const setThrottled = useCallback((next: T) => {
+    latestRef.current = next;
+    if (timerRef.current) return;
+
+    const wait = Math.max(0, lastFlushRef.current + intervalMs - performance.now());
+    timerRef.current = setTimeout(() => {
+      timerRef.current = undefined;
+      lastFlushRef.current = performance.now();
+      setValue(latestRef.current);
+    }, wait);
+  }, [intervalMs]);
+
+  useEffect(() => {
+    return () => clearTimeout(timerRef.current);
+  }, []);
+
+  return [value, setThrottled] as const;
+}
@@ -0,0 +1,37 @@
+import { useState, useCallback, useEffect, useMemo } from "react";
+import {
+  TrajectoryTemplate,
+  builtInTemplates,
+  loadTemplates,
+  saveTemplates
+} from "@/lib/recognition/trajectory";
+
+export function useTrajectoryTemplates() {
+  const [recorded, setRecorded] = useState<TrajectoryTemplate[]>(() => loadTemplates());
+
+  useEffect(() => {
+    saveTemplates(recorded);
+  }, [recorded]);
+
+  const addTemplate = useCallback((template: TrajectoryTemplate) => {
+    setRecorded(prev => [...prev, template]);
+  }, []);
+
+  const removeLabel = useCallback((label: string) => {
+    setRecorded(prev => prev.filter(template => template.label !== label));
+  }, []);
+
+  const replaceLabel = useCallback((label: string, labelTemplates: TrajectoryTemplate[]) => {
+    setRecorded(prev => [...prev.filter(template => template.label !== label), ...labelTemplates]);
+  }, []);
+
+  const templates = useMemo(() => [...builtInTemplates, ...recorded], [recorded]);
+
+  return useMemo(() => ({
+    templates,
+    recorded,
+    addTemplate,
+    removeLabel,
+    replaceLabel
+  }), [templates, recorded, addTemplate, removeLabel, replaceLabel]);
+}
@@ -0,0 +1,234 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import type Webcam from "react-webcam";
+import { useToast } from "@/hooks/use-toast";
+import { useCameraDevices } from "@/hooks/use-camera-devices";
+import { CameraSettings, cameraErrorMessage } from "@/lib/recognition/camera";
+
+export type VideoSource = "camera" | "file";
+
+// One frame ready for recognition, at its recognition time. `markSent` is
+// called once the frame was analyzed, so a paused file is not analyzed twice.
+export interface SourceFrame {
+  video: HTMLVideoElement;
+  time: number;
+  markSent: () => void;
+}
+
+interface VideoSourceOptions {
+  // Recognition must stop: the source went away or is being replaced
+  onStop: () => void;
+  // The stream restarted or the file jumped; per-frame recognition state is stale
+  onRestart: () => void;
+}
+
+// Video files are stepped one frame at a time at this rate, and jumps of more
+// than a second (seeks) restart recognition instead of joining across the cut
+const fileFrameStepSeconds = 1 / 30;
+const maxFileFrameGapMs = 1000;
+
+// The video recognized on the page: the webcam, whose stream the Webcam
+// component opens, or a local video file run through the same pipeline.
+export function useVideoSource({ onStop, onRestart }: VideoSourceOptions) {
+  const camera = useCameraDevices();
+  const { toast } = useToast();
+  const [source, setSource] = useState<VideoSource>("camera");
+  const [isWebcamActive, setIsWebcamActive] = useState(false);
+  // Set after the camera rejected the chosen size or frame rate
+  const [isBasicCamera, setIsBasicCamera] = useState(false);
+  const [cameraTrack, setCameraTrack] = useState<MediaTrackSettings | null>(null);
+  const isCameraStartingRef = useRef(false);
+  const webcamRef = useRef<Webcam>(null);
+  const [videoFile, setVideoFile] = useState<{ name: string; url: string } | null>(null);
+  const videoFileRef = useRef<HTMLVideoElement>(null);
+  const [isVideoPlaying, setIsVideoPlaying] = useState(false);
+  const [videoTime, setVideoTime] = useState(0);
+  const [videoDuration, setVideoDuration] = useState(0);
+  const fileClockRef = useRef({ offset: 0, lastMediaMs: -1, lastTime: 0, lastSentMediaMs: -1 });
+  // Mirroring is display-only; the detector always sees the raw camera image
+  const isPreviewMirrored = source === "camera" && camera.settings.mirrored;
+  const isActive = source === "file" ? Boolean(videoFile) : isWebcamActive;
+
+  // Changing the Webcam constraints swaps cameras in place without reloading the model
+  const startWebcam = useCallback(() => {
+    isCameraStartingRef.current = true;
+    setIsBasicCamera(false);
+    setIsWebcamActive(true);
+  }, []);
+
+  const handleCameraStream = useCallback((stream: MediaStream) => {
+    setCameraTrack(stream.getVideoTracks()[0]?.getSettings() ?? null);
+    // Device labels are only listed once permission is granted
+    camera.refresh();
+    onRestart();
+    if (isCameraStartingRef.current) {
+      isCameraStartingRef.current = false;
+      toast({
+        title: "Camera Started",
+        description: "Point your hands towards the camera to begin recognition"
+      });
+    }
+  }, [camera, onRestart, toast]);
+
+  const handleCameraError = useCallback((error: string | DOMException) => {
+    // Retry once without the size and frame rate before giving up
+    if (!isBasicCamera && typeof error !== "string" && error.name !== "NotAllowedError") {
+      console.log("Trying with basic video constraints...");
+      setIsBasicCamera(true);
+      return;
+    }
+    console.error("Camera access error:", error);
+    isCameraStartingRef.current = false;
+    setIsWebcamActive(false);
+    setCameraTrack(null);
+    onStop();
+    toast({
+      title: "Camera Access Error",
+      description: cameraErrorMessage(error),
+      variant: "destructive"
+    });
+  }, [isBasicCamera, onStop, toast]);
+
+  const { updateSettings } = camera;
+  const updateCameraSettings = useCallback((changes: Partial<CameraSettings>) => {
+    setIsBasicCamera(false);
+    updateSettings(changes);
+  }, [updateSettings]);
+
+  const stopWebcam = useCallback(() => {
+    setIsWebcamActive(false);
+    setCameraTrack(null);
+    onStop();
+  }, [onStop]);
+
+  const loadVideoFile = useCallback((file: File) => {
+    if (!file.type.startsWith("video/")) {
+      toast({
+        title: "Unsupported File",
+        description: "Choose an MP4 or WebM video",
+        variant: "destructive"
+      });
+      return;
+    }
+    onStop();
+    fileClockRef.current = { offset: 0, lastMediaMs: -1, lastTime: performance.now(), lastSentMediaMs: -1 };
+    setVideoFile({ name: file.name, url: URL.createObjectURL(file) });
+    setVideoTime(0);
+    setVideoDuration(0);
+    setIsVideoPlaying(false);
+  }, [onStop, toast]);
+
+  const closeVideoFile = useCallback(() => {
+    setVideoFile(null);
+    setIsVideoPlaying(false);
+    onStop();
+  }, [onStop]);
+
+  const switchSource = useCallback((next: VideoSource) => {
+    if (next === source) return;
+    stopWebcam();
+    closeVideoFile();
+    setSource(next);
+  }, [source, stopWebcam, closeVideoFile]);
+
+  const toggleVideoPlayback = useCallback(() => {
+    const video = videoFileRef.current;
+    if (!video) return;
+    if (video.paused) {
+      video.play().catch(error => console.error("Error playing video:", error));
+    } else {
+      video.pause();
+    }
+  }, []);
+
+  const seekVideo = useCallback((time: number) => {
+    const video = videoFileRef.current;
+    if (!video) return;
+    video.currentTime = time;
+    setVideoTime(time);
+  }, []);
+
+  const stepVideo = useCallback((direction: 1 | -1) => {
+    const video = videoFileRef.current;
+    if (!video) return;
+    video.pause();
+    seekVideo(Math.min(video.duration || 0, Math.max(0, video.currentTime + direction * fileFrameStepSeconds)));
+  }, [seekVideo]);
+
+  useEffect(() => {
+    return () => {
+      if (videoFile) URL.revokeObjectURL(videoFile.url);
+    };
+  }, [videoFile]);
+
+  const getVideo = useCallback(() => {
+    return source === "file" ? videoFileRef.current : webcamRef.current?.video ?? null;
+  }, [source]);
+
+  // Recognition time for a file frame: media time, shifted so it keeps increasing
+  // across seeks. Jumps restart recognition, frame steps do not.
+  const fileFrameTime = useCallback((video: HTMLVideoElement) => {
+    const clock = fileClockRef.current;
+    const mediaMs = video.currentTime * 1000;
+    if (clock.lastMediaMs < 0 || mediaMs < clock.lastMediaMs || mediaMs - clock.lastMediaMs > maxFileFrameGapMs) {
+      onRestart();
+      clock.offset = clock.lastTime + maxFileFrameGapMs - mediaMs;
+    }
+    clock.lastMediaMs = mediaMs;
+    clock.lastTime = clock.offset + mediaMs;
+    return clock.lastTime;
+  }, [onRestart]);
+
+  // The next frame to recognize, or null while the video is not ready or a
+  // paused file still shows an analyzed frame
+  const nextFrame = useCallback((): SourceFrame | null => {
+    const video = getVideo();
+    if (!video || video.readyState < 2) return null;
+    if (source !== "file") return { video, time: performance.now(), markSent: () => {} };
+
+    const mediaMs = video.currentTime * 1000;
+    if (mediaMs === fileClockRef.current.lastSentMediaMs) return null;
+    return {
+      video,
+      time: fileFrameTime(video),
+      markSent: () => {
+        fileClockRef.current.lastSentMediaMs = mediaMs;
+      }
+    };
+  }, [getVideo, source, fileFrameTime]);
+
+  return useMemo(() => ({
+    camera,
+    source,
+    isActive,
+    isWebcamActive,
+    isBasicCamera,
+    cameraTrack,
+    isPreviewMirrored,
+    webcamRef,
+    videoFile,
+    videoFileRef,
+    isVideoPlaying,
+    setIsVideoPlaying,
+    videoTime,
+    setVideoTime,
+    videoDuration,
+    setVideoDuration,
+    startWebcam,
+    handleCameraStream,
+    handleCameraError,
+    updateCameraSettings,
+    stopWebcam,
+    loadVideoFile,
+    closeVideoFile,
+    switchSource,
+    toggleVideoPlayback,
+    seekVideo,
+    stepVideo,
+    getVideo,
+    nextFrame
+  }), [
+    camera, source, isActive, isWebcamActive, isBasicCamera, cameraTrack, isPreviewMirrored, videoFile, isVideoPlaying,
+    videoTime, videoDuration, startWebcam, handleCameraStream, handleCameraError, updateCameraSettings, stopWebcam,
+    loadVideoFile, closeVideoFile, switchSource, toggleVideoPlayback, seekVideo, stepVideo, getVideo, nextFrame
+  ]);
+}
@@ -14,16 +14,72 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      custom_gestures: {
+        Row: {
+          created_at: string
+          feature_length: number
+          id: string
+          label: string
+          owner_id: string
+          samples: Json
+          share_token: string
+          templates: Json
+          updated_at: string
+          visibility: Database["public"]["Enums"]["gesture_visibility"]
+        }
+        Insert: {
+          created_at?: string
+          feature_length: number
+          id?: string
+          label: string
+          owner_id?: string
+          samples?: Json
+          share_token?: string
+          templates?: Json
+          updated_at?: string
+          visibility?: Database["public"]["Enums"]["gesture_visibility"]
+        }
+        Update: {
+          created_at?: string
+          feature_length?: number
+          id?: string
+          label?: string
+          owner_id?: string
+          samples?: Json
+          share_token?: string
+          templates?: Json
+          updated_at?: string
+          visibility?: Database["public"]["Enums"]["gesture_visibility"]
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      get_shared_gestures: {
+        Args: { tokens: string[] }
+        Returns: {
+          created_at: string
+          feature_length: number
+          id: string
+          is_own: boolean
+          label: string
+          samples: Json
+          share_token: string
+          templates: Json
+          updated_at: string
+          visibility: Database["public"]["Enums"]["gesture_visibility"]
+        }[]
+      }
+      touch_custom_gesture: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
     }
     Enums: {
-      [_ in never]: never
+      gesture_visibility: "private" | "link" | "public"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -150,6 +206,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      gesture_visibility: ["private", "link", "public"],
+    },
   },
 } as const
@@ -0,0 +1,113 @@
+// Background removal for frame-difference motion analysis. Masked pixels are
+// blanked to black, so only the signer's own movement produces differences.
+
+export type PreviewEffect = "none" | "blur" | "replace";
+
+export const previewEffects: Array<{ id: PreviewEffect; name: string }> = [
+  { id: "none", name: "Off" },
+  { id: "blur", name: "Blur" },
+  { id: "replace", name: "Replace" }
+];
+
+// Which method removed the background of a motion frame
+export type BackgroundMethod = "segmentation" | "running-average";
+
+// Running-average background estimate, used when person segmentation is unavailable
+export interface BackgroundModel {
+  mean: Float32Array | null;
+  width: number;
+  height: number;
+}
+
+export interface BackgroundModelOptions {
+  // Fraction of the new frame blended into the background per frame
+  learningRate: number;
+  // Grey-level difference from the background that counts as foreground
+  threshold: number;
+}
+
+export const defaultBackgroundModelOptions: BackgroundModelOptions = {
+  learningRate: 0.05,
+  threshold: 25
+};
+
+// Foreground pixels are absorbed into the background this much slower,
+// so a signer who holds still does not disappear immediately
+const foregroundLearningScale = 0.1;
+
+// Person confidence above which a pixel is kept
+const personThreshold = 0.5;
+
+function gray(data: Uint8ClampedArray, offset: number) {
+  return (data[offset] + data[offset + 1] + data[offset + 2]) / 3;
+}
+
+function blankPixel(data: Uint8ClampedArray, offset: number) {
+  data[offset] = 0;
+  data[offset + 1] = 0;
+  data[offset + 2] = 0;
+  data[offset + 3] = 255;
+}
+
+export function createBackgroundModel(): BackgroundModel {
+  return { mean: null, width: 0, height: 0 };
+}
+
+// Updates the model with the frame and returns a copy with the background blanked.
+// The first frame (or a size change) only seeds the model.
+export function subtractBackground(
+  model: BackgroundModel,
+  frame: ImageData,
+  options: BackgroundModelOptions = defaultBackgroundModelOptions
+): ImageData {
+  const pixels = frame.width * frame.height;
+  const output = new ImageData(new Uint8ClampedArray(frame.data), frame.width, frame.height);
+
+  if (!model.mean || model.width !== frame.width || model.height !== frame.height) {
+    model.mean = new Float32Array(pixels);
+    model.width = frame.width;
+    model.height = frame.height;
+    for (let i = 0; i < pixels; i++) {
+      model.mean[i] = gray(frame.data, i * 4);
+      blankPixel(output.data, i * 4);
+    }
+    return output;
+  }
+
+  for (let i = 0; i < pixels; i++) {
+    const value = gray(frame.data, i * 4);
+    const difference = value - model.mean[i];
+    const isForeground = Math.abs(difference) > options.threshold;
+    model.mean[i] += difference * options.learningRate * (isForeground ? foregroundLearningScale : 1);
+    if (!isForeground) blankPixel(output.data, i * 4);
+  }
+
+  return output;
+}
+
+// Blanks every pixel the segmentation mask does not assign to the person.
+// The mask may have a different resolution than the frame.
+export function applyPersonMask(frame: ImageData, mask: Float32Array, maskWidth: number, maskHeight: number): ImageData {
+  const output = new ImageData(new Uint8ClampedArray(frame.data), frame.width, frame.height);
+
+  for (let y = 0; y < frame.height; y++) {
+    const maskY = Math.min(maskHeight - 1, Math.floor((y / frame.height) * maskHeight));
+    for (let x = 0; x < frame.width; x++) {
+      const maskX = Math.min(maskWidth - 1, Math.floor((x / frame.width) * maskWidth));
+      if (mask[maskY * maskWidth + maskX] < personThreshold) {
+        blankPixel(output.data, (y * frame.width + x) * 4);
+      }
+    }
+  }
+
+  return output;
+}
+
+// Turns a person-confidence mask into an alpha-only image for canvas compositing
+export function personMaskToImageData(mask: Float32Array, width: number, height: number): ImageData {
+  const image = new ImageData(width, height);
+  for (let i = 0; i < width * height; i++) {
+    image.data[i * 4 + 3] = Math.round(Math.min(1, Math.max(0, mask[i])) * 255);
+  }
+  return image;
+}
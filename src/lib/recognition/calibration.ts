@@ -0,0 +1,199 @@
+import type { HandFeatures } from "./features";
+import { defaultCommitOptions } from "./commit";
+import { fingerSpread } from "./gesture-definitions";
+
+// Per-user calibration: an open palm and a fist are captured once, and the
+// recognizers scale their thresholds to the user's hand, distance and camera.
+
+export interface CalibrationSample {
+  // Finger extension, thumb → pinky
+  extension: number[];
+  // Summed gaps between adjacent fingertips (index → pinky), palm widths
+  spread: number;
+  // Palm size in frame heights, which shrinks with distance from the camera
+  palmSize: number;
+  // Mean and spread of the frame's luma, 0-255
+  brightness: number;
+  contrast: number;
+}
+
+export interface CalibrationProfile {
+  version: number;
+  createdAt: string;
+  // Per-finger extension threshold, midway between the open palm and the fist
+  extensionThresholds: number[];
+  openSpread: number;
+  palmSize: number;
+  brightness: number;
+  contrast: number;
+  // Analyzed frames per second while calibrating
+  frameRate: number;
+}
+
+export interface CalibrationCheck {
+  label: string;
+  ok: boolean;
+  message: string;
+}
+
+// What the recognizers read from a profile
+export interface CalibrationThresholds {
+  extension: number[];
+  // Multiplies spread limits
+  spreadScale: number;
+  // Multiplies motion-magnitude limits, which grow with the hand's area in the frame
+  motionScale: number;
+  // Commit voting window, in frames
+  commitWindow: number;
+}
+
+export type CalibrationStep = "idle" | "intro" | "open-palm" | "fist" | "review";
+
+export const calibrationProfileVersion = 1;
+
+const CALIBRATION_STORAGE_KEY = "hellenKellerCalibrationProfile";
+
+// The built-in thresholds were tuned for these
+const referenceExtensionThreshold = 0.6;
+const referenceOpenSpread = 1.6;
+const referencePalmSize = 0.12;
+const referenceFrameRate = 30;
+
+// Each pose is captured for this long, once enough hand frames have arrived
+export const calibrationCaptureMs = 2500;
+export const minCalibrationSamples = 10;
+
+export const defaultCalibrationThresholds: CalibrationThresholds = {
+  extension: Array(5).fill(referenceExtensionThreshold),
+  spreadScale: 1,
+  motionScale: 1,
+  commitWindow: defaultCommitOptions.windowSize
+};
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+function mean(values: number[]) {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function median(values: number[]) {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+export function measureLighting(frame: ImageData | undefined) {
+  if (!frame) return { brightness: 0, contrast: 0 };
+  const lumas: number[] = [];
+  for (let i = 0; i < frame.data.length; i += 4) {
+    lumas.push(0.299 * frame.data[i] + 0.587 * frame.data[i + 1] + 0.114 * frame.data[i + 2]);
+  }
+  const brightness = mean(lumas);
+  const contrast = Math.sqrt(mean(lumas.map(luma => (luma - brightness) ** 2)));
+  return { brightness, contrast };
+}
+
+export function calibrationSample(hand: HandFeatures, lighting: { brightness: number; contrast: number }): CalibrationSample {
+  return {
+    extension: [...hand.fingerExtension],
+    spread: fingerSpread(hand),
+    palmSize: hand.palmSize,
+    ...lighting
+  };
+}
+
+// Builds a profile from the two captured poses, with checks to show the user
+export function summarizeCalibration(
+  openPalm: CalibrationSample[],
+  fist: CalibrationSample[],
+  frameRate: number
+): { profile: CalibrationProfile; checks: CalibrationCheck[] } {
+  const all = [...openPalm, ...fist];
+  const openExtension = [0, 1, 2, 3, 4].map(finger => median(openPalm.map(sample => sample.extension[finger])));
+  const fistExtension = [0, 1, 2, 3, 4].map(finger => median(fist.map(sample => sample.extension[finger])));
+
+  const profile: CalibrationProfile = {
+    version: calibrationProfileVersion,
+    createdAt: new Date().toISOString(),
+    extensionThresholds: openExtension.map((open, finger) => clamp((open + fistExtension[finger]) / 2, 0.35, 0.85)),
+    openSpread: median(openPalm.map(sample => sample.spread)),
+    palmSize: median(all.map(sample => sample.palmSize)),
+    brightness: mean(all.map(sample => sample.brightness)),
+    contrast: mean(all.map(sample => sample.contrast)),
+    frameRate
+  };
+
+  const separation = Math.min(...openExtension.slice(1).map((open, index) => open - fistExtension[index + 1]));
+  const checks: CalibrationCheck[] = [
+    {
+      label: "Distance",
+      ok: profile.palmSize >= 0.06 && profile.palmSize <= 0.3,
+      message: profile.palmSize < 0.06
+        ? "Your hand is small in the frame; move closer to the camera"
+        : profile.palmSize > 0.3
+          ? "Your hand fills the frame; move back from the camera"
+          : "Hand size in the frame is good"
+    },
+    {
+      label: "Lighting",
+      ok: profile.brightness >= 60 && profile.brightness <= 210 && profile.contrast >= 20,
+      message: profile.brightness < 60
+        ? "The picture is dark; add light in front of you"
+        : profile.brightness > 210
+          ? "The picture is washed out; reduce light behind the camera"
+          : profile.contrast < 20
+            ? "Low contrast; avoid a background the colour of your skin"
+            : "Lighting is good"
+    },
+    {
+      label: "Frame rate",
+      ok: frameRate >= 15,
+      message: frameRate >= 15
+        ? `${Math.round(frameRate)} frames per second`
+        : `Only ${Math.round(frameRate)} frames per second; close other tabs or lower the resolution`
+    },
+    {
+      label: "Handshapes",
+      ok: separation >= 0.3,
+      message: separation >= 0.3
+        ? "Open palm and fist are clearly different"
+        : "Open palm and fist looked alike; spread your fingers fully and close the fist tightly"
+    }
+  ];
+
+  return { profile, checks };
+}
+
+export function calibrationThresholds(profile: CalibrationProfile | null): CalibrationThresholds {
+  if (!profile) return defaultCalibrationThresholds;
+  return {
+    extension: profile.extensionThresholds,
+    spreadScale: clamp(profile.openSpread / referenceOpenSpread, 0.6, 1.6),
+    motionScale: clamp((profile.palmSize / referencePalmSize) ** 2, 0.25, 4),
+    // Slow cameras get a shorter window so a sign still needs about the same time
+    commitWindow: Math.round(clamp(defaultCommitOptions.windowSize * profile.frameRate / referenceFrameRate, 3, defaultCommitOptions.windowSize))
+  };
+}
+
+export function loadCalibrationProfile(): CalibrationProfile | null {
+  try {
+    const stored = localStorage.getItem(CALIBRATION_STORAGE_KEY);
+    const profile = stored ? JSON.parse(stored) : null;
+    return profile?.version === calibrationProfileVersion ? profile : null;
+  } catch (error) {
+    console.error("Error loading calibration profile:", error);
+    return null;
+  }
+}
+
+export function saveCalibrationProfile(profile: CalibrationProfile | null) {
+  try {
+    if (profile) {
+      localStorage.setItem(CALIBRATION_STORAGE_KEY, JSON.stringify(profile));
+    } else {
+      localStorage.removeItem(CALIBRATION_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error("Error saving calibration profile:", error);
+  }
+}
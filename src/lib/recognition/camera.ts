@@ -0,0 +1,88 @@
+// Camera selection and capture settings. Mirroring only affects the preview:
+// frames always reach the detector as the camera captured them, so landmark
+// coordinates and handedness do not change with the toggle.
+
+export type ResolutionPreset = "480p" | "720p" | "1080p";
+
+export interface CameraSettings {
+  // null uses the browser's default front camera
+  deviceId: string | null;
+  mirrored: boolean;
+  resolution: ResolutionPreset;
+  frameRate: number;
+}
+
+export const resolutionPresets: Record<ResolutionPreset, { name: string; width: number; height: number }> = {
+  "480p": { name: "640 × 480", width: 640, height: 480 },
+  "720p": { name: "1280 × 720", width: 1280, height: 720 },
+  "1080p": { name: "1920 × 1080", width: 1920, height: 1080 }
+};
+
+export const frameRatePresets = [15, 30, 60];
+
+export const defaultCameraSettings: CameraSettings = {
+  deviceId: null,
+  mirrored: false,
+  resolution: "720p",
+  frameRate: 30
+};
+
+const CAMERA_STORAGE_KEY = "hellenKellerCameraSettings";
+
+// `basic` drops the size and rate requests after a camera rejected them
+export function cameraConstraints(settings: CameraSettings, basic = false): MediaTrackConstraints {
+  const source: MediaTrackConstraints = settings.deviceId
+    ? { deviceId: { exact: settings.deviceId } }
+    : { facingMode: "user" };
+  if (basic) return source;
+
+  const { width, height } = resolutionPresets[settings.resolution];
+  return {
+    ...source,
+    width: { ideal: width },
+    height: { ideal: height },
+    frameRate: { ideal: settings.frameRate }
+  };
+}
+
+// Labels stay empty until camera permission has been granted
+export function cameraName(device: MediaDeviceInfo, index: number): string {
+  return device.label || `Camera ${index + 1}`;
+}
+
+// react-webcam reports a missing getUserMedia as a plain string
+export function cameraErrorMessage(error: string | DOMException): string {
+  if (typeof error === "string") return "Camera not supported in this browser.";
+  switch (error.name) {
+    case "NotFoundError":
+      return "No camera found. Please connect a camera and try again.";
+    case "NotAllowedError":
+      return "Camera access denied. Please allow camera access in your browser settings.";
+    case "NotReadableError":
+      return "The camera is in use by another application.";
+    case "OverconstrainedError":
+      return "The selected camera is not available.";
+    case "NotSupportedError":
+      return "Camera not supported in this browser.";
+    default:
+      return "Please allow camera access to use hand recognition";
+  }
+}
+
+export function loadCameraSettings(): CameraSettings {
+  try {
+    const stored = localStorage.getItem(CAMERA_STORAGE_KEY);
+    return stored ? { ...defaultCameraSettings, ...JSON.parse(stored) } : defaultCameraSettings;
+  } catch (error) {
+    console.error("Error loading camera settings:", error);
+    return defaultCameraSettings;
+  }
+}
+
+export function saveCameraSettings(settings: CameraSettings) {
+  try {
+    localStorage.setItem(CAMERA_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Error saving camera settings:", error);
+  }
+}
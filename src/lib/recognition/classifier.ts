@@ -0,0 +1,130 @@
+import { featureVectorLength } from "./features";
+import { twoHandVectorLength } from "./two-hand";
+
+export interface LabeledSample {
+  label: string;
+  vector: number[];
+  createdAt: number;
+}
+
+export interface ClassifierOptions {
+  k: number;
+  // Samples further than this (RMS distance over the feature vector) count as "no match"
+  rejectDistance: number;
+}
+
+export interface ClassificationResult {
+  gesture: string;
+  confidence: number;
+  probabilities: Record<string, number>;
+}
+
+export const defaultClassifierOptions: ClassifierOptions = {
+  k: 5,
+  rejectDistance: 0.3
+};
+
+const SAMPLES_STORAGE_KEY = "hellenKellerGestureSamples";
+
+function rmsDistance(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  let sum = 0;
+  for (let i = 0; i < length; i++) {
+    const diff = a[i] - b[i];
+    sum += diff * diff;
+  }
+  return Math.sqrt(sum / (length || 1));
+}
+
+// Distance-weighted k-nearest-neighbour vote. Every label in `labels` and every
+// label seen in the samples gets an entry in the returned distribution. Only
+// samples of the same layout (one-handed or two-handed) are compared.
+export function classifyVector(
+  allSamples: LabeledSample[],
+  vector: number[],
+  labels: string[],
+  options: ClassifierOptions = defaultClassifierOptions
+): ClassificationResult | null {
+  const samples = allSamples.filter(sample => sample.vector.length === vector.length);
+  if (samples.length === 0) return null;
+
+  const neighbours = samples
+    .map(sample => ({ label: sample.label, distance: rmsDistance(sample.vector, vector) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, options.k);
+
+  if (neighbours[0].distance > options.rejectDistance) return null;
+
+  const allLabels = Array.from(new Set([...labels, ...samples.map(sample => sample.label)]));
+  const weights: Record<string, number> = {};
+  // Small additive smoothing keeps unseen labels at a non-zero probability
+  const smoothing = 1e-3;
+  for (const label of allLabels) weights[label] = smoothing;
+
+  for (const neighbour of neighbours) {
+    if (neighbour.distance > options.rejectDistance) continue;
+    weights[neighbour.label] += 1 / (neighbour.distance + 1e-3);
+  }
+
+  const total = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+  const probabilities: Record<string, number> = {};
+  let best = allLabels[0];
+  for (const label of allLabels) {
+    probabilities[label] = weights[label] / total;
+    if (probabilities[label] > probabilities[best]) best = label;
+  }
+
+  return {
+    gesture: best,
+    confidence: Math.round(probabilities[best] * 100),
+    probabilities
+  };
+}
+
+// Renormalizes a result over a subset of labels, e.g. letters while fingerspelling
+export function restrictToLabels(result: ClassificationResult | null, labels: string[]): ClassificationResult | null {
+  if (!result) return null;
+
+  const entries = Object.entries(result.probabilities).filter(([label]) => labels.includes(label));
+  const total = entries.reduce((sum, [, probability]) => sum + probability, 0);
+  if (entries.length === 0 || total === 0) return null;
+
+  const probabilities: Record<string, number> = {};
+  let best = entries[0][0];
+  for (const [label, probability] of entries) {
+    probabilities[label] = probability / total;
+    if (probabilities[label] > probabilities[best]) best = label;
+  }
+
+  return { gesture: best, confidence: Math.round(probabilities[best] * 100), probabilities };
+}
+
+export function countSamplesByLabel(samples: LabeledSample[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const sample of samples) {
+    counts[sample.label] = (counts[sample.label] || 0) + 1;
+  }
+  return counts;
+}
+
+export function loadSamples(): LabeledSample[] {
+  try {
+    const stored = localStorage.getItem(SAMPLES_STORAGE_KEY);
+    const samples: LabeledSample[] = stored ? JSON.parse(stored) : [];
+    // Samples recorded with an older feature layout cannot be compared
+    return samples.filter(sample =>
+      sample.vector.length === featureVectorLength || sample.vector.length === twoHandVectorLength
+    );
+  } catch (error) {
+    console.error("Error loading gesture samples:", error);
+    return [];
+  }
+}
+
+export function saveSamples(samples: LabeledSample[]) {
+  try {
+    localStorage.setItem(SAMPLES_STORAGE_KEY, JSON.stringify(samples));
+  } catch (error) {
+    console.error("Error saving gesture samples:", error);
+  }
+}
@@ -0,0 +1,137 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+import type { LabeledSample } from "./classifier";
+import { featureVectorLength } from "./features";
+import type { TrajectoryTemplate } from "./trajectory";
+import { twoHandVectorLength } from "./two-hand";
+
+// Custom gestures stored in Supabase: each row holds one label's k-NN samples
+// and movement templates. Users are signed in anonymously on first use so
+// every gesture has an owner without a sign-up form.
+
+export type GestureVisibility = Database["public"]["Enums"]["gesture_visibility"];
+
+type CustomGestureRow = Database["public"]["Tables"]["custom_gestures"]["Row"];
+// Shared gestures come without their owner's id
+type GestureRow = Omit<CustomGestureRow, "owner_id">;
+
+export interface CloudGesture {
+  id: string;
+  label: string;
+  visibility: GestureVisibility;
+  shareToken: string;
+  isOwn: boolean;
+  samples: LabeledSample[];
+  templates: TrajectoryTemplate[];
+  updatedAt: string;
+}
+
+export const gestureVisibilityNames: Record<GestureVisibility, string> = {
+  private: "Private",
+  link: "Anyone with the link",
+  public: "Public"
+};
+
+// Query parameter carrying shared gesture tokens, comma-separated
+export const shareParam = "gestures";
+
+async function currentUserId(): Promise<string> {
+  const { data } = await supabase.auth.getSession();
+  if (data.session) return data.session.user.id;
+
+  const { data: signIn, error } = await supabase.auth.signInAnonymously();
+  if (error || !signIn.user) {
+    throw new Error(`Could not sign in to the gesture library: ${error?.message ?? "no user returned"}`);
+  }
+  return signIn.user.id;
+}
+
+// Samples recorded with another feature layout cannot be compared and are dropped
+function rowToGesture(row: GestureRow, isOwn: boolean): CloudGesture {
+  const compatible = row.feature_length === featureVectorLength;
+  const samples = compatible && Array.isArray(row.samples) ? row.samples as unknown as Array<Omit<LabeledSample, "label">> : [];
+  const templates = Array.isArray(row.templates) ? row.templates as unknown as Array<Omit<TrajectoryTemplate, "label">> : [];
+  return {
+    id: row.id,
+    label: row.label,
+    visibility: row.visibility,
+    shareToken: row.share_token,
+    isOwn,
+    samples: samples
+      .filter(sample => Array.isArray(sample.vector) &&
+        (sample.vector.length === featureVectorLength || sample.vector.length === twoHandVectorLength))
+      .map(sample => ({ label: row.label, vector: sample.vector, createdAt: sample.createdAt ?? 0 })),
+    templates: templates
+      .filter(template => Array.isArray(template.points) && template.points.length > 1)
+      .map(template => ({ label: row.label, points: template.points, createdAt: template.createdAt ?? 0 })),
+    updatedAt: row.updated_at
+  };
+}
+
+// The user's own gestures followed by everyone's public ones
+export async function fetchCloudGestures(): Promise<CloudGesture[]> {
+  const userId = await currentUserId();
+  const { data, error } = await supabase
+    .from("custom_gestures")
+    .select("*")
+    .order("updated_at", { ascending: false });
+  if (error) throw new Error(`Could not load the gesture library: ${error.message}`);
+  return data
+    .map(row => rowToGesture(row, row.owner_id === userId))
+    .sort((a, b) => Number(b.isOwn) - Number(a.isOwn));
+}
+
+// Creates or replaces the user's gesture with this label
+export async function uploadCloudGesture(
+  label: string,
+  samples: LabeledSample[],
+  templates: TrajectoryTemplate[],
+  visibility: GestureVisibility
+): Promise<CloudGesture> {
+  const userId = await currentUserId();
+  const { data, error } = await supabase
+    .from("custom_gestures")
+    .upsert({
+      owner_id: userId,
+      label,
+      samples: samples.map(({ vector, createdAt }) => ({ vector, createdAt })) as unknown as Json,
+      templates: templates.map(({ points, createdAt }) => ({ points, createdAt })) as unknown as Json,
+      feature_length: featureVectorLength,
+      visibility
+    }, { onConflict: "owner_id,label" })
+    .select()
+    .single();
+  if (error) throw new Error(`Could not save "${label}": ${error.message}`);
+  return rowToGesture(data, true);
+}
+
+export async function setCloudGestureVisibility(id: string, visibility: GestureVisibility) {
+  const { error } = await supabase.from("custom_gestures").update({ visibility }).eq("id", id);
+  if (error) throw new Error(`Could not change sharing: ${error.message}`);
+}
+
+export async function deleteCloudGesture(id: string) {
+  const { error } = await supabase.from("custom_gestures").delete().eq("id", id);
+  if (error) throw new Error(`Could not delete the gesture: ${error.message}`);
+}
+
+// Link-shared and public gestures, by share token; no sign-in needed
+export async function fetchSharedGestures(tokens: string[]): Promise<CloudGesture[]> {
+  const { data, error } = await supabase.rpc("get_shared_gestures", { tokens });
+  if (error) throw new Error(`Could not load the shared gestures: ${error.message}`);
+  if (!data || data.length === 0) throw new Error("The shared gestures were not found or are no longer shared");
+  return data.map(row => rowToGesture(row, row.is_own));
+}
+
+export function gestureShareLink(gestures: CloudGesture[]): string {
+  const url = new URL(window.location.href);
+  url.search = "";
+  url.hash = "";
+  url.searchParams.set(shareParam, gestures.map(gesture => gesture.shareToken).join(","));
+  return url.toString();
+}
+
+export function parseShareTokens(search: string): string[] {
+  const value = new URLSearchParams(search).get(shareParam) ?? "";
+  return value.split(",").map(token => token.trim()).filter(token => /^[0-9a-f-]{36}$/i.test(token));
+}
@@ -0,0 +1,119 @@
+// Gesture commands: committed gestures bound to app actions. A bound gesture
+// only arms its command; the confirmation gesture must follow within the
+// timeout before it runs, so a stray sign never triggers anything.
+
+export type AppCommand =
+  | "go-back"
+  | "toggle-recording"
+  | "speak-last"
+  | "tab-translate"
+  | "tab-image"
+  | "tab-chatbot"
+  | "tab-camera";
+
+// The Translation Hub tabs a command can open
+export type TranslationTab = "translate" | "image" | "chatbot" | "camera";
+
+export interface CommandBinding {
+  gesture: string;
+  command: AppCommand;
+}
+
+export interface CommandSettings {
+  enabled: boolean;
+  confirmGesture: string;
+  confirmTimeoutMs: number;
+  bindings: CommandBinding[];
+}
+
+export interface CommandState {
+  pending: { command: AppCommand; gesture: string; armedAt: number } | null;
+}
+
+export type CommandEvent =
+  | { type: "armed"; command: AppCommand }
+  | { type: "confirmed"; command: AppCommand }
+  | { type: "cancelled"; command: AppCommand };
+
+export const appCommandNames: Record<AppCommand, string> = {
+  "go-back": "Go back",
+  "toggle-recording": "Start or stop recognition",
+  "speak-last": "Speak the last translation",
+  "tab-translate": "Open Text Translation",
+  "tab-image": "Open Image Recognition",
+  "tab-chatbot": "Open ISL Chatbot",
+  "tab-camera": "Open Live Camera"
+};
+
+export const commandTabs: Partial<Record<AppCommand, TranslationTab>> = {
+  "tab-translate": "translate",
+  "tab-image": "image",
+  "tab-chatbot": "chatbot",
+  "tab-camera": "camera"
+};
+
+export const defaultCommandSettings: CommandSettings = {
+  enabled: false,
+  confirmGesture: "Thumbs Up",
+  confirmTimeoutMs: 4000,
+  bindings: [
+    { gesture: "Swipe Left", command: "go-back" },
+    { gesture: "Swipe Right", command: "speak-last" },
+    { gesture: "Pinch", command: "toggle-recording" }
+  ]
+};
+
+const COMMANDS_STORAGE_KEY = "hellenKellerCommandBindings";
+
+export function createCommandState(): CommandState {
+  return { pending: null };
+}
+
+// Feeds one committed gesture. `consumed` gestures are commands or their
+// confirmation and should not also be treated as signs.
+export function stepCommandState(
+  state: CommandState,
+  gesture: string,
+  time: number,
+  settings: CommandSettings
+): { state: CommandState; event: CommandEvent | null; consumed: boolean } {
+  const pending = state.pending && time - state.pending.armedAt <= settings.confirmTimeoutMs ? state.pending : null;
+
+  if (pending && gesture === settings.confirmGesture) {
+    return { state: createCommandState(), event: { type: "confirmed", command: pending.command }, consumed: true };
+  }
+
+  const binding = settings.bindings.find(candidate => candidate.gesture === gesture);
+  if (binding) {
+    return {
+      state: { pending: { command: binding.command, gesture, armedAt: time } },
+      event: { type: "armed", command: binding.command },
+      consumed: true
+    };
+  }
+
+  // Any other sign while armed cancels the command
+  return {
+    state: createCommandState(),
+    event: pending ? { type: "cancelled", command: pending.command } : null,
+    consumed: false
+  };
+}
+
+export function loadCommandSettings(): CommandSettings {
+  try {
+    const stored = localStorage.getItem(COMMANDS_STORAGE_KEY);
+    return stored ? { ...defaultCommandSettings, ...JSON.parse(stored) } : defaultCommandSettings;
+  } catch (error) {
+    console.error("Error loading command bindings:", error);
+    return defaultCommandSettings;
+  }
+}
+
+export function saveCommandSettings(settings: CommandSettings) {
+  try {
+    localStorage.setItem(COMMANDS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Error saving command bindings:", error);
+  }
+}
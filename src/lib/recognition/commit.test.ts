@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { CommitEvent, CommitPhase, CommitState, createCommitState, stepCommitState } from "./commit";
+
+// One observation every 50 ms, continuing from `start`
+function observe(gesture: string | null, confidence: number, count: number, start: number) {
+  return Array.from({ length: count }, (_, index) => ({ gesture, confidence, time: start + index * 50 }));
+}
+
+function run(observations: ReturnType<typeof observe>, initial: CommitState = createCommitState()) {
+  let state = initial;
+  const events: CommitEvent[] = [];
+  const phases: CommitPhase[] = [];
+  for (const observation of observations) {
+    const step = stepCommitState(state, observation);
+    state = step.state;
+    events.push(...step.events);
+    phases.push(state.phase);
+  }
+  return { state, events, phases };
+}
+
+describe("stepCommitState", () => {
+  it("commits a held sign once, after it wins the vote for the dwell time", () => {
+    const { state, events, phases } = run(observe("HELLO", 80, 20, 0));
+    expect(phases.slice(0, 5)).toEqual(["candidate", "candidate", "candidate", "candidate", "held"]);
+    expect(phases[12]).toBe("committed");
+    expect(events).toEqual([{ type: "commit", gesture: "HELLO", confidence: 80, startedAt: 0, time: 600 }]);
+    expect(state.phase).toBe("committed");
+  });
+
+  it("releases a committed sign once it has been gone for the release time", () => {
+    const committed = run(observe("HELLO", 80, 20, 0)).state;
+    const { events, phases } = run(observe(null, 0, 10, 1000), committed);
+    expect(events.map(({ type, gesture, time }) => ({ type, gesture, time }))).toEqual([
+      { type: "release", gesture: "HELLO", time: 1400 }
+    ]);
+    expect(phases.slice(-2)).toEqual(["released", "idle"]);
+  });
+
+  it("never commits a sign shorter than the dwell time", () => {
+    const { events, phases } = run([...observe("HELLO", 80, 6, 0), ...observe(null, 0, 10, 300)]);
+    expect(phases).toContain("held");
+    expect(events).toEqual([]);
+    expect(phases[phases.length - 1]).toBe("idle");
+  });
+
+  it("ignores frames below the entry confidence", () => {
+    const { events, phases } = run(observe("HELLO", 60, 20, 0));
+    expect(events).toEqual([]);
+    expect(new Set(phases)).toEqual(new Set(["idle"]));
+  });
+
+  it("keeps a committed sign alive down to the exit confidence", () => {
+    const committed = run(observe("HELLO", 80, 13, 0)).state;
+    const { events, state } = run(observe("HELLO", 55, 20, 650), committed);
+    expect(events).toEqual([]);
+    expect(state.phase).toBe("committed");
+  });
+
+  it("hands over straight to a different sign", () => {
+    const { events } = run([...observe("HELLO", 80, 13, 0), ...observe("THANK YOU", 90, 30, 650)]);
+    expect(events.map(({ type, gesture }) => `${type} ${gesture}`)).toEqual(["commit HELLO", "release HELLO", "commit THANK YOU"]);
+    const [, release, commit] = events;
+    expect(commit.startedAt).toBeGreaterThanOrEqual(release.time);
+  });
+});
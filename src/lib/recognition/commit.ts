@@ -0,0 +1,163 @@
+// Turns noisy per-frame recognitions into discrete signs:
+// idle → candidate → held → committed → released → idle.
+// A sign is committed exactly once, after it has won the majority vote over
+// the sliding window for `dwellMs`, and is released once it has been absent
+// for `releaseMs`.
+
+export type CommitPhase = "idle" | "candidate" | "held" | "committed" | "released";
+
+export interface CommitOptions {
+  // Number of recent frames that vote
+  windowSize: number;
+  // Fraction of the window a label needs to win the vote
+  voteRatio: number;
+  // How long a label must keep the majority before it is committed
+  dwellMs: number;
+  // How long a committed label may be absent before it is released
+  releaseMs: number;
+  // Hysteresis: frames need `enterConfidence` to start a sign, but only
+  // `exitConfidence` to keep an already committed one alive
+  enterConfidence: number;
+  exitConfidence: number;
+}
+
+export interface Observation {
+  gesture: string | null;
+  confidence: number;
+  time: number;
+}
+
+export interface CommitState {
+  phase: CommitPhase;
+  window: Observation[];
+  label: string | null;
+  phaseSince: number;
+  startedAt: number;
+  lastSeen: number;
+}
+
+export interface CommitEvent {
+  type: "commit" | "release";
+  gesture: string;
+  confidence: number;
+  startedAt: number;
+  time: number;
+}
+
+export const defaultCommitOptions: CommitOptions = {
+  windowSize: 8,
+  voteRatio: 0.6,
+  dwellMs: 400,
+  releaseMs: 300,
+  enterConfidence: 70,
+  exitConfidence: 50
+};
+
+export function createCommitState(): CommitState {
+  return { phase: "idle", window: [], label: null, phaseSince: 0, startedAt: 0, lastSeen: 0 };
+}
+
+function vote(window: Observation[], options: CommitOptions, stickyLabel: string | null) {
+  const counts: Record<string, number> = {};
+  for (const observation of window) {
+    if (!observation.gesture) continue;
+    const threshold = observation.gesture === stickyLabel ? options.exitConfidence : options.enterConfidence;
+    if (observation.confidence < threshold) continue;
+    counts[observation.gesture] = (counts[observation.gesture] || 0) + 1;
+  }
+
+  let winner: string | null = null;
+  for (const [label, count] of Object.entries(counts)) {
+    if (!winner || count > counts[winner]) winner = label;
+  }
+
+  const needed = Math.ceil(options.windowSize * options.voteRatio);
+  return winner && counts[winner] >= needed ? winner : null;
+}
+
+function averageConfidence(window: Observation[], label: string): number {
+  const matching = window.filter(observation => observation.gesture === label);
+  if (matching.length === 0) return 0;
+  return Math.round(matching.reduce((sum, observation) => sum + observation.confidence, 0) / matching.length);
+}
+
+export function stepCommitState(
+  state: CommitState,
+  observation: Observation,
+  options: CommitOptions = defaultCommitOptions
+): { state: CommitState; events: CommitEvent[] } {
+  const time = observation.time;
+  const window = [...state.window, observation].slice(-options.windowSize);
+  const sticky = state.phase === "committed" ? state.label : null;
+  const winner = vote(window, options, sticky);
+  const events: CommitEvent[] = [];
+  let next: CommitState = { ...state, window };
+
+  const enter = (phase: CommitPhase, label: string | null) => {
+    next = { ...next, phase, label, phaseSince: time };
+  };
+
+  switch (state.phase) {
+    case "idle":
+    case "released":
+      if (winner) {
+        enter("held", winner);
+        next.startedAt = time;
+      } else if (observation.gesture && observation.confidence >= options.enterConfidence) {
+        enter("candidate", observation.gesture);
+        next.startedAt = time;
+      } else if (state.phase === "released") {
+        enter("idle", null);
+      }
+      break;
+
+    case "candidate":
+      if (winner) {
+        enter("held", winner);
+        if (winner !== state.label) next.startedAt = time;
+      } else if (!window.some(o => o.gesture && o.confidence >= options.enterConfidence)) {
+        enter("idle", null);
+      }
+      break;
+
+    case "held":
+      if (winner !== state.label) {
+        if (winner) {
+          enter("held", winner);
+          next.startedAt = time;
+        } else {
+          enter("candidate", state.label);
+        }
+      } else if (time - state.phaseSince >= options.dwellMs) {
+        enter("committed", state.label);
+        next.lastSeen = time;
+        events.push({
+          type: "commit",
+          gesture: state.label,
+          confidence: averageConfidence(window, state.label),
+          startedAt: state.startedAt,
+          time
+        });
+      }
+      break;
+
+    case "committed":
+      if (winner === state.label) {
+        next.lastSeen = time;
+      } else if (time - state.lastSeen >= options.releaseMs) {
+        events.push({
+          type: "release",
+          gesture: state.label,
+          confidence: averageConfidence(state.window, state.label),
+          startedAt: state.startedAt,
+          time
+        });
+        enter("released", null);
+        // A different sign can take over straight away
+        next.window = winner ? window : [];
+      }
+      break;
+  }
+
+  return { state: next, events };
+}
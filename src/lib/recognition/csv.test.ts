@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { csvField, csvRow, csvText, parseCsvLine } from "./csv";
+
+describe("csvField", () => {
+  it("writes plain text and numbers as they are", () => {
+    expect(csvField("Hello")).toBe("Hello");
+    expect(csvField(42)).toBe("42");
+    expect(csvField(-0.25)).toBe("-0.25");
+  });
+
+  it("quotes fields with commas, quotes or newlines", () => {
+    expect(csvField("Hello, world")).toBe('"Hello, world"');
+    expect(csvField('say "hi"')).toBe('"say ""hi"""');
+    expect(csvField("two\nlines")).toBe('"two\nlines"');
+  });
+
+  it("prefixes text a spreadsheet would run as a formula", () => {
+    expect(csvField("=HYPERLINK(\"http://example.com\")")).toBe("\"'=HYPERLINK(\"\"http://example.com\"\")\"");
+    expect(csvField("+1")).toBe("'+1");
+    expect(csvField("-1")).toBe("'-1");
+    expect(csvField("@SUM(A1)")).toBe("'@SUM(A1)");
+    expect(csvField("\tTab")).toBe("'\tTab");
+    expect(csvField("\rReturn")).toBe("'\rReturn");
+  });
+});
+
+describe("csvText", () => {
+  it("removes the formula guard and nothing else", () => {
+    expect(csvText("'=1+1")).toBe("=1+1");
+    expect(csvText("'-1")).toBe("-1");
+    expect(csvText("'quoted'")).toBe("'quoted'");
+    expect(csvText("plain")).toBe("plain");
+  });
+});
+
+describe("parseCsvLine", () => {
+  it("splits fields and keeps empty ones", () => {
+    expect(parseCsvLine("a,,c,")).toEqual(["a", "", "c", ""]);
+  });
+
+  it("reads quoted fields with commas and escaped quotes", () => {
+    expect(parseCsvLine('"a, b","say ""hi""",c')).toEqual(["a, b", 'say "hi"', "c"]);
+  });
+
+  it("reads back every row csvRow writes", () => {
+    const values = ["Hello, world", 'say "hi"', "=1+1", "-dash", "@user", "'apostrophe", "plain"];
+    expect(parseCsvLine(csvRow(values)).map(csvText)).toEqual(values);
+    expect(parseCsvLine(csvRow([1, -2.5, 0]))).toEqual(["1", "-2.5", "0"]);
+  });
+});
@@ -0,0 +1,49 @@
+// CSV fields shared by the session log and dataset exports. Text that a
+// spreadsheet would run as a formula (=, +, -, @, tab or carriage return
+// first) is prefixed with an apostrophe; numbers are written as they are.
+
+const formulaStart = /^[=+\-@\t\r]/;
+
+export function csvField(value: string | number) {
+  let text = String(value);
+  if (typeof value === "string" && formulaStart.test(text)) text = `'${text}`;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function csvRow(values: Array<string | number>) {
+  return values.map(csvField).join(",");
+}
+
+// Undoes the formula guard added by csvField
+export function csvText(field: string) {
+  return field.startsWith("'") && formulaStart.test(field.slice(1)) ? field.slice(1) : field;
+}
+
+// Splits one CSV line, honouring quoted fields
+export function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
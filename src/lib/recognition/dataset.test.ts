@@ -0,0 +1,77 @@
+import { readFileSync } from "fs";
+import { describe, expect, it } from "vitest";
+import { DatasetSample, parseDataset, serializeDataset } from "./dataset";
+import { LandmarkFrame, parseSession } from "./session";
+
+// Real landmarks from the recorded session fixture, at whole-millisecond times
+const frames: LandmarkFrame[] = parseSession(
+  readFileSync(new URL("./__fixtures__/four-frames.session.ndjson", import.meta.url), "utf-8")
+).frames.map(frame => ({ ...frame, time: Math.round(frame.time) }));
+
+const samples: DatasetSample[] = [
+  {
+    id: "static-1",
+    label: "HELLO",
+    kind: "static",
+    createdAt: "2026-10-19T12:00:00.000Z",
+    dominantHand: "Right",
+    frames: [{ ...frames[0], time: 0 }]
+  },
+  {
+    // A sequence with a two-handed frame and a frame without hands
+    id: "sequence-1",
+    label: "=WAVE, \"hi\"",
+    kind: "sequence",
+    createdAt: "2026-10-19T12:00:05.000Z",
+    dominantHand: "Left",
+    frames
+  }
+];
+
+// CSV keeps no world landmarks
+const withoutWorldLandmarks = (sample: DatasetSample): DatasetSample => ({
+  ...sample,
+  frames: sample.frames.map(frame => ({
+    ...frame,
+    hands: frame.hands.map(hand => ({ ...hand, worldLandmarks: [] }))
+  }))
+});
+
+describe("parseDataset", () => {
+  it("reads back the CSV it writes", () => {
+    const csv = serializeDataset(samples, "csv");
+    expect(parseDataset(csv)).toEqual(samples.map(withoutWorldLandmarks));
+  });
+
+  it("keeps frames without hands in CSV sequences", () => {
+    const [, sequence] = parseDataset(serializeDataset(samples, "csv"));
+    expect(sequence.frames.map(frame => frame.hands.length)).toEqual([1, 1, 2, 0]);
+    expect(sequence.frames.map(frame => frame.time)).toEqual([0, 67, 133, 200]);
+  });
+
+  it("reads back the JSON it writes", () => {
+    expect(parseDataset(serializeDataset(samples, "json"))).toEqual(samples);
+  });
+
+  it("rejects files that are not datasets", () => {
+    expect(() => parseDataset(" ")).toThrow("empty");
+    expect(() => parseDataset("{ not json")).toThrow("not valid JSON");
+    expect(() => parseDataset(JSON.stringify({ format: "something-else" }))).toThrow("not a landmark dataset");
+    expect(() => parseDataset("name,value\nHELLO,1\n")).toThrow("not a landmark dataset");
+  });
+
+  it("rejects newer versions in either format", () => {
+    const json = JSON.parse(serializeDataset(samples, "json"));
+    expect(() => parseDataset(JSON.stringify({ ...json, version: 2 }))).toThrow("Unsupported dataset version 2");
+
+    const [header, ...rows] = serializeDataset(samples, "csv").split("\n");
+    const newer = [header, ...rows.map(row => row.replace(/^1,/, "2,"))].join("\n");
+    expect(() => parseDataset(newer)).toThrow("Unsupported dataset version 2");
+  });
+
+  it("rejects CSV rows with missing landmark coordinates", () => {
+    const [header, row] = serializeDataset([samples[0]], "csv").split("\n");
+    const truncated = row.split(",").slice(0, -30).join(",");
+    expect(() => parseDataset(`${header}\n${truncated}\n`)).toThrow("Sample static-1 has a malformed landmark row");
+  });
+});
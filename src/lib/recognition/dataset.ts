@@ -0,0 +1,282 @@
+import type { Handedness, Landmark } from "./features";
+import type { LandmarkFrame, RecordedHand } from "./session";
+import { csvRow, csvText, parseCsvLine } from "./csv";
+
+// Labeled landmark datasets for training: single-frame samples for static
+// signs and short sequences for movement signs. Samples keep the raw
+// MediaPipe hand landmarks so any feature extractor can be run on them later.
+
+export const datasetFormat = "hellen-keller-landmark-dataset";
+export const datasetFormatVersion = 1;
+
+export type DatasetFileFormat = "json" | "csv";
+
+export type SampleKind = "static" | "sequence";
+
+export interface DatasetSample {
+  id: string;
+  label: string;
+  kind: SampleKind;
+  createdAt: string;
+  dominantHand: Handedness;
+  // Hand landmarks only; times are milliseconds from the sample's first frame
+  frames: LandmarkFrame[];
+}
+
+export interface DatasetFile {
+  format: typeof datasetFormat;
+  version: number;
+  exportedAt: string;
+  // Whether frames were mirrored before detection (handedness is MediaPipe's own label)
+  mirroredInput: boolean;
+  labels: string[];
+  samples: DatasetSample[];
+}
+
+export interface CaptureSettings {
+  label: string;
+  kind: SampleKind;
+  count: number;
+  countdownMs: number;
+  // Length of each sequence sample
+  sequenceMs: number;
+}
+
+export type CapturePhase = "countdown" | "recording" | "rest" | "done";
+
+export interface CaptureState {
+  phase: CapturePhase;
+  phaseStartedAt: number | null;
+  captured: number;
+  // Sequences dropped because the hand was out of view too often
+  discarded: number;
+  frames: LandmarkFrame[];
+}
+
+export const defaultCaptureSettings: CaptureSettings = {
+  label: "",
+  kind: "static",
+  count: 20,
+  countdownMs: 3000,
+  sequenceMs: 1500
+};
+
+export const captureCountPresets = [5, 10, 20, 50];
+export const sequenceLengthPresets = [1000, 1500, 2000, 3000];
+
+// Pause between samples: short for static poses, long enough to reset the
+// hands between sequences
+const staticRestMs = 200;
+const sequenceRestMs = 1000;
+
+// A sequence is kept only if a hand is visible in this share of its frames
+const minSequenceHandCoverage = 0.6;
+
+export function createCaptureState(): CaptureState {
+  return { phase: "countdown", phaseStartedAt: null, captured: 0, discarded: 0, frames: [] };
+}
+
+function nextPhase(time: number, settings: CaptureSettings, captured: number, discarded: number): CaptureState {
+  return {
+    phase: captured >= settings.count ? "done" : "rest",
+    phaseStartedAt: time,
+    captured,
+    discarded,
+    frames: []
+  };
+}
+
+// Feeds one detector frame. Returns the frames of a finished sample, with
+// times relative to its start.
+export function stepCaptureState(
+  state: CaptureState,
+  frame: LandmarkFrame,
+  settings: CaptureSettings
+): { state: CaptureState; sample: LandmarkFrame[] | null } {
+  const { time } = frame;
+  if (state.phase === "done") return { state, sample: null };
+  if (state.phaseStartedAt === null) return { state: { ...state, phaseStartedAt: time }, sample: null };
+
+  const elapsed = time - state.phaseStartedAt;
+  if (state.phase === "countdown" || state.phase === "rest") {
+    const waitMs = state.phase === "countdown" ? settings.countdownMs : settings.kind === "static" ? staticRestMs : sequenceRestMs;
+    return {
+      state: elapsed >= waitMs ? { ...state, phase: "recording", phaseStartedAt: time, frames: [] } : state,
+      sample: null
+    };
+  }
+
+  // A static sample is the first frame with a hand in view
+  if (settings.kind === "static") {
+    if (frame.hands.length === 0) return { state, sample: null };
+    return {
+      state: nextPhase(time, settings, state.captured + 1, state.discarded),
+      sample: [{ ...frame, time: 0 }]
+    };
+  }
+
+  const frames = [...state.frames, { ...frame, time: elapsed }];
+  if (elapsed < settings.sequenceMs) return { state: { ...state, frames }, sample: null };
+
+  const coverage = frames.filter(candidate => candidate.hands.length > 0).length / frames.length;
+  if (coverage < minSequenceHandCoverage) {
+    return { state: nextPhase(time, settings, state.captured, state.discarded + 1), sample: null };
+  }
+  return { state: nextPhase(time, settings, state.captured + 1, state.discarded), sample: frames };
+}
+
+export function createDatasetSample(
+  label: string,
+  kind: SampleKind,
+  dominantHand: Handedness,
+  frames: LandmarkFrame[]
+): DatasetSample {
+  return {
+    id: crypto.randomUUID(),
+    label,
+    kind,
+    createdAt: new Date().toISOString(),
+    dominantHand,
+    frames: frames.map(({ time, aspectRatio, hands }) => ({ time, aspectRatio, hands }))
+  };
+}
+
+export function countDatasetLabels(samples: DatasetSample[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const sample of samples) {
+    counts[sample.label] = (counts[sample.label] ?? 0) + 1;
+  }
+  return counts;
+}
+
+const landmarkColumns = Array.from({ length: 21 }, (_, index) => [`x${index}`, `y${index}`, `z${index}`]).flat();
+
+const csvColumns = [
+  "version", "sample_id", "label", "kind", "dominant_hand", "created_at",
+  "frame", "time_ms", "aspect_ratio", "hand", "handedness", "score",
+  ...landmarkColumns
+];
+
+export function serializeDataset(samples: DatasetSample[], fileFormat: DatasetFileFormat): string {
+  if (fileFormat === "json") {
+    const file: DatasetFile = {
+      format: datasetFormat,
+      version: datasetFormatVersion,
+      exportedAt: new Date().toISOString(),
+      mirroredInput: false,
+      labels: Object.keys(countDatasetLabels(samples)).sort(),
+      samples
+    };
+    return JSON.stringify(file);
+  }
+
+  // One row per hand per frame; frames without a hand keep an empty row so
+  // sequences keep their timing. World landmarks are JSON-only.
+  const rows: Array<Array<string | number>> = [];
+  for (const sample of samples) {
+    const base = [datasetFormatVersion, sample.id, sample.label, sample.kind, sample.dominantHand, sample.createdAt];
+    sample.frames.forEach((frame, frameIndex) => {
+      const framePart = [frameIndex, Math.round(frame.time), frame.aspectRatio];
+      if (frame.hands.length === 0) {
+        rows.push([...base, ...framePart, "", "", "", ...landmarkColumns.map(() => "")]);
+      }
+      frame.hands.forEach((hand, handIndex) => {
+        const coordinates = hand.landmarks.flatMap(point => [point.x, point.y, point.z]);
+        rows.push([...base, ...framePart, handIndex, hand.handedness, hand.score, ...coordinates]);
+      });
+    });
+  }
+  return [csvColumns, ...rows].map(csvRow).join("\n") + "\n";
+}
+
+function checkVersion(version: unknown) {
+  if (typeof version !== "number" || !Number.isFinite(version) || version > datasetFormatVersion) {
+    throw new Error(`Unsupported dataset version ${version}`);
+  }
+}
+
+function isSample(value: Partial<DatasetSample>): value is DatasetSample {
+  return typeof value.id === "string" && typeof value.label === "string" && Array.isArray(value.frames) && value.frames.length > 0;
+}
+
+function parseCsvDataset(text: string): DatasetSample[] {
+  const [headerLine, ...lines] = text.split(/\r?\n/).filter(line => line.trim());
+  const header = parseCsvLine(headerLine);
+  const column = (name: string) => header.indexOf(name);
+  if (column("sample_id") < 0 || column("label") < 0 || column("x0") < 0) {
+    throw new Error("This CSV file is not a landmark dataset");
+  }
+
+  const samples = new Map<string, DatasetSample>();
+  for (const line of lines) {
+    const row = parseCsvLine(line);
+    const value = (name: string) => csvText(row[column(name)] ?? "");
+    checkVersion(Number(value("version")));
+
+    const id = value("sample_id");
+    let sample = samples.get(id);
+    if (!sample) {
+      sample = {
+        id,
+        label: value("label"),
+        kind: value("kind") === "sequence" ? "sequence" : "static",
+        createdAt: value("created_at"),
+        dominantHand: value("dominant_hand") === "Left" ? "Left" : "Right",
+        frames: []
+      };
+      samples.set(id, sample);
+    }
+
+    const frameIndex = Number(value("frame"));
+    let frame = sample.frames[frameIndex];
+    if (!frame) {
+      frame = { time: Number(value("time_ms")), aspectRatio: Number(value("aspect_ratio")), hands: [] };
+      sample.frames[frameIndex] = frame;
+    }
+    if (value("hand") === "") continue;
+
+    // Empty or missing fields would otherwise read as 0
+    const coordinate = (name: string) => value(name) === "" ? NaN : Number(value(name));
+    const landmarks: Landmark[] = [];
+    for (let index = 0; index < 21; index++) {
+      landmarks.push({ x: coordinate(`x${index}`), y: coordinate(`y${index}`), z: coordinate(`z${index}`) });
+    }
+    if (landmarks.some(point => ![point.x, point.y, point.z].every(Number.isFinite))) {
+      throw new Error(`Sample ${id} has a malformed landmark row`);
+    }
+    const hand: RecordedHand = {
+      handedness: value("handedness") === "Left" ? "Left" : "Right",
+      score: Number(value("score")) || 0,
+      landmarks,
+      worldLandmarks: []
+    };
+    frame.hands.push(hand);
+  }
+
+  return [...samples.values()].map(sample => ({ ...sample, frames: sample.frames.filter(Boolean) }));
+}
+
+// Reads either export format; throws with a readable message on malformed input
+export function parseDataset(text: string): DatasetSample[] {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error("The dataset file is empty");
+
+  let samples: DatasetSample[];
+  if (trimmed.startsWith("{")) {
+    let file: Partial<DatasetFile>;
+    try {
+      file = JSON.parse(trimmed);
+    } catch {
+      throw new Error("The dataset file is not valid JSON");
+    }
+    if (file.format !== datasetFormat) throw new Error("This file is not a landmark dataset");
+    checkVersion(file.version);
+    samples = Array.isArray(file.samples) ? file.samples : [];
+  } else {
+    samples = parseCsvDataset(trimmed);
+  }
+
+  const valid = samples.filter(isSample);
+  if (valid.length === 0) throw new Error("The dataset file has no samples");
+  return valid;
+}
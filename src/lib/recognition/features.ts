@@ -0,0 +1,207 @@
+import type { HandLandmarkerResult } from "@mediapipe/tasks-vision";
+
+export interface Landmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export type Handedness = "Left" | "Right";
+
+export interface HandFeatures {
+  handedness: Handedness;
+  handednessScore: number;
+  // Video width / height the landmarks were measured in
+  aspectRatio: number;
+  // Raw normalized image landmarks, kept for drawing and image-space checks
+  imageLandmarks: Landmark[];
+  // Wrist-relative, palm-size-normalized, rotation-aligned and mirrored to a right hand
+  landmarks: Landmark[];
+  // Palm size (wrist → middle MCP) in aspect-corrected image units
+  palmSize: number;
+  // Roll of the hand in the image, radians (0 = fingers pointing up)
+  rotation: number;
+  // Palm centre in normalized image coordinates
+  center: Landmark;
+  // Bend at each finger joint in radians, 3 per finger (thumb → pinky)
+  jointAngles: number[];
+  // 0 (curled) … 1 (straight), one per finger (thumb → pinky)
+  fingerExtension: number[];
+  // Unit MCP → tip direction per finger in (mirrored) image space, y down
+  fingerDirections: Array<{ x: number; y: number }>;
+  // Fingertip pair distances in palm units, see fingertipPairs
+  fingertipDistances: number[];
+  // Flat vector for classifiers (see featureVectorLength)
+  vector: number[];
+}
+
+export const fingerNames = ["thumb", "index", "middle", "ring", "pinky"] as const;
+
+// Landmark chains from the wrist to each fingertip
+export const fingerChains = [
+  [0, 1, 2, 3, 4],
+  [0, 5, 6, 7, 8],
+  [0, 9, 10, 11, 12],
+  [0, 13, 14, 15, 16],
+  [0, 17, 18, 19, 20]
+];
+
+export const fingertipIndices = [4, 8, 12, 16, 20];
+
+// Every unordered pair of fingertips: thumb-index, thumb-middle, …, ring-pinky
+export const fingertipPairs: Array<[number, number]> = [];
+for (let a = 0; a < fingertipIndices.length; a++) {
+  for (let b = a + 1; b < fingertipIndices.length; b++) {
+    fingertipPairs.push([a, b]);
+  }
+}
+
+export const featureVectorLength = 21 * 3 + fingerChains.length * 3 + fingertipPairs.length;
+
+function subtract(a: Landmark, b: Landmark): Landmark {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+function length(v: Landmark): number {
+  return Math.hypot(v.x, v.y, v.z);
+}
+
+function distance(a: Landmark, b: Landmark): number {
+  return length(subtract(a, b));
+}
+
+function angleBetween(a: Landmark, b: Landmark): number {
+  const denominator = length(a) * length(b);
+  if (denominator === 0) return 0;
+  const cos = (a.x * b.x + a.y * b.y + a.z * b.z) / denominator;
+  return Math.acos(Math.max(-1, Math.min(1, cos)));
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+function parseHandedness(categoryName: string | undefined): Handedness {
+  return categoryName === "Left" ? "Left" : "Right";
+}
+
+// Converts one detected hand into invariant features. `aspectRatio` is the
+// video width / height, needed because normalized x and y use different units.
+export function extractHandFeatures(
+  points: Landmark[],
+  handedness: Handedness = "Right",
+  handednessScore = 1,
+  aspectRatio = 1
+): HandFeatures {
+  const mirror = handedness === "Left" ? -1 : 1;
+
+  // Aspect-corrected, mirrored image space
+  const image = points.map(point => ({
+    x: point.x * aspectRatio * mirror,
+    y: point.y,
+    z: point.z * aspectRatio
+  }));
+
+  const wrist = image[0];
+  const palmSize = distance(image[9], wrist) || 1;
+
+  // Rotate around the wrist so that wrist → middle MCP points straight up
+  const palmAxis = subtract(image[9], wrist);
+  const rotation = Math.atan2(palmAxis.x, -palmAxis.y);
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+
+  const landmarks = image.map(point => {
+    const relative = subtract(point, wrist);
+    return {
+      x: (relative.x * cos + relative.y * sin) / palmSize,
+      y: (-relative.x * sin + relative.y * cos) / palmSize,
+      z: relative.z / palmSize
+    };
+  });
+
+  const jointAngles: number[] = [];
+  const fingerExtension: number[] = [];
+  const fingerDirections: Array<{ x: number; y: number }> = [];
+
+  for (const chain of fingerChains) {
+    let chainLength = 0;
+    for (let j = 1; j < chain.length - 1; j++) {
+      const incoming = subtract(landmarks[chain[j]], landmarks[chain[j - 1]]);
+      const outgoing = subtract(landmarks[chain[j + 1]], landmarks[chain[j]]);
+      jointAngles.push(angleBetween(incoming, outgoing));
+    }
+    for (let j = 2; j < chain.length; j++) {
+      chainLength += distance(landmarks[chain[j]], landmarks[chain[j - 1]]);
+    }
+
+    // Straight fingers have tip-to-base distance ≈ summed segment lengths
+    const base = landmarks[chain[1]];
+    const tip = landmarks[chain[chain.length - 1]];
+    const straightness = chainLength > 0 ? distance(tip, base) / chainLength : 0;
+    fingerExtension.push(clamp01((straightness - 0.5) / 0.45));
+
+    const direction = subtract(image[chain[chain.length - 1]], image[chain[1]]);
+    const directionLength = Math.hypot(direction.x, direction.y) || 1;
+    fingerDirections.push({ x: direction.x / directionLength, y: direction.y / directionLength });
+  }
+
+  const fingertipDistances = fingertipPairs.map(([a, b]) =>
+    distance(landmarks[fingertipIndices[a]], landmarks[fingertipIndices[b]])
+  );
+
+  const palmPoints = [0, 5, 9, 13, 17].map(index => points[index]);
+  const center = {
+    x: palmPoints.reduce((sum, point) => sum + point.x, 0) / palmPoints.length,
+    y: palmPoints.reduce((sum, point) => sum + point.y, 0) / palmPoints.length,
+    z: palmPoints.reduce((sum, point) => sum + point.z, 0) / palmPoints.length
+  };
+
+  const vector: number[] = [];
+  for (const point of landmarks) vector.push(point.x, point.y, point.z);
+  for (const angle of jointAngles) vector.push(angle / Math.PI);
+  vector.push(...fingertipDistances);
+
+  return {
+    handedness,
+    handednessScore,
+    aspectRatio,
+    imageLandmarks: points,
+    landmarks,
+    palmSize,
+    rotation,
+    center,
+    jointAngles,
+    fingerExtension,
+    fingerDirections,
+    fingertipDistances,
+    vector
+  };
+}
+
+// Extracts features for every hand in a HandLandmarker result. MediaPipe labels
+// handedness as if the frame were a mirrored selfie, so for a raw camera frame
+// the labels are swapped to name the signer's actual hand.
+export function extractFrameFeatures(
+  result: HandLandmarkerResult,
+  aspectRatio = 1,
+  mirroredInput = false
+): HandFeatures[] {
+  if (!result.landmarks) return [];
+
+  return result.landmarks.map((points, index) => {
+    const category = result.handedness?.[index]?.[0];
+    let handedness = parseHandedness(category?.categoryName);
+    if (!mirroredInput) handedness = handedness === "Left" ? "Right" : "Left";
+    return extractHandFeatures(points, handedness, category?.score ?? 0, aspectRatio);
+  });
+}
+
+export function isFingerExtended(features: HandFeatures, finger: number, threshold = 0.6): boolean {
+  return features.fingerExtension[finger] >= threshold;
+}
+
+export function fingertipDistance(features: HandFeatures, a: number, b: number): number {
+  const index = fingertipPairs.findIndex(([x, y]) => (x === a && y === b) || (x === b && y === a));
+  return index >= 0 ? features.fingertipDistances[index] : Infinity;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { CommitState, createCommitState, stepCommitState } from "./commit";
+import { HandFeatures, fingertipPairs } from "./features";
+import { SpellingState, addLetter, createSpellingState, recognizeNumeral, releaseLetter } from "./fingerspelling";
+
+// One frame every 50 ms from `start`, showing `gesture` (or no hand)
+function frames(gesture: string | null, count: number, start: number) {
+  return Array.from({ length: count }, (_, index) => ({ gesture, confidence: gesture ? 85 : 0, time: start + index * 50 }));
+}
+
+// Runs frames through the commit state machine into the speller, as the page does
+function spell(observations: ReturnType<typeof frames>) {
+  let commit: CommitState = createCommitState();
+  let spelling: SpellingState = createSpellingState();
+  for (const observation of observations) {
+    const step = stepCommitState(commit, observation);
+    commit = step.state;
+    for (const event of step.events) {
+      spelling = event.type === "commit" ? addLetter(spelling, event) : releaseLetter(spelling, event.time);
+    }
+  }
+  return spelling;
+}
+
+// Only what the numeral rules read: finger extension and fingertip distances
+function hand(extended: number[], thumbTouches: number | null = null) {
+  return {
+    fingerExtension: [0, 1, 2, 3, 4].map(finger => (extended.includes(finger) ? 1 : 0)),
+    fingertipDistances: fingertipPairs.map(([a, b]) => (a === 0 && b === thumbTouches ? 0.1 : 1))
+  } as HandFeatures;
+}
+
+describe("addLetter", () => {
+  it("keeps one letter when the hand drops out just past the release time", () => {
+    // Released at 1250, back at 1300 and committed again at 1900
+    const spelling = spell([...frames("L", 20, 0), ...frames(null, 6, 1000), ...frames("L", 20, 1300)]);
+    expect(spelling.current).toBe("L");
+  });
+
+  it("adds a double letter when the letter is signed again after a real pause", () => {
+    const spelling = spell([...frames("L", 20, 0), ...frames(null, 16, 1000), ...frames("L", 20, 1800)]);
+    expect(spelling.current).toBe("LL");
+  });
+
+  it("adds a different letter straight after a release", () => {
+    const spelling = spell([...frames("L", 20, 0), ...frames(null, 6, 1000), ...frames("O", 20, 1300)]);
+    expect(spelling.current).toBe("LO");
+  });
+});
+
+describe("recognizeNumeral", () => {
+  it("counts extended fingers for 1 to 5", () => {
+    expect(recognizeNumeral(hand([1]))?.gesture).toBe("1");
+    expect(recognizeNumeral(hand([1, 2, 3]))?.gesture).toBe("3");
+    expect(recognizeNumeral(hand([0, 1, 2, 3, 4]))?.gesture).toBe("5");
+  });
+
+  it("reads 6 to 9 from the fingertip the thumb touches", () => {
+    expect(recognizeNumeral(hand([1, 2, 3], 4))?.gesture).toBe("6");
+    expect(recognizeNumeral(hand([1, 2, 4], 3))?.gesture).toBe("7");
+    expect(recognizeNumeral(hand([1, 3, 4], 2))?.gesture).toBe("8");
+    expect(recognizeNumeral(hand([2, 3, 4], 1))?.gesture).toBe("9");
+  });
+
+  it("reads a closed hand with thumb and index touching as 0", () => {
+    expect(recognizeNumeral(hand([], 1))?.gesture).toBe("0");
+  });
+});
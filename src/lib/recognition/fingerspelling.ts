@@ -0,0 +1,257 @@
+import { HandFeatures, Landmark, fingertipDistance, fingertipIndices, isFingerExtended } from "./features";
+import type { CommitEvent } from "./commit";
+import type { InterHandFeatures } from "./two-hand";
+
+export const islAlphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ".split("");
+export const islNumerals = "0123456789".split("");
+export const fingerspellingLabels = [...islAlphabet, ...islNumerals];
+
+export interface SpellingResult {
+  gesture: string;
+  confidence: number;
+}
+
+export interface SpellingOptions {
+  // Pause after the last letter that ends the current word
+  wordPauseMs: number;
+  // A letter that reappears this soon after its release is tracking flicker.
+  // Releases already trail the last sighting by the commit's releaseMs.
+  flickerMs: number;
+}
+
+export interface SpellingState {
+  current: string;
+  words: string[];
+  lastLetter: string | null;
+  lastLetterAt: number;
+  lastReleaseAt: number;
+}
+
+export const defaultSpellingOptions: SpellingOptions = {
+  wordPauseMs: 1500,
+  flickerMs: 200
+};
+
+// Dominant fingertip to non-dominant fingertip distance (palm units) that counts as touching
+const touchThreshold = 0.35;
+// Dominant fingertip to non-dominant palm centre distance (palm units) that counts as resting on it
+const palmTouchThreshold = 0.6;
+// Thumb tip to fingertip distance within one hand (palm units) that counts as touching
+const thumbTouchThreshold = 0.35;
+
+// ISL vowels: the dominant index finger touches a fingertip of the open
+// non-dominant hand, thumb → A, index → E, middle → I, ring → O, pinky → U.
+const vowelsByFinger = ["A", "E", "I", "O", "U"];
+
+// ISL consonants with the dominant fingers laid on the open non-dominant palm,
+// by how many are extended: index → L, index and middle → N, three → M
+const palmConsonants = ["L", "N", "M"];
+
+// Letters and numerals recognized without training; the other consonants are
+// only recognized once samples for them are recorded in Learning Mode
+export const builtInSpellingLabels = [...vowelsByFinger, ...palmConsonants, "X", ...islNumerals];
+
+// Image-space distance between a point of each hand, in average palm units
+function handDistance(dominant: HandFeatures, nonDominant: HandFeatures, a: Landmark, b: Landmark) {
+  const palmUnit = (dominant.palmSize + nonDominant.palmSize) / 2 || 1;
+  return Math.hypot((a.x - b.x) * dominant.aspectRatio, a.y - b.y) / palmUnit;
+}
+
+// Whether the image-space segments a1–a2 and b1–b2 intersect
+function segmentsCross(a1: Landmark, a2: Landmark, b1: Landmark, b2: Landmark) {
+  const side = (p: Landmark, q: Landmark, r: Landmark) => Math.sign((q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x));
+  return side(a1, a2, b1) * side(a1, a2, b2) < 0 && side(b1, b2, a1) * side(b1, b2, a2) < 0;
+}
+
+function isOpenHand(hand: HandFeatures) {
+  return [1, 2, 3, 4].every(finger => isFingerExtended(hand, finger, 0.5));
+}
+
+function isPointing(hand: HandFeatures) {
+  return isFingerExtended(hand, 1) && [2, 3, 4].every(finger => !isFingerExtended(hand, finger));
+}
+
+export function recognizeVowel(
+  dominant: HandFeatures,
+  nonDominant: HandFeatures,
+  inter: InterHandFeatures
+): SpellingResult | null {
+  if (!inter.inContact || !isFingerExtended(dominant, 1)) return null;
+  if (!isOpenHand(nonDominant)) return null;
+
+  const pointer = dominant.imageLandmarks[8];
+
+  let closest = -1;
+  let closestDistance = Infinity;
+  fingertipIndices.forEach((tip, finger) => {
+    const d = handDistance(dominant, nonDominant, pointer, nonDominant.imageLandmarks[tip]);
+    if (d < closestDistance) {
+      closest = finger;
+      closestDistance = d;
+    }
+  });
+
+  if (closest < 0 || closestDistance > touchThreshold) return null;
+  return {
+    gesture: vowelsByFinger[closest],
+    confidence: Math.round(95 - (closestDistance / touchThreshold) * 25)
+  };
+}
+
+// ISL consonants from the two hands' shapes: L, N and M rest the dominant
+// fingers on the open non-dominant palm, X crosses both index fingers
+export function recognizeConsonant(
+  dominant: HandFeatures,
+  nonDominant: HandFeatures,
+  inter: InterHandFeatures
+): SpellingResult | null {
+  if (!inter.inContact) return null;
+
+  if (isPointing(dominant) && isPointing(nonDominant)) {
+    const [a, b] = [dominant, nonDominant].map(hand => hand.imageLandmarks);
+    return segmentsCross(a[5], a[8], b[5], b[8]) ? { gesture: "X", confidence: 84 } : null;
+  }
+
+  if (!isOpenHand(nonDominant)) return null;
+  // Index, then middle, then ring: the extended fingers must be the first few
+  const extended = [1, 2, 3, 4].map(finger => isFingerExtended(dominant, finger));
+  const count = extended.indexOf(false);
+  if (count < 1 || count > palmConsonants.length || extended.slice(count).some(Boolean)) return null;
+
+  const farthest = Math.max(...fingertipIndices.slice(1, count + 1).map(tip =>
+    handDistance(dominant, nonDominant, dominant.imageLandmarks[tip], nonDominant.center)
+  ));
+  if (farthest > palmTouchThreshold) return null;
+  return {
+    gesture: palmConsonants[count - 1],
+    confidence: Math.round(90 - (farthest / palmTouchThreshold) * 20)
+  };
+}
+
+// ISL numerals on one hand: 0–5 by extended finger count (0 as a closed "O"),
+// 6–9 by the fingertip the thumb touches (pinky → 6 … index → 9) while the
+// other three fingers stay extended
+export function recognizeNumeral(hand: HandFeatures): SpellingResult | null {
+  const extended = [0, 1, 2, 3, 4].map(finger => isFingerExtended(hand, finger));
+  const [thumb, index, middle, ring, pinky] = extended;
+
+  for (let finger = 1; finger <= 4; finger++) {
+    const others = [1, 2, 3, 4].filter(other => other !== finger);
+    if (others.every(other => extended[other]) && fingertipDistance(hand, 0, finger) < thumbTouchThreshold) {
+      return { gesture: String(10 - finger), confidence: 80 };
+    }
+  }
+
+  if (!index && !middle && !ring && !pinky && fingertipDistance(hand, 0, 1) < thumbTouchThreshold) {
+    return { gesture: "0", confidence: 80 };
+  }
+  if (index && !middle && !ring && !pinky && !thumb) return { gesture: "1", confidence: 88 };
+  if (index && middle && !ring && !pinky && !thumb) return { gesture: "2", confidence: 86 };
+  if (index && middle && ring && !pinky && !thumb) return { gesture: "3", confidence: 84 };
+  if (index && middle && ring && pinky && !thumb) return { gesture: "4", confidence: 84 };
+  if (index && middle && ring && pinky && thumb) return { gesture: "5", confidence: 82 };
+  return null;
+}
+
+export function createSpellingState(): SpellingState {
+  return { current: "", words: [], lastLetter: null, lastLetterAt: 0, lastReleaseAt: 0 };
+}
+
+// Appends a committed letter. A letter signed again after being released is
+// a genuine double letter (e.g. the "LL" in HELLO) unless it reappeared so soon
+// after the release that it can only be the tracker losing and re-finding the
+// hand. The commit itself always comes at least a dwell after the release, so
+// the gap is measured from when the letter reappeared (`startedAt`).
+export function addLetter(
+  state: SpellingState,
+  commit: Pick<CommitEvent, "gesture" | "startedAt" | "time">,
+  options: SpellingOptions = defaultSpellingOptions
+): SpellingState {
+  const { gesture: letter, time } = commit;
+  if (letter === state.lastLetter && commit.startedAt - state.lastReleaseAt < options.flickerMs) {
+    return { ...state, lastLetterAt: time };
+  }
+  return { ...state, current: state.current + letter, lastLetter: letter, lastLetterAt: time };
+}
+
+export function releaseLetter(state: SpellingState, time: number): SpellingState {
+  return { ...state, lastReleaseAt: time };
+}
+
+// Closes the current word once the signer has paused long enough
+export function checkWordPause(
+  state: SpellingState,
+  time: number,
+  options: SpellingOptions = defaultSpellingOptions
+): SpellingState {
+  if (!state.current || time - state.lastLetterAt < options.wordPauseMs) return state;
+  return finishWord(state);
+}
+
+export function finishWord(state: SpellingState): SpellingState {
+  if (!state.current) return state;
+  return { ...state, words: [...state.words, state.current], current: "", lastLetter: null };
+}
+
+export function backspace(state: SpellingState): SpellingState {
+  if (state.current) {
+    return { ...state, current: state.current.slice(0, -1), lastLetter: null };
+  }
+  if (state.words.length === 0) return state;
+  return { ...state, words: state.words.slice(0, -1), current: state.words[state.words.length - 1] };
+}
+
+export function replaceWord(state: SpellingState, index: number, word: string): SpellingState {
+  if (index === state.words.length) return { ...state, current: word };
+  return { ...state, words: state.words.map((existing, i) => (i === index ? word : existing)) };
+}
+
+export function assembledText(state: SpellingState): string {
+  return [...state.words, state.current].filter(Boolean).join(" ");
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+// Dictionary words within edit distance 2, closest first. Empty when the word
+// is already in the dictionary or is a number.
+export function suggestCorrections(word: string, dictionary: string[], limit = 3): string[] {
+  const upper = word.toUpperCase();
+  if (!upper || /^\d+$/.test(upper) || dictionary.includes(upper)) return [];
+
+  return dictionary
+    .map(entry => ({ entry, distance: levenshtein(upper, entry) }))
+    .filter(candidate => candidate.distance <= Math.min(2, Math.ceil(upper.length / 2)))
+    .sort((a, b) => a.distance - b.distance || a.entry.localeCompare(b.entry))
+    .slice(0, limit)
+    .map(candidate => candidate.entry);
+}
+
+export const spellingDictionary = [
+  "A", "ABOUT", "AFTER", "AGAIN", "ALL", "AM", "AN", "AND", "ANY", "ARE", "AS", "ASK", "AT",
+  "BAD", "BE", "BECAUSE", "BOOK", "BOY", "BROTHER", "BUS", "BUT", "BY", "CALL", "CAN", "CAR",
+  "CLASS", "COLD", "COME", "DAY", "DEAF", "DO", "DOCTOR", "DOG", "DONE", "DOWN", "DRINK",
+  "EAT", "FAMILY", "FATHER", "FINE", "FOOD", "FOR", "FRIEND", "FROM", "GIRL", "GIVE", "GO",
+  "GOOD", "HAPPY", "HAVE", "HE", "HELLO", "HELP", "HER", "HERE", "HIM", "HOME", "HOSPITAL",
+  "HOT", "HOW", "I", "IF", "IN", "INDIA", "IS", "IT", "KNOW", "LATER", "LEARN", "LIKE", "LOVE",
+  "ME", "MEET", "MONEY", "MORE", "MOTHER", "MY", "NAME", "NEED", "NICE", "NO", "NOT", "NOW",
+  "OF", "OK", "ON", "OR", "PLEASE", "POLICE", "SAD", "SCHOOL", "SEE", "SHE", "SIGN", "SISTER",
+  "SORRY", "STOP", "TEACHER", "THANK", "THANKS", "THE", "THIS", "TIME", "TO", "TODAY",
+  "TOMORROW", "UNDERSTAND", "UP", "US", "WAIT", "WANT", "WATER", "WE", "WELCOME", "WHAT",
+  "WHEN", "WHERE", "WHO", "WHY", "WITH", "WORK", "YES", "YESTERDAY", "YOU", "YOUR"
+];
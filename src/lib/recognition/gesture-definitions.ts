@@ -0,0 +1,343 @@
+import { HandFeatures, Landmark, fingerNames, fingertipDistance } from "./features";
+import type { CalibrationThresholds } from "./calibration";
+import type { HandLocation } from "./non-manual";
+
+// Declarative one-handed gestures: each definition describes a handshape (and
+// optionally where and how it moves) and the rule engine checks it against the
+// dominant hand's features. Definitions can be loaded from JSON files, so new
+// handshapes do not need code changes.
+
+export type DetectionMethod = "manual" | "frame-diff" | "object-detection" | "trained-model";
+
+export type FingerName = typeof fingerNames[number];
+
+// "folded" is anything not extended; "bent" and "curled" split it further
+export type FingerState = "extended" | "folded" | "bent" | "curled";
+
+export type ThumbPosition = "up" | "down" | "side" | "across";
+
+// Direction the palm faces, in the image
+export type PalmOrientation = "camera" | "away" | "up" | "down" | "side";
+
+export interface FingertipContact {
+  fingers: [FingerName, FingerName];
+  touching: boolean;
+}
+
+export interface GestureDefinition {
+  name: string;
+  // Reported confidence (0-100) when every condition holds; the highest wins
+  confidence: number;
+  fingers?: Partial<Record<FingerName, FingerState>>;
+  thumb?: ThumbPosition;
+  palm?: PalmOrientation;
+  contacts?: FingertipContact[];
+  // Summed gaps between adjacent fingertips (index → pinky), in palm widths
+  spread?: { min?: number; max?: number };
+  // Requires face and body tracking
+  location?: HandLocation;
+  // Label of a movement template the hand must be following
+  motion?: string;
+  // Only evaluated in these detection methods; such gestures also run alongside a
+  // trained classifier. Unrestricted built-in ones are the untrained fallback, while
+  // unrestricted loaded ones compete with the classifier on confidence.
+  methods?: DetectionMethod[];
+}
+
+export interface GestureContext {
+  location: HandLocation | null;
+  motion: string | null;
+  // The user's calibration; the built-in thresholds without one
+  thresholds?: CalibrationThresholds;
+}
+
+export const gestureDefinitionsFormat = "hellen-keller-gesture-definitions";
+export const gestureDefinitionsVersion = 1;
+
+export const fingerStates: FingerState[] = ["extended", "folded", "bent", "curled"];
+export const thumbPositions: ThumbPosition[] = ["up", "down", "side", "across"];
+export const palmOrientations: PalmOrientation[] = ["camera", "away", "up", "down", "side"];
+const handLocations: HandLocation[] = ["forehead", "eyes", "mouth", "chin", "chest", "neutral"];
+const detectionMethods: DetectionMethod[] = ["manual", "frame-diff", "object-detection", "trained-model"];
+
+const DEFINITIONS_STORAGE_KEY = "hellenKellerGestureDefinitions";
+
+// Finger extension thresholds (0 curled … 1 straight); curled is half the extended threshold
+const extendedThreshold = 0.6;
+// Fingertips closer than this, in palm widths, touch
+const contactDistance = 0.35;
+// Thumb direction component needed to count as pointing that way
+const thumbDirectionThreshold = 0.7;
+
+const folded: FingerState = "folded";
+
+export const builtInGestureDefinitions: GestureDefinition[] = [
+  {
+    name: "Thumbs Up",
+    confidence: 92,
+    fingers: { thumb: "extended", index: folded, middle: folded, ring: folded, pinky: folded },
+    thumb: "up"
+  },
+  {
+    name: "OK Hand",
+    confidence: 90,
+    fingers: { middle: "extended", ring: "extended", pinky: "extended" },
+    contacts: [{ fingers: ["thumb", "index"], touching: true }]
+  },
+  {
+    name: "Peace Sign",
+    confidence: 88,
+    fingers: { index: "extended", middle: "extended", ring: folded, pinky: folded }
+  },
+  {
+    name: "Hello",
+    confidence: 86,
+    fingers: { index: "extended", middle: "extended", ring: "extended", pinky: "extended" },
+    location: "forehead"
+  },
+  {
+    name: "Pointing",
+    confidence: 85,
+    fingers: { index: "extended", middle: folded, ring: folded, pinky: folded }
+  },
+  {
+    name: "Open Palm",
+    confidence: 83,
+    fingers: { index: "extended", middle: "extended", ring: "extended", pinky: "extended" }
+  },
+  {
+    name: "Fist",
+    confidence: 80,
+    fingers: { index: folded, middle: folded, ring: folded, pinky: folded }
+  },
+  {
+    name: "Pinch",
+    confidence: 87,
+    spread: { max: 0.9 },
+    methods: ["object-detection"]
+  },
+  {
+    name: "Spread",
+    confidence: 85,
+    spread: { min: 2.2 },
+    methods: ["object-detection"]
+  }
+];
+
+function subtract(a: Landmark, b: Landmark): Landmark {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+function matchesFingerState(extension: number, state: FingerState, threshold: number) {
+  const curledThreshold = threshold / 2;
+  switch (state) {
+    case "extended":
+      return extension >= threshold;
+    case "folded":
+      return extension < threshold;
+    case "bent":
+      return extension >= curledThreshold && extension < threshold;
+    case "curled":
+      return extension < curledThreshold;
+  }
+}
+
+function thumbPosition(hand: HandFeatures): ThumbPosition | null {
+  // Thumb tip resting on the middle knuckle lies across the palm
+  const tip = hand.landmarks[4];
+  const knuckle = hand.landmarks[9];
+  if (Math.hypot(tip.x - knuckle.x, tip.y - knuckle.y) < 0.5) return "across";
+
+  const direction = hand.fingerDirections[0];
+  if (direction.y < -thumbDirectionThreshold) return "up";
+  if (direction.y > thumbDirectionThreshold) return "down";
+  if (Math.abs(direction.x) > thumbDirectionThreshold) return "side";
+  return null;
+}
+
+// Palm normal from the wrist and the index and pinky knuckles, in aspect-corrected
+// image space mirrored to a right hand (so it points out of the palm for either hand)
+export function palmOrientation(hand: HandFeatures): PalmOrientation {
+  const mirror = hand.handedness === "Left" ? -1 : 1;
+  const image = [0, 5, 17].map(index => {
+    const point = hand.imageLandmarks[index];
+    return { x: point.x * hand.aspectRatio * mirror, y: point.y, z: point.z * hand.aspectRatio };
+  });
+  const a = subtract(image[1], image[0]);
+  const b = subtract(image[2], image[0]);
+  const normal = {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x
+  };
+
+  const [x, y, z] = [Math.abs(normal.x), Math.abs(normal.y), Math.abs(normal.z)];
+  // Smaller z is nearer the camera, y grows downwards
+  if (z >= x && z >= y) return normal.z < 0 ? "camera" : "away";
+  if (y >= x) return normal.y < 0 ? "up" : "down";
+  return "side";
+}
+
+export function fingerSpread(hand: HandFeatures): number {
+  return fingertipDistance(hand, 1, 2) + fingertipDistance(hand, 2, 3) + fingertipDistance(hand, 3, 4);
+}
+
+export function matchesDefinition(definition: GestureDefinition, hand: HandFeatures, context: GestureContext): boolean {
+  for (const [finger, state] of Object.entries(definition.fingers ?? {})) {
+    const index = fingerNames.indexOf(finger as FingerName);
+    const threshold = context.thresholds?.extension[index] ?? extendedThreshold;
+    if (!matchesFingerState(hand.fingerExtension[index], state, threshold)) return false;
+  }
+
+  if (definition.thumb && thumbPosition(hand) !== definition.thumb) return false;
+
+  for (const contact of definition.contacts ?? []) {
+    const [a, b] = contact.fingers.map(finger => fingerNames.indexOf(finger));
+    if ((fingertipDistance(hand, a, b) < contactDistance) !== contact.touching) return false;
+  }
+
+  if (definition.spread) {
+    // A naturally wide or narrow hand moves both limits
+    const spread = fingerSpread(hand) / (context.thresholds?.spreadScale ?? 1);
+    if (definition.spread.min !== undefined && !(spread > definition.spread.min)) return false;
+    if (definition.spread.max !== undefined && !(spread < definition.spread.max)) return false;
+  }
+
+  if (definition.location && context.location !== definition.location) return false;
+  if (definition.motion && context.motion !== definition.motion) return false;
+  if (definition.palm && palmOrientation(hand) !== definition.palm) return false;
+
+  return true;
+}
+
+// The most confident matching definition; earlier definitions win ties
+export function matchGestureDefinitions(definitions: GestureDefinition[], hand: HandFeatures, context: GestureContext) {
+  let best: GestureDefinition | null = null;
+  for (const definition of definitions) {
+    if ((!best || definition.confidence > best.confidence) && matchesDefinition(definition, hand, context)) {
+      best = definition;
+    }
+  }
+  return best ? { gesture: best.name, confidence: best.confidence } : null;
+}
+
+// Later definitions replace earlier ones of the same name
+export function mergeGestureDefinitions(...lists: GestureDefinition[][]): GestureDefinition[] {
+  const byName = new Map<string, GestureDefinition>();
+  for (const definition of lists.flat()) {
+    byName.delete(definition.name);
+    byName.set(definition.name, definition);
+  }
+  return Array.from(byName.values());
+}
+
+function checkOneOf<T extends string>(value: unknown, allowed: readonly T[], what: string): T {
+  if (typeof value !== "string" || !allowed.includes(value as T)) {
+    throw new Error(`unknown ${what} ${JSON.stringify(value)} (expected ${allowed.join(", ")})`);
+  }
+  return value as T;
+}
+
+function validateDefinition(value: Record<string, unknown>): GestureDefinition {
+  if (typeof value.name !== "string" || !value.name.trim()) throw new Error("missing name");
+  if (typeof value.confidence !== "number" || value.confidence < 0 || value.confidence > 100) {
+    throw new Error("confidence must be a number from 0 to 100");
+  }
+
+  const definition: GestureDefinition = { name: value.name.trim(), confidence: value.confidence };
+
+  if (value.fingers !== undefined) {
+    definition.fingers = {};
+    for (const [finger, state] of Object.entries(value.fingers as Record<string, unknown>)) {
+      definition.fingers[checkOneOf(finger, fingerNames, "finger")] = checkOneOf(state, fingerStates, `state for ${finger}:`);
+    }
+  }
+  if (value.thumb !== undefined) definition.thumb = checkOneOf(value.thumb, thumbPositions, "thumb position");
+  if (value.palm !== undefined) definition.palm = checkOneOf(value.palm, palmOrientations, "palm orientation");
+  if (value.contacts !== undefined) {
+    if (!Array.isArray(value.contacts)) throw new Error("contacts must be a list");
+    definition.contacts = value.contacts.map((contact: Partial<FingertipContact>) => {
+      if (!Array.isArray(contact?.fingers) || contact.fingers.length !== 2) throw new Error("each contact needs two fingers");
+      return {
+        fingers: [checkOneOf(contact.fingers[0], fingerNames, "finger"), checkOneOf(contact.fingers[1], fingerNames, "finger")],
+        touching: contact.touching !== false
+      };
+    });
+  }
+  if (value.spread !== undefined) {
+    const spread = value.spread as { min?: unknown; max?: unknown };
+    if ((spread.min !== undefined && typeof spread.min !== "number") || (spread.max !== undefined && typeof spread.max !== "number")) {
+      throw new Error("spread min and max must be numbers");
+    }
+    definition.spread = { min: spread.min as number | undefined, max: spread.max as number | undefined };
+  }
+  if (value.location !== undefined) definition.location = checkOneOf(value.location, handLocations, "location");
+  if (value.motion !== undefined) {
+    if (typeof value.motion !== "string") throw new Error("motion must be a movement template label");
+    definition.motion = value.motion;
+  }
+  if (value.methods !== undefined) {
+    if (!Array.isArray(value.methods)) throw new Error("methods must be a list");
+    definition.methods = value.methods.map(method => checkOneOf(method, detectionMethods, "detection method"));
+  }
+
+  return definition;
+}
+
+// Reads a definitions file (the versioned document or a bare list); throws with
+// a message naming the offending gesture on malformed input
+export function parseGestureDefinitions(text: string): GestureDefinition[] {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    throw new Error("The definitions file is not valid JSON");
+  }
+
+  let gestures: unknown = document;
+  if (!Array.isArray(document)) {
+    const { format, version } = (document ?? {}) as { format?: unknown; version?: unknown };
+    if (format !== gestureDefinitionsFormat) throw new Error("This file is not a gesture definitions file");
+    if (typeof version !== "number" || version > gestureDefinitionsVersion) {
+      throw new Error(`Unsupported gesture definitions version ${version}`);
+    }
+    gestures = (document as { gestures?: unknown }).gestures;
+  }
+  if (!Array.isArray(gestures)) throw new Error("The definitions file has no gesture list");
+
+  return gestures.map((value, index) => {
+    try {
+      if (!value || typeof value !== "object") throw new Error("not an object");
+      return validateDefinition(value as Record<string, unknown>);
+    } catch (error) {
+      const name = typeof value?.name === "string" ? ` ("${value.name}")` : "";
+      throw new Error(`Gesture ${index + 1}${name}: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+}
+
+export function serializeGestureDefinitions(definitions: GestureDefinition[]): string {
+  return JSON.stringify({
+    format: gestureDefinitionsFormat,
+    version: gestureDefinitionsVersion,
+    gestures: definitions
+  }, null, 2);
+}
+
+export function loadGestureDefinitions(): GestureDefinition[] {
+  try {
+    const stored = localStorage.getItem(DEFINITIONS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Error loading gesture definitions:", error);
+    return [];
+  }
+}
+
+export function saveGestureDefinitions(definitions: GestureDefinition[]) {
+  try {
+    localStorage.setItem(DEFINITIONS_STORAGE_KEY, JSON.stringify(definitions));
+  } catch (error) {
+    console.error("Error saving gesture definitions:", error);
+  }
+}
@@ -0,0 +1,182 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface GlossTranslation {
+  sentence: string;
+  source: "ai" | "rules";
+}
+
+// Sentence-level grammar carried by the face rather than the hands: raised
+// eyebrows mark a yes/no question, a head shake negates the sentence
+export interface SentenceMarkers {
+  question: boolean;
+  negation: boolean;
+}
+
+export const noSentenceMarkers: SentenceMarkers = { question: false, negation: false };
+
+// Gloss for each recognizer label; anything not listed (custom gestures,
+// fingerspelled words) is glossed as its upper-cased label.
+const glossByGesture: Record<string, string> = {
+  "Thumbs Up": "GOOD",
+  "Peace Sign": "PEACE",
+  "OK Hand": "OK",
+  "Pointing": "YOU",
+  "Open Palm": "WAIT",
+  "Stop": "STOP",
+  "Victory": "WIN",
+  "Hello": "HELLO",
+  "Goodbye": "BYE",
+  "Namaste": "NAMASTE",
+  "Help": "HELP"
+};
+
+// Recognizer output that carries no meaning in a sentence
+const nonLexicalGestures = ["Fist", "Pinch", "Spread", "Swipe Left", "Swipe Right", "Swipe Up", "Swipe Down"];
+
+export function glossForGesture(gesture: string): string | null {
+  if (nonLexicalGestures.includes(gesture)) return null;
+  return glossByGesture[gesture] ?? gesture.toUpperCase();
+}
+
+const whWords: Record<string, string> = {
+  WHAT: "what",
+  WHERE: "where",
+  WHO: "who",
+  WHEN: "when",
+  WHY: "why",
+  HOW: "how"
+};
+
+const pronouns: Record<string, string> = {
+  I: "I",
+  ME: "I",
+  MY: "my",
+  YOU: "you",
+  YOUR: "your",
+  HE: "he",
+  SHE: "she",
+  WE: "we",
+  THEY: "they"
+};
+
+const timeWords = ["TODAY", "TOMORROW", "YESTERDAY", "NOW", "LATER"];
+const negations = ["NOT", "NO", "NEVER"];
+const verbs = ["GO", "COME", "EAT", "DRINK", "WANT", "NEED", "LIKE", "LOVE", "KNOW", "UNDERSTAND", "HELP", "LEARN", "WORK", "SEE", "MEET", "GIVE", "CALL", "WAIT", "STOP"];
+
+const greetings: Record<string, string> = {
+  HELLO: "Hello",
+  NAMASTE: "Namaste",
+  BYE: "Goodbye",
+  THANK: "Thank you",
+  SORRY: "Sorry",
+  GOOD: "Good"
+};
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// Rule-based fallback for ISL gloss order: time words lead, the verb comes
+// after the object (SOV), and wh-words and negation go at the end.
+export function glossesToSentenceByRules(glosses: string[], markers: SentenceMarkers = noSentenceMarkers): string {
+  if (glosses.length === 0) return "";
+
+  let tokens = [...glosses];
+
+  // Single greetings stand on their own
+  if (tokens.length === 1 && greetings[tokens[0]]) return `${greetings[tokens[0]]}.`;
+
+  const whIndex = tokens.findIndex(token => whWords[token]);
+  const wh = whIndex >= 0 ? whWords[tokens[whIndex]] : null;
+  if (whIndex >= 0) tokens.splice(whIndex, 1);
+
+  const negated = markers.negation || tokens.some(token => negations.includes(token));
+  tokens = tokens.filter(token => !negations.includes(token));
+
+  const time = tokens.filter(token => timeWords.includes(token)).map(token => token.toLowerCase());
+  tokens = tokens.filter(token => !timeWords.includes(token));
+
+  const subjectToken = tokens.find(token => pronouns[token]);
+  const subject = subjectToken ? pronouns[subjectToken] : null;
+  if (subjectToken) tokens.splice(tokens.indexOf(subjectToken), 1);
+
+  // SOV → SVO: the last verb moves in front of its object
+  let verb: string | null = null;
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    if (verbs.includes(tokens[i])) {
+      verb = tokens[i].toLowerCase();
+      tokens.splice(i, 1);
+      break;
+    }
+  }
+  const rest = tokens.map(token => (greetings[token] ?? token).toLowerCase());
+
+  const words: string[] = [];
+  const question = Boolean(wh) || markers.question;
+  if (wh) {
+    words.push(wh);
+    if (verb) {
+      words.push(subject === "he" || subject === "she" ? "does" : "do");
+      if (subject) words.push(subject);
+      if (negated) words.push("not");
+      words.push(verb, ...rest);
+    } else {
+      words.push("is", ...(subject ? [subject === "I" ? "my" : subject === "you" ? "your" : subject] : []), ...rest);
+    }
+  } else if (markers.question) {
+    // Yes/no question: the auxiliary moves in front of the subject
+    if (verb) {
+      words.push(subject === "he" || subject === "she" ? "does" : "do");
+      if (subject) words.push(subject);
+      if (negated) words.push("not");
+      words.push(verb, ...rest);
+    } else {
+      if (subject) words.push(subject === "I" ? "am" : subject === "he" || subject === "she" ? "is" : "are", subject);
+      if (negated) words.push("not");
+      words.push(...rest);
+    }
+  } else {
+    words.push(...(subject ? [subject] : []));
+    if (verb) {
+      if (negated) words.push(subject === "he" || subject === "she" ? "does not" : "do not");
+      words.push(verb, ...rest);
+    } else {
+      if (subject) words.push(subject === "I" ? "am" : subject === "he" || subject === "she" ? "is" : "are");
+      if (negated) words.push("not");
+      words.push(...rest);
+    }
+  }
+  words.push(...time);
+
+  const sentence = capitalize(words.filter(Boolean).join(" "));
+  return `${sentence}${question ? "?" : "."}`;
+}
+
+// Converts an ISL gloss sequence into an English sentence via the `ai` edge
+// function, falling back to the rules when it is unavailable.
+export async function translateGlosses(
+  glosses: string[],
+  markers: SentenceMarkers = noSentenceMarkers
+): Promise<GlossTranslation> {
+  if (glosses.length === 0) return { sentence: "", source: "rules" };
+
+  try {
+    const prompt = `Convert this Indian Sign Language gloss sequence into one natural, grammatical English sentence. ISL uses topic-comment and subject-object-verb order, places question words and negation at the end, and omits articles and "to be". Gloss: "${glosses.join(" ")}".${markers.question ? " The signer raised their eyebrows, so it is a yes/no question." : ""}${markers.negation ? " The signer shook their head, so the sentence is negated." : ""} Reply with the English sentence only.`;
+
+    const { data: functionData, error: functionError } = await supabase.functions.invoke('ai', {
+      body: { message: prompt }
+    });
+
+    if (functionError) {
+      throw new Error(functionError.message || "Failed to get AI response");
+    }
+
+    const sentence = (functionData?.response || "").trim().replace(/^"|"$/g, "");
+    if (!sentence) throw new Error("Empty AI response");
+
+    return { sentence, source: "ai" };
+  } catch (error) {
+    console.error("Gloss translation error:", error);
+    return { sentence: glossesToSentenceByRules(glosses, markers), source: "rules" };
+  }
+}
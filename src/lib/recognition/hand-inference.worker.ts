@@ -0,0 +1,372 @@
+import { FaceLandmarker, GestureRecognizer, HandLandmarker, ImageSegmenter, PoseLandmarker } from "@mediapipe/tasks-vision";
+import {
+  BackgroundMethod,
+  PreviewEffect,
+  applyPersonMask,
+  createBackgroundModel,
+  personMaskToImageData,
+  subtractBackground
+} from "./background";
+import { ClassificationResult, LabeledSample, classifyVector } from "./classifier";
+import { HandFeatures, Handedness, extractFrameFeatures } from "./features";
+import { extractInterHandFeatures, pairHands, twoHandVector } from "./two-hand";
+import { NonManualFrame, extractBodyFeatures, extractFaceFeatures } from "./non-manual";
+import { landmarkFrameFromResult } from "./session";
+import { Delegate, createCustomVisionTask, createVisionTask } from "./vision-assets";
+import { GestureTaskModel, InferenceRequest, InferenceResponse, motionFrameHeight, motionFrameWidth } from "./inference-protocol";
+
+let handLandmarker: HandLandmarker | null = null;
+// Video tasks need strictly increasing timestamps, which seeking in a file source does not give
+let lastDetectionTime = -Infinity;
+let activeDelegate: Delegate = "GPU";
+let labels: string[] = [];
+let samples: LabeledSample[] = [];
+let motionContext: OffscreenCanvasRenderingContext2D | null = null;
+
+// The person segmenter is only loaded once background removal is first needed
+let imageSegmenter: ImageSegmenter | null = null;
+let segmenterStatus: "idle" | "loading" | "ready" | "failed" = "idle";
+let personMaskIndex = -1;
+const backgroundModel = createBackgroundModel();
+let previewContext: OffscreenCanvasRenderingContext2D | null = null;
+let maskContext: OffscreenCanvasRenderingContext2D | null = null;
+
+// Face and pose landmarkers, likewise loaded once non-manual markers are first requested
+let faceLandmarker: FaceLandmarker | null = null;
+let poseLandmarker: PoseLandmarker | null = null;
+let nonManualStatus: "idle" | "loading" | "ready" | "failed" = "idle";
+
+// The imported gesture task chosen by the page, and its recognizer once created
+let gestureTask: GestureTaskModel | null = null;
+let gestureRecognizer: GestureRecognizer | null = null;
+
+// Composited previews are rendered at most this wide
+const maxPreviewWidth = 640;
+const previewBlurPx = 12;
+const previewReplaceColor = "#1e293b";
+
+interface PersonMask {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+function respond(message: InferenceResponse, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer });
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function initialize(request: Extract<InferenceRequest, { type: "init" }>) {
+  labels = request.labels;
+  samples = request.samples;
+  try {
+    const loaded = await createVisionTask("handLandmarker", (fileset, modelAssetPath, delegate) =>
+      HandLandmarker.createFromOptions(fileset, {
+        baseOptions: { modelAssetPath, delegate },
+        canvas: new OffscreenCanvas(1, 1),
+        runningMode: "VIDEO",
+        numHands: 2
+      })
+    , request.delegates);
+    handLandmarker = loaded.task;
+    activeDelegate = loaded.delegate;
+    respond({ type: "ready", delegate: loaded.delegate });
+  } catch (error) {
+    respond({ type: "error", stage: "init", message: errorMessage(error) });
+  }
+}
+
+// Same pairing and vector choice as the page uses when classifying locally
+function classifyHands(hands: HandFeatures[], dominantHand: Handedness) {
+  if (samples.length === 0) return null;
+  const pair = pairHands(hands, dominantHand);
+  if (!pair) return null;
+
+  const twoHanded = pair.nonDominant
+    ? twoHandVector(pair.dominant, pair.nonDominant, extractInterHandFeatures(pair.dominant, pair.nonDominant))
+    : null;
+  return (twoHanded && classifyVector(samples, twoHanded, labels)) || classifyVector(samples, pair.dominant.vector, labels);
+}
+
+function loadSegmenter() {
+  segmenterStatus = "loading";
+  createVisionTask("selfieSegmenter", (fileset, modelAssetPath, delegate) =>
+    ImageSegmenter.createFromOptions(fileset, {
+      baseOptions: { modelAssetPath, delegate },
+      canvas: new OffscreenCanvas(1, 1),
+      runningMode: "VIDEO",
+      outputConfidenceMasks: true,
+      outputCategoryMask: false
+    })
+  , [activeDelegate])
+    .then(loaded => {
+      imageSegmenter = loaded.task;
+      personMaskIndex = imageSegmenter.getLabels().findIndex(label => label.toLowerCase().includes("person"));
+      segmenterStatus = "ready";
+    })
+    .catch(error => {
+      segmenterStatus = "failed";
+      respond({ type: "error", stage: "segmentation", message: errorMessage(error) });
+    });
+}
+
+function loadNonManualModels() {
+  nonManualStatus = "loading";
+  Promise.all([
+    createVisionTask("faceLandmarker", (fileset, modelAssetPath, delegate) =>
+      FaceLandmarker.createFromOptions(fileset, {
+        baseOptions: { modelAssetPath, delegate },
+        canvas: new OffscreenCanvas(1, 1),
+        runningMode: "VIDEO",
+        numFaces: 1,
+        outputFaceBlendshapes: true
+      })
+    , [activeDelegate]),
+    createVisionTask("poseLandmarker", (fileset, modelAssetPath, delegate) =>
+      PoseLandmarker.createFromOptions(fileset, {
+        baseOptions: { modelAssetPath, delegate },
+        canvas: new OffscreenCanvas(1, 1),
+        runningMode: "VIDEO",
+        numPoses: 1
+      })
+    , [activeDelegate])
+  ])
+    .then(([face, pose]) => {
+      faceLandmarker = face.task;
+      poseLandmarker = pose.task;
+      nonManualStatus = "ready";
+    })
+    .catch(error => {
+      nonManualStatus = "failed";
+      respond({ type: "error", stage: "non-manual", message: errorMessage(error) });
+    });
+}
+
+function loadGestureTask(model: GestureTaskModel | null) {
+  gestureRecognizer?.close();
+  gestureRecognizer = null;
+  gestureTask = model;
+  if (!model) return;
+
+  createCustomVisionTask("gesture task", (fileset, delegate) =>
+    GestureRecognizer.createFromOptions(fileset, {
+      baseOptions: { modelAssetBuffer: new Uint8Array(model.data), delegate },
+      canvas: new OffscreenCanvas(1, 1),
+      runningMode: "VIDEO",
+      numHands: 2,
+      // Every category's score, for the probability display
+      cannedGesturesClassifierOptions: { maxResults: -1 },
+      customGesturesClassifierOptions: { maxResults: -1 }
+    })
+  , activeDelegate === "GPU" ? ["GPU", "CPU"] : ["CPU"])
+    .then(loaded => {
+      // Another task was chosen while this one loaded
+      if (gestureTask !== model) {
+        loaded.task.close();
+        return;
+      }
+      gestureRecognizer = loaded.task;
+    })
+    .catch(error => {
+      if (gestureTask === model) respond({ type: "error", stage: "gesture-task", message: errorMessage(error) });
+    });
+}
+
+// The gesture task's scores for the dominant hand (or the only hand), in its labels
+function recognizeGesture(bitmap: ImageBitmap, timestamp: number, dominantHand: Handedness): ClassificationResult | null {
+  if (!gestureRecognizer || !gestureTask) return null;
+  const { categories, labels } = gestureTask;
+
+  const result = gestureRecognizer.recognizeForVideo(bitmap, timestamp);
+  // Handedness is reported for a mirrored image, as in extractFrameFeatures
+  const index = result.handedness.findIndex(hand => (hand[0]?.categoryName === "Left" ? "Right" : "Left") === dominantHand);
+  const scores = result.gestures[index >= 0 ? index : 0];
+  if (!scores) return null;
+
+  const probabilities: Record<string, number> = {};
+  labels.forEach(label => {
+    probabilities[label] = 0;
+  });
+  scores.forEach(category => {
+    const labelIndex = categories.indexOf(category.categoryName);
+    if (labelIndex >= 0) probabilities[labels[labelIndex]] = category.score;
+  });
+
+  // Categories outside the label map (such as MediaPipe's "None") are ignored
+  const best = labels.reduce((top, label) => (probabilities[label] > probabilities[top] ? label : top), labels[0]);
+  if (probabilities[best] <= 0) return null;
+  return { gesture: best, confidence: Math.round(probabilities[best] * 100), probabilities };
+}
+
+// Face and body features for the frame, or undefined while the models are loading
+function detectNonManual(bitmap: ImageBitmap, timestamp: number): NonManualFrame | undefined {
+  if (nonManualStatus === "idle") loadNonManualModels();
+  if (!faceLandmarker || !poseLandmarker) return undefined;
+
+  const face = faceLandmarker.detectForVideo(bitmap, timestamp);
+  const pose = poseLandmarker.detectForVideo(bitmap, timestamp);
+  try {
+    return {
+      face: extractFaceFeatures(face.faceLandmarks?.[0], face.faceBlendshapes?.[0]?.categories),
+      body: extractBodyFeatures(pose.landmarks?.[0])
+    };
+  } finally {
+    pose.close();
+  }
+}
+
+// Person confidence for the frame, or null while the segmenter is loading or unavailable
+function segmentPerson(bitmap: ImageBitmap, timestamp: number): PersonMask | null {
+  if (segmenterStatus === "idle") loadSegmenter();
+  if (!imageSegmenter) return null;
+
+  const result = imageSegmenter.segmentForVideo(bitmap, timestamp);
+  try {
+    const masks = result.confidenceMasks ?? [];
+    // Without labelled categories the last mask is the person (foreground) one
+    const mask = masks[personMaskIndex >= 0 ? personMaskIndex : masks.length - 1];
+    return mask ? { data: mask.getAsFloat32Array().slice(), width: mask.width, height: mask.height } : null;
+  } finally {
+    result.close();
+  }
+}
+
+// Draws the frame with everything but the person blurred or painted over
+function composePreview(bitmap: ImageBitmap, mask: PersonMask, effect: PreviewEffect) {
+  const scale = Math.min(1, maxPreviewWidth / bitmap.width);
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  if (!maskContext || maskContext.canvas.width !== mask.width || maskContext.canvas.height !== mask.height) {
+    maskContext = new OffscreenCanvas(mask.width, mask.height).getContext("2d");
+  }
+  if (!previewContext) {
+    previewContext = new OffscreenCanvas(width, height).getContext("2d");
+  }
+  if (!maskContext || !previewContext) return undefined;
+
+  const canvas = previewContext.canvas;
+  if (canvas.width !== width) canvas.width = width;
+  if (canvas.height !== height) canvas.height = height;
+  maskContext.putImageData(personMaskToImageData(mask.data, mask.width, mask.height), 0, 0);
+
+  // Person cut-out first, then the background drawn behind it
+  previewContext.globalCompositeOperation = "copy";
+  previewContext.drawImage(maskContext.canvas, 0, 0, width, height);
+  previewContext.globalCompositeOperation = "source-in";
+  previewContext.drawImage(bitmap, 0, 0, width, height);
+  previewContext.globalCompositeOperation = "destination-over";
+  if (effect === "blur") {
+    previewContext.filter = `blur(${previewBlurPx}px)`;
+    previewContext.drawImage(bitmap, 0, 0, width, height);
+    previewContext.filter = "none";
+  } else {
+    previewContext.fillStyle = previewReplaceColor;
+    previewContext.fillRect(0, 0, width, height);
+  }
+  previewContext.globalCompositeOperation = "source-over";
+
+  return canvas.transferToImageBitmap();
+}
+
+function captureMotionFrame(bitmap: ImageBitmap) {
+  if (!motionContext) {
+    motionContext = new OffscreenCanvas(motionFrameWidth, motionFrameHeight).getContext("2d", { willReadFrequently: true });
+  }
+  if (!motionContext) return undefined;
+  motionContext.drawImage(bitmap, 0, 0, motionFrameWidth, motionFrameHeight);
+  return motionContext.getImageData(0, 0, motionFrameWidth, motionFrameHeight);
+}
+
+function processFrame(request: Extract<InferenceRequest, { type: "frame" }>) {
+  const { bitmap } = request;
+  try {
+    if (!handLandmarker) throw new Error("Hand landmarker is not initialized");
+
+    const started = performance.now();
+    const detectionTime = Math.max(request.timestamp, lastDetectionTime + 1);
+    lastDetectionTime = detectionTime;
+    const results = handLandmarker.detectForVideo(bitmap, detectionTime);
+    const landmarkMs = performance.now() - started;
+    const aspectRatio = bitmap.width / bitmap.height;
+    const hands = results.landmarks && results.landmarks.length > 0
+      ? extractFrameFeatures(results, aspectRatio)
+      : [];
+    let motionFrame = request.captureMotion ? captureMotionFrame(bitmap) : undefined;
+
+    // Segmentation runs only when motion frames need masking or the preview is composited
+    const needsMask = (motionFrame && request.subtractBackground) || request.previewEffect !== "none";
+    const personMask = needsMask && segmenterStatus !== "failed" ? segmentPerson(bitmap, detectionTime) : null;
+
+    let backgroundMethod: BackgroundMethod | undefined;
+    if (motionFrame && request.subtractBackground) {
+      if (personMask) {
+        motionFrame = applyPersonMask(motionFrame, personMask.data, personMask.width, personMask.height);
+        backgroundMethod = "segmentation";
+      } else {
+        motionFrame = subtractBackground(backgroundModel, motionFrame);
+        backgroundMethod = "running-average";
+      }
+    }
+
+    const nonManual = request.trackNonManual && nonManualStatus !== "failed"
+      ? detectNonManual(bitmap, detectionTime)
+      : undefined;
+
+    const previewFrame = personMask && request.previewEffect !== "none"
+      ? composePreview(bitmap, personMask, request.previewEffect)
+      : undefined;
+
+    const gesture = gestureTask ? recognizeGesture(bitmap, detectionTime, request.dominantHand) : undefined;
+
+    const classifierStarted = performance.now();
+    const classification = classifyHands(hands, request.dominantHand);
+    const classifierMs = performance.now() - classifierStarted;
+
+    const transfer: Transferable[] = [];
+    if (motionFrame) transfer.push(motionFrame.data.buffer);
+    if (previewFrame) transfer.push(previewFrame);
+
+    respond({
+      type: "result",
+      id: request.id,
+      timestamp: request.timestamp,
+      hands,
+      landmarkFrame: landmarkFrameFromResult(results, request.timestamp, aspectRatio),
+      classification,
+      gesture,
+      motionFrame,
+      backgroundMethod,
+      previewFrame,
+      nonManual,
+      inferenceMs: performance.now() - started,
+      landmarkMs,
+      classifierMs
+    }, transfer);
+  } catch (error) {
+    respond({ type: "error", stage: "frame", message: errorMessage(error) });
+  } finally {
+    bitmap.close();
+  }
+}
+
+self.onmessage = (event: MessageEvent<InferenceRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case "init":
+      initialize(request);
+      break;
+    case "samples":
+      samples = request.samples;
+      break;
+    case "gestureTask":
+      loadGestureTask(request.model);
+      break;
+    case "frame":
+      processFrame(request);
+      break;
+  }
+};
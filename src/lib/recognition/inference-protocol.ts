@@ -0,0 +1,86 @@
+import type { BackgroundMethod, PreviewEffect } from "./background";
+import type { ClassificationResult, LabeledSample } from "./classifier";
+import type { HandFeatures, Handedness } from "./features";
+import type { NonManualFrame } from "./non-manual";
+import type { RecognitionModelInfo } from "./sequence-model";
+import type { LandmarkFrame } from "./session";
+import type { Delegate } from "./vision-assets";
+
+// Frame-difference motion analysis runs on a small grayscale copy of the video
+export const motionFrameWidth = 64;
+export const motionFrameHeight = 48;
+
+// Per-frame settings chosen by the page
+export interface FrameOptions {
+  dominantHand: Handedness;
+  captureMotion: boolean;
+  // Remove the background from the motion frame before it is returned
+  subtractBackground: boolean;
+  previewEffect: PreviewEffect;
+  // Run the face and pose landmarkers for non-manual markers
+  trackNonManual: boolean;
+}
+
+// An imported MediaPipe GestureRecognizer and the label for each of its categories
+export interface GestureTaskModel {
+  id: string;
+  data: ArrayBuffer;
+  categories: string[];
+  labels: string[];
+}
+
+// Messages from the page to the inference worker
+export type InferenceRequest =
+  | { type: "init"; delegates: Delegate[]; labels: string[]; samples: LabeledSample[] }
+  | { type: "samples"; samples: LabeledSample[] }
+  // Replaces the gesture task run on every frame; null unloads it
+  | { type: "gestureTask"; model: GestureTaskModel | null }
+  | ({
+      type: "frame";
+      id: number;
+      // Transferred, and closed by the worker once processed
+      bitmap: ImageBitmap;
+      timestamp: number;
+    } & FrameOptions);
+
+export interface FrameResult {
+  type: "result";
+  id: number;
+  timestamp: number;
+  hands: HandFeatures[];
+  // The raw detector output, for session recording
+  landmarkFrame: LandmarkFrame;
+  // k-NN result for the dominant hand (or both hands), null when untrained or rejected
+  classification: ClassificationResult | null;
+  // Gesture task result for the dominant hand, in the task's labels, while one is loaded
+  gesture?: ClassificationResult | null;
+  motionFrame?: ImageData;
+  // Set when the motion frame had its background removed
+  backgroundMethod?: BackgroundMethod;
+  // Composited preview with the background blurred or replaced, when requested
+  previewFrame?: ImageBitmap;
+  // Face and body features, when non-manual tracking was requested and its models loaded
+  nonManual?: NonManualFrame;
+  // Whole frame, and the hand landmarker and k-NN classifier within it
+  inferenceMs: number;
+  landmarkMs: number;
+  classifierMs: number;
+}
+
+// Messages from the inference worker back to the page
+export type InferenceResponse =
+  | { type: "ready"; delegate: Delegate }
+  | { type: "error"; stage: "init" | "frame" | "segmentation" | "non-manual" | "gesture-task"; message: string }
+  | FrameResult;
+
+// Messages from the page to the sequence model worker, which holds one TF.js
+// model at a time
+export type SequenceModelRequest =
+  | { type: "load"; model: RecognitionModelInfo }
+  | { type: "predict"; id: number; features: number[][] };
+
+// Messages from the sequence model worker back to the page
+export type SequenceModelResponse =
+  | { type: "loaded" }
+  | { type: "prediction"; id: number; result: ClassificationResult }
+  | { type: "error"; stage: "load" | "predict"; message: string };
@@ -0,0 +1,85 @@
+// The app's IndexedDB database, for data too large for localStorage. Each
+// store is keyed by the records' `id`.
+
+const databaseName = "hellenKeller";
+const databaseVersion = 3;
+
+export type StoreName = "datasetSamples" | "recognitionModels" | "modelFiles";
+
+// Stores missing from an older version are created on upgrade
+const storeNames: StoreName[] = ["datasetSamples", "recognitionModels", "modelFiles"];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    if (typeof indexedDB === "undefined") {
+      return Promise.reject(new Error("This browser cannot store data locally"));
+    }
+    const request = indexedDB.open(databaseName, databaseVersion);
+    request.onupgradeneeded = () => {
+      for (const name of storeNames) {
+        if (!request.result.objectStoreNames.contains(name)) {
+          request.result.createObjectStore(name, { keyPath: "id" });
+        }
+      }
+    };
+    databasePromise = requestResult(request);
+    // A failed open is retried on the next call
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+async function withStore<T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  task: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const database = await openDatabase();
+  const transaction = database.transaction(name, mode);
+  const request = task(transaction.objectStore(name));
+  const completed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("The local database write was aborted"));
+  });
+  const [result] = await Promise.all([request ? requestResult(request) : undefined, completed]);
+  return result;
+}
+
+export async function getAllRecords<T>(name: StoreName): Promise<T[]> {
+  return (await withStore(name, "readonly", store => store.getAll() as IDBRequest<T[]>)) ?? [];
+}
+
+export async function getRecord<T>(name: StoreName, id: string): Promise<T | undefined> {
+  return withStore(name, "readonly", store => store.get(id) as IDBRequest<T | undefined>);
+}
+
+// Inserts or replaces, in one transaction
+export async function putRecords<T extends { id: string }>(name: StoreName, records: T[]) {
+  await withStore(name, "readwrite", store => {
+    records.forEach(record => store.put(record));
+  });
+}
+
+export async function deleteRecords(name: StoreName, ids: string[]) {
+  await withStore(name, "readwrite", store => {
+    ids.forEach(id => store.delete(id));
+  });
+}
+
+export async function clearRecords(name: StoreName) {
+  await withStore(name, "readwrite", store => {
+    store.clear();
+  });
+}
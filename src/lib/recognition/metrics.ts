@@ -0,0 +1,134 @@
+// Pipeline instrumentation: per-frame timings are kept for a short rolling
+// window (for the live panel) and summed for the whole run (for exports).
+
+export interface FrameTiming {
+  // performance.now() when the result was handled
+  time: number;
+  hasHands: boolean;
+  landmarkMs?: number;
+  classifierMs?: number;
+  // From handing the frame to the worker until its result arrived
+  roundTripMs?: number;
+}
+
+export interface MetricsTotals {
+  captured: number;
+  frames: number;
+  framesWithHands: number;
+  timedFrames: number;
+  landmarkMs: number;
+  classifierMs: number;
+  roundTripMs: number;
+}
+
+export interface PipelineMetrics {
+  // The worker's cumulative dropped-frame count when these metrics started
+  droppedBefore: number;
+  captures: number[];
+  recent: FrameTiming[];
+  totals: MetricsTotals;
+}
+
+export interface MetricsSnapshot {
+  captureFps: number;
+  analyzedFps: number;
+  landmarkMs: number | null;
+  classifierMs: number | null;
+  roundTripMs: number | null;
+  framesDropped: number;
+  // Dropped frames as a fraction of all frames offered to the worker
+  droppedRatio: number;
+  handPresence: number;
+}
+
+// Whole-run figures stored with exported sessions
+export interface MetricsSummary {
+  durationMs: number;
+  framesCaptured: number;
+  framesAnalyzed: number;
+  framesDropped: number;
+  analyzedFps: number;
+  handPresence: number;
+  meanLandmarkMs: number | null;
+  meanClassifierMs: number | null;
+  meanRoundTripMs: number | null;
+}
+
+export const metricsWindowMs = 2000;
+
+const round = (value: number, decimals = 1) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+export function createPipelineMetrics(framesDropped = 0): PipelineMetrics {
+  return {
+    droppedBefore: framesDropped,
+    captures: [],
+    recent: [],
+    totals: { captured: 0, frames: 0, framesWithHands: 0, timedFrames: 0, landmarkMs: 0, classifierMs: 0, roundTripMs: 0 }
+  };
+}
+
+// Both record functions mutate in place: they run for every frame
+export function recordCapture(metrics: PipelineMetrics, time: number) {
+  metrics.captures.push(time);
+  while (metrics.captures.length > 0 && time - metrics.captures[0] > metricsWindowMs) metrics.captures.shift();
+  metrics.totals.captured += 1;
+}
+
+export function recordFrameTiming(metrics: PipelineMetrics, timing: FrameTiming) {
+  metrics.recent.push(timing);
+  while (metrics.recent.length > 0 && timing.time - metrics.recent[0].time > metricsWindowMs) metrics.recent.shift();
+
+  const { totals } = metrics;
+  totals.frames += 1;
+  if (timing.hasHands) totals.framesWithHands += 1;
+  if (timing.landmarkMs !== undefined) {
+    totals.timedFrames += 1;
+    totals.landmarkMs += timing.landmarkMs;
+    totals.classifierMs += timing.classifierMs ?? 0;
+    totals.roundTripMs += timing.roundTripMs ?? 0;
+  }
+}
+
+function average(values: Array<number | undefined>) {
+  const defined = values.filter((value): value is number => value !== undefined);
+  return defined.length > 0 ? round(defined.reduce((sum, value) => sum + value, 0) / defined.length) : null;
+}
+
+function rate(times: number[], now: number) {
+  const recent = times.filter(time => now - time <= metricsWindowMs);
+  return recent.length > 1 ? round((recent.length - 1) / ((recent[recent.length - 1] - recent[0]) / 1000)) : 0;
+}
+
+// `totalDropped` is the worker's cumulative count
+export function snapshotMetrics(metrics: PipelineMetrics, now: number, totalDropped: number): MetricsSnapshot {
+  const recent = metrics.recent.filter(timing => now - timing.time <= metricsWindowMs);
+  const framesDropped = totalDropped - metrics.droppedBefore;
+  const offered = metrics.totals.captured + framesDropped;
+  return {
+    captureFps: rate(metrics.captures, now),
+    analyzedFps: rate(recent.map(timing => timing.time), now),
+    landmarkMs: average(recent.map(timing => timing.landmarkMs)),
+    classifierMs: average(recent.map(timing => timing.classifierMs)),
+    roundTripMs: average(recent.map(timing => timing.roundTripMs)),
+    framesDropped,
+    droppedRatio: offered > 0 ? framesDropped / offered : 0,
+    handPresence: recent.length > 0 ? recent.filter(timing => timing.hasHands).length / recent.length : 0
+  };
+}
+
+export function summarizeMetrics(metrics: PipelineMetrics, durationMs: number, totalDropped: number): MetricsSummary {
+  const { totals } = metrics;
+  const framesDropped = totalDropped - metrics.droppedBefore;
+  const timed = totals.timedFrames;
+  return {
+    durationMs: Math.round(durationMs),
+    framesCaptured: totals.captured,
+    framesAnalyzed: totals.frames,
+    framesDropped,
+    analyzedFps: durationMs > 0 ? round(totals.frames / (durationMs / 1000)) : 0,
+    handPresence: totals.frames > 0 ? round(totals.framesWithHands / totals.frames, 3) : 0,
+    meanLandmarkMs: timed > 0 ? round(totals.landmarkMs / timed) : null,
+    meanClassifierMs: timed > 0 ? round(totals.classifierMs / timed) : null,
+    meanRoundTripMs: timed > 0 ? round(totals.roundTripMs / timed) : null
+  };
+}
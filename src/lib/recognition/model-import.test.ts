@@ -0,0 +1,112 @@
+import * as tf from "@tensorflow/tfjs";
+import { afterEach, describe, expect, it } from "vitest";
+import { isGestureRecognizerTask, outputLabels, parseLabelMap, validateSequenceModel } from "./model-import";
+import { frameFeatureLength, sequenceSteps } from "./sequence-features";
+import { buildSequenceModel } from "./sequence-model";
+
+describe("parseLabelMap", () => {
+  it("reads a list, an index map, a wrapped map and plain text", () => {
+    expect(parseLabelMap('["HELLO", "THANK YOU"]')).toMatchObject({ labels: ["HELLO", "THANK YOU"], keys: null });
+    expect(parseLabelMap('{"0": "HELLO", "1": "THANK YOU"}')).toMatchObject({ labels: ["HELLO", "THANK YOU"], keys: ["0", "1"] });
+    expect(parseLabelMap("HELLO\r\n THANK YOU \n\n")).toMatchObject({ labels: ["HELLO", "THANK YOU"], keys: null });
+    expect(parseLabelMap(JSON.stringify({ labels: ["HELLO"], sequenceMs: 2000, accuracy: 0.9, validationAccuracy: 0.8 }))).toEqual({
+      labels: ["HELLO"],
+      keys: null,
+      sequenceMs: 2000,
+      accuracy: 0.9,
+      validationAccuracy: 0.8
+    });
+  });
+
+  it("rejects empty, blank and duplicate labels", () => {
+    expect(() => parseLabelMap("[]")).toThrow("has no labels");
+    expect(() => parseLabelMap('["HELLO", " "]')).toThrow("non-empty string");
+    expect(() => parseLabelMap('["HELLO", 3]')).toThrow("non-empty string");
+    expect(() => parseLabelMap('["HELLO", " HELLO"]')).toThrow('"HELLO" appears twice');
+    expect(() => parseLabelMap("42")).toThrow("must list labels");
+  });
+
+  it("rejects metadata that is not a valid number", () => {
+    expect(() => parseLabelMap(JSON.stringify({ labels: ["A"], sequenceMs: "2s" }))).toThrow('"sequenceMs" in the label map must be a number');
+    expect(() => parseLabelMap(JSON.stringify({ labels: ["A"], accuracy: 95 }))).toThrow("between 0 and 1");
+  });
+});
+
+describe("outputLabels", () => {
+  it("orders labels by output index", () => {
+    expect(outputLabels(parseLabelMap('{"2": "C", "0": "A", "1": "B"}'))).toEqual(["A", "B", "C"]);
+    expect(outputLabels(parseLabelMap('["B", "A"]'))).toEqual(["B", "A"]);
+  });
+
+  it("rejects keys that are not the output indices", () => {
+    expect(() => outputLabels(parseLabelMap('{"0": "A", "2": "C"}'))).toThrow('Label map key "2" is not an output index between 0 and 1');
+    expect(() => outputLabels(parseLabelMap('{"0": "A", "-1": "B"}'))).toThrow('key "-1"');
+    expect(() => outputLabels(parseLabelMap('{"0": "A", "1.5": "B"}'))).toThrow('key "1.5"');
+    expect(() => outputLabels(parseLabelMap('{"Open_Palm": "HELLO"}'))).toThrow('key "Open_Palm"');
+  });
+
+  it("rejects two keys naming the same output", () => {
+    expect(() => outputLabels(parseLabelMap('{"1": "A", "01": "B"}'))).toThrow('key "01"');
+  });
+});
+
+describe("validateSequenceModel", () => {
+  const models: tf.LayersModel[] = [];
+  const track = (model: tf.LayersModel) => {
+    models.push(model);
+    return model;
+  };
+  const sequential = (inputShape: Array<number | null>, units: number) => track(tf.sequential({
+    layers: [
+      tf.layers.gru({ inputShape: inputShape as number[], units: 4 }),
+      tf.layers.dense({ units, activation: "softmax" })
+    ]
+  }));
+
+  afterEach(() => {
+    models.splice(0).forEach(model => model.dispose());
+  });
+
+  // Every architecture shares the input shape; recurrent ones are slow to build on the CPU backend
+  it("accepts a model the in-app trainer builds", () => {
+    const model = track(buildSequenceModel("cnn1d", 3));
+    expect(validateSequenceModel(model, 3)).toEqual([sequenceSteps, frameFeatureLength]);
+  });
+
+  it("keeps a fixed sequence length and fills in a variable one", () => {
+    expect(validateSequenceModel(sequential([20, frameFeatureLength], 2), 2)).toEqual([20, frameFeatureLength]);
+    expect(validateSequenceModel(sequential([null, frameFeatureLength], 2), 2)).toEqual([sequenceSteps, frameFeatureLength]);
+  });
+
+  it("rejects inputs that are not landmark feature sequences", () => {
+    expect(() => validateSequenceModel(sequential([sequenceSteps, 10], 2), 2))
+      .toThrow(`The model takes [batch, ${sequenceSteps}, 10], but the landmark features are [batch, steps, ${frameFeatureLength}]`);
+    const flat = track(tf.sequential({ layers: [tf.layers.dense({ inputShape: [frameFeatureLength], units: 2 })] }));
+    expect(() => validateSequenceModel(flat, 2)).toThrow("but the landmark features are");
+    expect(() => validateSequenceModel(sequential([1, frameFeatureLength], 2), 2)).toThrow("at least 2 frames");
+  });
+
+  it("rejects an output count that does not match the labels", () => {
+    expect(() => validateSequenceModel(sequential([sequenceSteps, frameFeatureLength], 4), 3))
+      .toThrow("The model has 4 outputs, but the label map has 3 labels");
+  });
+
+  it("rejects models with more than one input or output", () => {
+    const first = tf.input({ shape: [sequenceSteps, frameFeatureLength] });
+    const second = tf.input({ shape: [sequenceSteps, frameFeatureLength] });
+    const merged = tf.layers.concatenate().apply([first, second]) as tf.SymbolicTensor;
+    const output = tf.layers.dense({ units: 2 }).apply(tf.layers.flatten().apply(merged)) as tf.SymbolicTensor;
+    const model = track(tf.model({ inputs: [first, second], outputs: output }));
+    expect(() => validateSequenceModel(model, 2)).toThrow("exactly one input and one output");
+  });
+});
+
+describe("isGestureRecognizerTask", () => {
+  const zip = (text: string) => new Uint8Array([0x50, 0x4b, 0x03, 0x04, ...new TextEncoder().encode(text)]).buffer;
+
+  it("recognizes a zip holding both task models", () => {
+    expect(isGestureRecognizerTask(zip("hand_landmarker.task hand_gesture_recognizer.task"))).toBe(true);
+    expect(isGestureRecognizerTask(zip("hand_landmarker.task"))).toBe(false);
+    expect(isGestureRecognizerTask(new TextEncoder().encode("hand_landmarker hand_gesture_recognizer").buffer)).toBe(false);
+  });
+});
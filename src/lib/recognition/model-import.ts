@@ -0,0 +1,200 @@
+import * as tf from "@tensorflow/tfjs";
+import { frameFeatureLength, sequenceSteps } from "./sequence-features";
+import { RecognitionModelInfo, nextModelVersion } from "./sequence-model";
+
+// Recognizers trained outside the app. A TF.js LayersModel must take the same
+// landmark sequences the in-app trainer uses ([batch, steps,
+// frameFeatureLength]) and output one probability per label. A MediaPipe
+// GestureRecognizer task runs on the video frames, so only its bundle layout
+// and label map can be checked up front.
+
+// Window length for imported sequence models whose label map does not give one
+const defaultSequenceMs = 1500;
+
+export interface LabelMap {
+  labels: string[];
+  // What the model calls each label (output indices or category names), or
+  // null when the labels were given as a plain list
+  keys: string[] | null;
+  sequenceMs: number | null;
+  accuracy: number | null;
+  validationAccuracy: number | null;
+}
+
+export interface ImportedModel {
+  model: tf.LayersModel | ArrayBuffer;
+  info: RecognitionModelInfo;
+}
+
+function optionalNumber(value: unknown, field: string, max = Infinity): number | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0 || value > max) {
+    throw new Error(`"${field}" in the label map must be a number${max === 1 ? " between 0 and 1" : ""}`);
+  }
+  return value;
+}
+
+// Accepts a JSON list of labels, a JSON object of index or category name →
+// label, either of those under "labels" next to optional sequenceMs, accuracy
+// and validationAccuracy, or plain text with one label per line
+export function parseLabelMap(text: string): LabelMap {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    parsed = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  }
+
+  let metadata: Record<string, unknown> = {};
+  if (parsed && typeof parsed === "object" && !Array.isArray(parsed) && "labels" in parsed) {
+    metadata = parsed as Record<string, unknown>;
+    parsed = metadata.labels;
+  }
+
+  let labels: unknown[];
+  let keys: string[] | null = null;
+  if (Array.isArray(parsed)) {
+    labels = parsed;
+  } else if (parsed && typeof parsed === "object") {
+    keys = Object.keys(parsed);
+    labels = Object.values(parsed);
+  } else {
+    throw new Error("The label map must list labels or map model outputs to labels");
+  }
+
+  if (labels.length === 0) throw new Error("The label map has no labels");
+  if (labels.some(label => typeof label !== "string" || label.trim() === "")) {
+    throw new Error("Every label in the label map must be a non-empty string");
+  }
+  const trimmed = (labels as string[]).map(label => label.trim());
+  const duplicate = trimmed.find((label, index) => trimmed.indexOf(label) !== index);
+  if (duplicate) throw new Error(`"${duplicate}" appears twice in the label map`);
+
+  return {
+    labels: trimmed,
+    keys,
+    sequenceMs: optionalNumber(metadata.sequenceMs, "sequenceMs"),
+    accuracy: optionalNumber(metadata.accuracy, "accuracy", 1),
+    validationAccuracy: optionalNumber(metadata.validationAccuracy, "validationAccuracy", 1)
+  };
+}
+
+// Labels in model output order; object keys must be the indices 0…n-1
+export function outputLabels(labelMap: LabelMap): string[] {
+  if (!labelMap.keys) return labelMap.labels;
+  const labels: string[] = [];
+  labelMap.keys.forEach((key, position) => {
+    const index = Number(key);
+    // "01" or " 1" would name the same output as "1" and leave another unlabeled
+    if (!Number.isInteger(index) || String(index) !== key || index < 0 || index >= labelMap.labels.length) {
+      throw new Error(`Label map key "${key}" is not an output index between 0 and ${labelMap.labels.length - 1}`);
+    }
+    labels[index] = labelMap.labels[position];
+  });
+  return labels;
+}
+
+// Checks the model against the feature extractor and returns its input shape
+export function validateSequenceModel(model: tf.LayersModel, labelCount: number): number[] {
+  if (model.inputs.length !== 1 || model.outputs.length !== 1) {
+    throw new Error("The model must have exactly one input and one output");
+  }
+  const input = model.inputs[0].shape;
+  if (input.length !== 3 || input[2] !== frameFeatureLength) {
+    throw new Error(
+      `The model takes [${input.map(size => size ?? "batch").join(", ")}], but the landmark features are [batch, steps, ${frameFeatureLength}]`
+    );
+  }
+  // Models that accept any length get the in-app sequence length
+  const steps = input[1] ?? sequenceSteps;
+  if (steps < 2) throw new Error("The model must take a sequence of at least 2 frames");
+
+  const output = model.outputs[0].shape;
+  if (output.length !== 2 || output[1] !== labelCount) {
+    throw new Error(`The model has ${output[output.length - 1] ?? "a variable number of"} outputs, but the label map has ${labelCount} labels`);
+  }
+  return [steps, frameFeatureLength];
+}
+
+// GestureRecognizer bundles are zip files holding a hand landmarker and a
+// gesture classifier; their names are stored uncompressed in the zip directory
+export function isGestureRecognizerTask(data: ArrayBuffer): boolean {
+  const bytes = new Uint8Array(data);
+  const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+  if (!isZip) return false;
+  const text = new TextDecoder("latin1").decode(bytes);
+  return text.includes("hand_landmarker") && text.includes("hand_gesture_recognizer");
+}
+
+function baseInfo(name: string, models: RecognitionModelInfo[], labelMap: LabelMap) {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    version: nextModelVersion(models, name),
+    architecture: null,
+    accuracy: labelMap.accuracy,
+    validationAccuracy: labelMap.validationAccuracy,
+    sampleCount: null,
+    createdAt: new Date().toISOString()
+  };
+}
+
+// `files` is either a model.json with its weight shards or a single .task file.
+// The returned model is not yet registered; a LayersModel must be disposed by
+// the caller once saved.
+export async function importRecognitionModel(
+  files: File[],
+  labelMapText: string,
+  name: string,
+  models: RecognitionModelInfo[]
+): Promise<ImportedModel> {
+  const labelMap = parseLabelMap(labelMapText);
+  const taskFile = files.find(file => file.name.toLowerCase().endsWith(".task"));
+
+  if (taskFile) {
+    if (files.length > 1) throw new Error("Choose the .task file on its own");
+    const data = await taskFile.arrayBuffer();
+    if (!isGestureRecognizerTask(data)) {
+      throw new Error(`${taskFile.name} is not a MediaPipe GestureRecognizer task file`);
+    }
+    return {
+      model: data,
+      info: {
+        ...baseInfo(name, models, labelMap),
+        source: "mediapipe",
+        labels: labelMap.labels,
+        // A plain list names the categories by their labels
+        categories: labelMap.keys ?? labelMap.labels,
+        inputShape: [],
+        sequenceMs: 0
+      }
+    };
+  }
+
+  const modelFile = files.find(file => file.name.toLowerCase().endsWith(".json"));
+  if (!modelFile) throw new Error("Choose a model.json with its weight files, or a .task file");
+  const labels = outputLabels(labelMap);
+
+  let model: tf.LayersModel;
+  try {
+    model = await tf.loadLayersModel(tf.io.browserFiles([modelFile, ...files.filter(file => file !== modelFile)]));
+  } catch (error) {
+    throw new Error(`Could not read the TF.js model: ${error instanceof Error ? error.message : error}`);
+  }
+
+  try {
+    return {
+      model,
+      info: {
+        ...baseInfo(name, models, labelMap),
+        source: "tfjs",
+        labels,
+        inputShape: validateSequenceModel(model, labels.length),
+        sequenceMs: labelMap.sequenceMs ?? defaultSequenceMs
+      }
+    };
+  } catch (error) {
+    model.dispose();
+    throw error;
+  }
+}
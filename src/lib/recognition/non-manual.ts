@@ -0,0 +1,267 @@
+import type { Category, NormalizedLandmark } from "@mediapipe/tasks-vision";
+import type { HandFeatures, Landmark } from "./features";
+
+// Non-manual markers: what the face and body add to a sign. Per-frame features
+// come from the face and pose landmarkers; the temporal markers (head shake,
+// nod, raised eyebrows against the signer's resting face) are tracked over time.
+
+export type MouthShape = "open" | "pursed" | "puffed";
+
+// Where the dominant hand is signed, relative to the face and chest
+export type HandLocation = "forehead" | "eyes" | "mouth" | "chin" | "chest" | "neutral";
+
+export interface FaceFeatures {
+  // Normalized image bounds of the face mesh
+  box: { minX: number; minY: number; maxX: number; maxY: number };
+  // Image heights of the brow line, eye line, mouth and chin, top to bottom
+  browY: number;
+  eyeY: number;
+  mouthY: number;
+  chinY: number;
+  // Nose offset from the face centre in face widths; positive = towards image right
+  yaw: number;
+  // Nose height between the eye line and the chin; grows as the head tips down
+  pitch: number;
+  // 0 … 1 blendshape scores
+  browRaise: number;
+  jawOpen: number;
+  mouthPucker: number;
+  cheekPuff: number;
+}
+
+export interface BodyFeatures {
+  leftShoulder: Landmark;
+  rightShoulder: Landmark;
+  // Shoulder midpoint; the chest extends one shoulder width below it
+  chest: Landmark;
+  shoulderWidth: number;
+}
+
+export interface NonManualFrame {
+  face: FaceFeatures | null;
+  body: BodyFeatures | null;
+}
+
+export interface NonManualMarkers {
+  eyebrowsRaised: boolean;
+  headShake: boolean;
+  headNod: boolean;
+  mouthShape: MouthShape | null;
+}
+
+export const emptyNonManualMarkers: NonManualMarkers = {
+  eyebrowsRaised: false,
+  headShake: false,
+  headNod: false,
+  mouthShape: null
+};
+
+export const handLocationNames: Record<HandLocation, string> = {
+  forehead: "Forehead",
+  eyes: "Eyes",
+  mouth: "Mouth",
+  chin: "Chin",
+  chest: "Chest",
+  neutral: "Neutral space"
+};
+
+// Face mesh indices
+const faceIndex = {
+  noseTip: 1,
+  leftEdge: 234,
+  rightEdge: 454,
+  leftEyeTop: 159,
+  rightEyeTop: 386,
+  leftBrow: 105,
+  rightBrow: 334,
+  upperLip: 13,
+  lowerLip: 14,
+  chin: 152
+};
+
+// Pose indices
+const poseIndex = { leftShoulder: 11, rightShoulder: 12 };
+
+const round = (value: number) => Math.round(value * 1e4) / 1e4;
+
+function blendshape(categories: Category[], name: string) {
+  return categories.find(category => category.categoryName === name)?.score ?? 0;
+}
+
+export function extractFaceFeatures(landmarks: NormalizedLandmark[] | undefined, blendshapes: Category[] = []): FaceFeatures | null {
+  if (!landmarks || landmarks.length <= faceIndex.chin) return null;
+
+  const xs = landmarks.map(point => point.x);
+  const ys = landmarks.map(point => point.y);
+  const box = {
+    minX: round(Math.min(...xs)),
+    minY: round(Math.min(...ys)),
+    maxX: round(Math.max(...xs)),
+    maxY: round(Math.max(...ys))
+  };
+
+  const nose = landmarks[faceIndex.noseTip];
+  const leftEdge = landmarks[faceIndex.leftEdge];
+  const rightEdge = landmarks[faceIndex.rightEdge];
+  const faceWidth = Math.abs(rightEdge.x - leftEdge.x) || 1;
+  const eyeY = (landmarks[faceIndex.leftEyeTop].y + landmarks[faceIndex.rightEyeTop].y) / 2;
+  const chinY = landmarks[faceIndex.chin].y;
+
+  return {
+    box,
+    browY: round((landmarks[faceIndex.leftBrow].y + landmarks[faceIndex.rightBrow].y) / 2),
+    eyeY: round(eyeY),
+    mouthY: round((landmarks[faceIndex.upperLip].y + landmarks[faceIndex.lowerLip].y) / 2),
+    chinY: round(chinY),
+    yaw: round((nose.x - (leftEdge.x + rightEdge.x) / 2) / faceWidth),
+    pitch: round((nose.y - eyeY) / ((chinY - eyeY) || 1)),
+    browRaise: round(Math.max(
+      blendshape(blendshapes, "browInnerUp"),
+      (blendshape(blendshapes, "browOuterUpLeft") + blendshape(blendshapes, "browOuterUpRight")) / 2
+    )),
+    jawOpen: round(blendshape(blendshapes, "jawOpen")),
+    mouthPucker: round(blendshape(blendshapes, "mouthPucker")),
+    cheekPuff: round(blendshape(blendshapes, "cheekPuff"))
+  };
+}
+
+export function extractBodyFeatures(landmarks: NormalizedLandmark[] | undefined): BodyFeatures | null {
+  if (!landmarks || landmarks.length <= poseIndex.rightShoulder) return null;
+
+  const toPoint = (point: NormalizedLandmark) => ({ x: round(point.x), y: round(point.y), z: round(point.z) });
+  const leftShoulder = toPoint(landmarks[poseIndex.leftShoulder]);
+  const rightShoulder = toPoint(landmarks[poseIndex.rightShoulder]);
+  // Shoulders outside the frame are guessed by the model and not worth using
+  if ((landmarks[poseIndex.leftShoulder].visibility ?? 1) < 0.5 || (landmarks[poseIndex.rightShoulder].visibility ?? 1) < 0.5) {
+    return null;
+  }
+
+  return {
+    leftShoulder,
+    rightShoulder,
+    chest: { x: round((leftShoulder.x + rightShoulder.x) / 2), y: round((leftShoulder.y + rightShoulder.y) / 2), z: 0 },
+    shoulderWidth: round(Math.hypot(leftShoulder.x - rightShoulder.x, leftShoulder.y - rightShoulder.y))
+  };
+}
+
+// Faces are widened by this fraction on each side before a hand counts as on it
+const faceMargin = 0.25;
+
+export function locateHand(hand: HandFeatures, frame: NonManualFrame | null): HandLocation | null {
+  if (!frame || (!frame.face && !frame.body)) return null;
+  const { x, y } = hand.center;
+
+  const face = frame.face;
+  if (face) {
+    const width = face.box.maxX - face.box.minX;
+    const height = face.box.maxY - face.box.minY;
+    const onFace = x >= face.box.minX - width * faceMargin && x <= face.box.maxX + width * faceMargin &&
+      y >= face.box.minY - height * faceMargin && y <= face.box.maxY + height * faceMargin;
+    if (onFace) {
+      if (y < face.browY) return "forehead";
+      if (y < (face.eyeY + face.mouthY) / 2) return "eyes";
+      if (y < (face.mouthY + face.chinY) / 2) return "mouth";
+      return "chin";
+    }
+  }
+
+  const body = frame.body;
+  if (body) {
+    const halfWidth = body.shoulderWidth / 2;
+    if (Math.abs(x - body.chest.x) <= halfWidth && y >= body.chest.y && y <= body.chest.y + body.shoulderWidth) {
+      return "chest";
+    }
+  }
+
+  return "neutral";
+}
+
+export interface NonManualOptions {
+  // How far above the resting level the brows must rise
+  browRaiseDelta: number;
+  // Head movements are looked for over this window
+  headWindowMs: number;
+  // Minimum swing (face widths for yaw, eye–chin fractions for pitch) between reversals
+  shakeSwing: number;
+  nodSwing: number;
+  // Direction reversals needed for a shake or nod
+  minReversals: number;
+}
+
+export const defaultNonManualOptions: NonManualOptions = {
+  browRaiseDelta: 0.25,
+  headWindowMs: 1500,
+  shakeSwing: 0.08,
+  nodSwing: 0.06,
+  minReversals: 2
+};
+
+export interface NonManualState {
+  // Slow running average of the resting brow position
+  browBaseline: number | null;
+  history: Array<{ time: number; yaw: number; pitch: number }>;
+}
+
+export function createNonManualState(): NonManualState {
+  return { browBaseline: null, history: [] };
+}
+
+// Direction reversals in a signal, ignoring wiggles smaller than `swing`
+function countReversals(values: number[], swing: number) {
+  let reversals = 0;
+  let direction = 0;
+  let min = values[0];
+  let max = values[0];
+  let extreme = values[0];
+  for (const value of values.slice(1)) {
+    if (direction === 0) {
+      // The first swing sets the direction
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+      if (value - min >= swing || max - value >= swing) {
+        direction = value - min >= swing ? 1 : -1;
+        extreme = value;
+      }
+    } else if ((value - extreme) * direction > 0) {
+      extreme = value;
+    } else if (Math.abs(value - extreme) >= swing) {
+      reversals++;
+      direction = -direction;
+      extreme = value;
+    }
+  }
+  return reversals;
+}
+
+function mouthShape(face: FaceFeatures): MouthShape | null {
+  if (face.cheekPuff > 0.4) return "puffed";
+  if (face.mouthPucker > 0.5) return "pursed";
+  if (face.jawOpen > 0.35) return "open";
+  return null;
+}
+
+export function stepNonManualState(
+  state: NonManualState,
+  frame: NonManualFrame | null,
+  time: number,
+  options: NonManualOptions = defaultNonManualOptions
+): { state: NonManualState; markers: NonManualMarkers } {
+  const face = frame?.face;
+  if (!face) return { state: { ...state, history: [] }, markers: emptyNonManualMarkers };
+
+  const eyebrowsRaised = state.browBaseline !== null && face.browRaise - state.browBaseline >= options.browRaiseDelta;
+  // The baseline only learns from the resting face, so a held raise is not absorbed
+  const browBaseline = state.browBaseline === null
+    ? face.browRaise
+    : eyebrowsRaised ? state.browBaseline : state.browBaseline * 0.95 + face.browRaise * 0.05;
+
+  const history = [...state.history, { time, yaw: face.yaw, pitch: face.pitch }]
+    .filter(entry => time - entry.time <= options.headWindowMs);
+  const headShake = countReversals(history.map(entry => entry.yaw), options.shakeSwing) >= options.minReversals;
+  const headNod = !headShake && countReversals(history.map(entry => entry.pitch), options.nodSwing) >= options.minReversals;
+
+  return {
+    state: { browBaseline, history },
+    markers: { eyebrowsRaised, headShake, headNod, mouthShape: mouthShape(face) }
+  };
+}
@@ -0,0 +1,160 @@
+import { DrawingUtils, HandLandmarker } from "@mediapipe/tasks-vision";
+import type { HandFeatures, Handedness } from "./features";
+import type { LandmarkFrame } from "./session";
+
+export type OverlayLayer = "skeleton" | "landmarks" | "box" | "label";
+
+export const overlayLayers: Array<{ id: OverlayLayer; name: string }> = [
+  { id: "skeleton", name: "Skeleton" },
+  { id: "landmarks", name: "Points" },
+  { id: "box", name: "Box" },
+  { id: "label", name: "Label" }
+];
+
+export interface OverlayLabel {
+  gesture: string;
+  confidence: number;
+}
+
+export const handColors: Record<Handedness, string> = {
+  Left: "#3b82f6",
+  Right: "#f97316"
+};
+
+// Padding around the landmark bounding box, as a fraction of its size
+const boxPadding = 0.12;
+
+// Matches the canvas backing store to the video so normalized landmarks map 1:1
+export function syncCanvasSize(canvas: HTMLCanvasElement, width: number, height: number) {
+  if (canvas.width !== width) canvas.width = width;
+  if (canvas.height !== height) canvas.height = height;
+}
+
+export function clearOverlay(canvas: HTMLCanvasElement | null) {
+  canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+}
+
+// Draws every hand onto the overlay canvas. Landmarks are flipped here rather
+// than with a CSS transform when the preview is mirrored, so text stays readable.
+export function drawHandOverlay(
+  canvas: HTMLCanvasElement,
+  hands: HandFeatures[],
+  layers: OverlayLayer[],
+  options: { mirrored: boolean; labelHand?: HandFeatures | null; label?: OverlayLabel | null }
+) {
+  const context = canvas.getContext("2d");
+  if (!context) return;
+
+  context.clearRect(0, 0, canvas.width, canvas.height);
+  if (layers.length === 0) return;
+
+  const drawingUtils = new DrawingUtils(context);
+  const lineWidth = Math.max(2, canvas.width / 320);
+
+  for (const hand of hands) {
+    const color = handColors[hand.handedness];
+    const points = hand.imageLandmarks.map(point => ({
+      x: options.mirrored ? 1 - point.x : point.x,
+      y: point.y,
+      z: point.z,
+      visibility: 1
+    }));
+
+    if (layers.includes("skeleton")) {
+      drawingUtils.drawConnectors(points, HandLandmarker.HAND_CONNECTIONS, { color, lineWidth });
+    }
+    if (layers.includes("landmarks")) {
+      drawingUtils.drawLandmarks(points, { color: "#ffffff", fillColor: color, lineWidth: 1, radius: lineWidth * 1.5 });
+    }
+
+    const xs = points.map(point => point.x * canvas.width);
+    const ys = points.map(point => point.y * canvas.height);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    const width = Math.max(...xs) - minX;
+    const height = Math.max(...ys) - minY;
+    const padX = width * boxPadding;
+    const padY = height * boxPadding;
+    const box = { x: minX - padX, y: minY - padY, width: width + padX * 2, height: height + padY * 2 };
+
+    if (layers.includes("box")) {
+      context.strokeStyle = color;
+      context.lineWidth = lineWidth;
+      context.strokeRect(box.x, box.y, box.width, box.height);
+    }
+
+    if (layers.includes("label")) {
+      const text = hand === options.labelHand && options.label
+        ? `${hand.handedness} · ${options.label.gesture} ${options.label.confidence}%`
+        : hand.handedness;
+      const fontSize = Math.max(14, canvas.width / 50);
+      context.font = `600 ${fontSize}px sans-serif`;
+      const textWidth = context.measureText(text).width;
+      const labelY = Math.max(0, box.y - fontSize - 8);
+      context.fillStyle = color;
+      context.fillRect(box.x, labelY, textWidth + 12, fontSize + 8);
+      context.fillStyle = "#ffffff";
+      context.textBaseline = "top";
+      context.fillText(text, box.x + 6, labelY + 4);
+    }
+  }
+}
+
+// Small preview of a recorded sample: the wrist paths of a sequence and the
+// skeleton of its middle frame, fitted to the canvas
+export function drawSampleThumbnail(canvas: HTMLCanvasElement, frames: LandmarkFrame[], mirrored: boolean) {
+  const context = canvas.getContext("2d");
+  if (!context) return;
+  context.clearRect(0, 0, canvas.width, canvas.height);
+
+  const points = frames.flatMap(frame => frame.hands.flatMap(hand => hand.landmarks));
+  if (points.length === 0) return;
+
+  const aspectRatio = frames[0].aspectRatio || 1;
+  const minX = Math.min(...points.map(point => point.x)) * aspectRatio;
+  const maxX = Math.max(...points.map(point => point.x)) * aspectRatio;
+  const minY = Math.min(...points.map(point => point.y));
+  const maxY = Math.max(...points.map(point => point.y));
+  const scale = Math.min(canvas.width, canvas.height) * (1 - boxPadding * 2) / Math.max(maxX - minX, maxY - minY, 1e-6);
+  const project = (point: { x: number; y: number }) => {
+    const x = (point.x * aspectRatio - (minX + maxX) / 2) * scale;
+    return {
+      x: canvas.width / 2 + (mirrored ? -x : x),
+      y: canvas.height / 2 + (point.y - (minY + maxY) / 2) * scale
+    };
+  };
+
+  // Recorded handedness is MediaPipe's label for the raw frame: the other hand
+  const colorFor = (handedness: Handedness) => handColors[handedness === "Left" ? "Right" : "Left"];
+
+  if (frames.length > 1) {
+    context.lineWidth = 1.5;
+    context.globalAlpha = 0.5;
+    for (const handedness of ["Left", "Right"] as Handedness[]) {
+      const path = frames
+        .map(frame => frame.hands.find(hand => hand.handedness === handedness)?.landmarks[0])
+        .filter(Boolean)
+        .map(project);
+      if (path.length < 2) continue;
+      context.strokeStyle = colorFor(handedness);
+      context.beginPath();
+      path.forEach((point, index) => (index === 0 ? context.moveTo(point.x, point.y) : context.lineTo(point.x, point.y)));
+      context.stroke();
+    }
+    context.globalAlpha = 1;
+  }
+
+  const handFrames = frames.filter(frame => frame.hands.length > 0);
+  const middle = handFrames[Math.floor(handFrames.length / 2)];
+  context.lineWidth = 2;
+  for (const hand of middle?.hands ?? []) {
+    const projected = hand.landmarks.map(project);
+    context.strokeStyle = colorFor(hand.handedness);
+    context.beginPath();
+    for (const { start, end } of HandLandmarker.HAND_CONNECTIONS) {
+      context.moveTo(projected[start].x, projected[start].y);
+      context.lineTo(projected[end].x, projected[end].y);
+    }
+    context.stroke();
+  }
+}
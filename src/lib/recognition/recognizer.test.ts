@@ -0,0 +1,32 @@
+import { readFileSync } from "fs";
+import { describe, expect, it } from "vitest";
+import { defaultCalibrationThresholds } from "./calibration";
+import { defaultCommitOptions } from "./commit";
+import { builtInGestureDefinitions } from "./gesture-definitions";
+import { RecognizerOptions, replaySession } from "./recognizer";
+import { parseSession } from "./session";
+import { builtInTemplates } from "./trajectory";
+
+const recorded = parseSession(readFileSync(new URL("./__fixtures__/two-signs.session.ndjson", import.meta.url), "utf-8"));
+
+// The page's defaults: manual detection, built-in rules, no training
+const options: RecognizerOptions = {
+  dominantHand: recorded.header.dominantHand,
+  detectionMethod: "manual",
+  isFingerspelling: false,
+  thresholds: defaultCalibrationThresholds,
+  commit: defaultCommitOptions,
+  motionThreshold: 50,
+  classifier: { isTrained: false, classify: () => null },
+  templates: builtInTemplates,
+  definitions: builtInGestureDefinitions,
+  loadedDefinitions: [],
+  classifySequence: null
+};
+
+describe("replaySession", () => {
+  it("reproduces the commits recorded with the fixture", () => {
+    expect(recorded.commits.map(commit => commit.gesture)).toEqual(["Fist", "Open Palm"]);
+    expect(replaySession(recorded, options)).toEqual(recorded.commits);
+  });
+});
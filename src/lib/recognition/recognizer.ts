@@ -0,0 +1,358 @@
+import type { CalibrationThresholds } from "./calibration";
+import { ClassificationResult, restrictToLabels } from "./classifier";
+import { CommitEvent, CommitOptions, CommitState, createCommitState, stepCommitState } from "./commit";
+import { HandFeatures, Handedness, extractFrameFeatures, isFingerExtended } from "./features";
+import {
+  fingerspellingLabels,
+  recognizeConsonant,
+  recognizeNumeral,
+  recognizeVowel
+} from "./fingerspelling";
+import { DetectionMethod, GestureDefinition, matchGestureDefinitions } from "./gesture-definitions";
+import {
+  HandLocation,
+  NonManualFrame,
+  NonManualMarkers,
+  NonManualState,
+  createNonManualState,
+  locateHand,
+  stepNonManualState
+} from "./non-manual";
+import { LandmarkFrame, RecordedSession, SessionCommit, landmarkFrameToResult } from "./session";
+import {
+  TrajectoryDescription,
+  TrajectoryPoint,
+  TrajectoryTemplate,
+  matchTrajectory,
+  toTrajectoryPoint,
+  trimTrajectory
+} from "./trajectory";
+import { HandPair, InterHandFeatures, extractInterHandFeatures, pairHands, twoHandVector } from "./two-hand";
+
+// The per-frame recognition pipeline shared by live video and session replays:
+// hands → handshape, movement, motion and model recognizers → commit voting.
+// Like the commit state machine it is a pure step function; the page keeps the
+// state between frames and turns the output into display updates and actions.
+
+export interface RecognizedGesture {
+  gesture: string;
+  confidence: number;
+}
+
+export interface HandInfo {
+  dominant: Handedness;
+  nonDominant: Handedness | null;
+  inContact: boolean;
+  location: HandLocation | null;
+}
+
+export interface RecognizerState {
+  commit: CommitState;
+  // The dominant hand's recent path, for movement signs
+  trajectory: TrajectoryPoint[];
+  // Downscaled recent frames, for frame-difference motion
+  motionFrames: ImageData[];
+  nonManual: NonManualState;
+}
+
+export interface RecognizerOptions {
+  dominantHand: Handedness;
+  detectionMethod: DetectionMethod;
+  isFingerspelling: boolean;
+  thresholds: CalibrationThresholds;
+  commit: CommitOptions;
+  // Pixel brightness change that counts as motion in frame differences
+  motionThreshold: number;
+  classifier: { isTrained: boolean; classify: (vector: number[]) => ClassificationResult | null };
+  templates: TrajectoryTemplate[];
+  // Built-in and loaded definitions, and the loaded ones on their own
+  definitions: GestureDefinition[];
+  loadedDefinitions: GestureDefinition[];
+  // The selected sequence model's answer, in trained-model mode
+  classifySequence: ((time: number) => ClassificationResult | null) | null;
+}
+
+export interface RecognizerFrame {
+  hands: HandFeatures[];
+  time: number;
+  motionFrame?: ImageData;
+  // Precomputed by the inference worker; frames without it are classified here
+  classification?: ClassificationResult | null;
+  nonManual?: NonManualFrame;
+}
+
+export interface RecognizerOutput {
+  state: RecognizerState;
+  gesture: RecognizedGesture | null;
+  events: CommitEvent[];
+  handInfo: HandInfo | null;
+  // Face markers for display, null without a tracked face
+  markers: NonManualMarkers | null;
+  // Learning-mode sample for this frame: the two-handed vector when both hands are up
+  sampleVector: number[] | null;
+  trajectoryPoint: TrajectoryPoint | null;
+  // Left undefined when this frame has nothing new to show
+  probabilities?: Record<string, number>;
+  movement?: TrajectoryDescription | null;
+}
+
+// Movement signs are matched over the dominant hand's last 1.2s of travel,
+// once it has moved at least 1.5 palm widths
+const trajectoryWindowMs = 1200;
+const minMovementPalms = 1.5;
+
+const maxMotionFrames = 10;
+
+export function createRecognizerState(): RecognizerState {
+  return { commit: createCommitState(), trajectory: [], motionFrames: [], nonManual: createNonManualState() };
+}
+
+// Letters: rule-based ISL vowels, a few consonants and numerals, trained samples for the rest
+function recognizeLetter(
+  hand: HandFeatures,
+  nonDominant: HandFeatures | null,
+  inter: InterHandFeatures | null,
+  classified: ClassificationResult | null
+): RecognizedGesture | null {
+  const ruleBased = nonDominant && inter
+    ? recognizeVowel(hand, nonDominant, inter) ?? recognizeConsonant(hand, nonDominant, inter)
+    : recognizeNumeral(hand);
+  const trained = restrictToLabels(classified, fingerspellingLabels);
+
+  if (trained && (!ruleBased || trained.confidence > ruleBased.confidence)) {
+    return { gesture: trained.gesture, confidence: trained.confidence };
+  }
+  return ruleBased;
+}
+
+// Two-handed signs from both hands' shapes and their relative position
+function recognizeTwoHanded(
+  dominant: HandFeatures,
+  nonDominant: HandFeatures,
+  inter: InterHandFeatures,
+  thresholds: CalibrationThresholds
+): RecognizedGesture | null {
+  const extended = (hand: HandFeatures, finger: number) => isFingerExtended(hand, finger, thresholds.extension[finger]);
+  const allExtended = (hand: HandFeatures) => [1, 2, 3, 4].every(finger => extended(hand, finger));
+  const allCurled = (hand: HandFeatures) => [1, 2, 3, 4].every(finger => !extended(hand, finger));
+
+  // Namaste: both open palms pressed together side by side
+  if (allExtended(dominant) && allExtended(nonDominant) && inter.inContact && inter.distance < 1.2) {
+    return { gesture: "Namaste", confidence: 86 };
+  }
+
+  // Help: dominant thumbs-up fist resting on the non-dominant open palm
+  if (allCurled(dominant) && extended(dominant, 0) && allExtended(nonDominant) &&
+      inter.inContact && inter.relativePosition.y > 0) {
+    return { gesture: "Help", confidence: 82 };
+  }
+
+  return null;
+}
+
+// Swipes from the brightness difference of the last two frames
+function recognizeFrameMotion(frames: ImageData[], options: RecognizerOptions): RecognizedGesture | null {
+  if (frames.length < 3) return null;
+
+  const current = frames[frames.length - 1];
+  const previous = frames[frames.length - 2];
+
+  let motionMagnitude = 0;
+  let horizontalMotion = 0;
+  let verticalMotion = 0;
+
+  for (let i = 0; i < current.data.length; i += 4) {
+    const currGray = (current.data[i] + current.data[i + 1] + current.data[i + 2]) / 3;
+    const prevGray = (previous.data[i] + previous.data[i + 1] + previous.data[i + 2]) / 3;
+    const diff = Math.abs(currGray - prevGray);
+
+    if (diff > options.motionThreshold) {
+      motionMagnitude += diff;
+      const x = (i / 4) % current.width;
+      const y = Math.floor((i / 4) / current.width);
+
+      if (x > current.width * 0.6) horizontalMotion += diff;
+      if (x < current.width * 0.4) horizontalMotion -= diff;
+      if (y > current.height * 0.6) verticalMotion += diff;
+      if (y < current.height * 0.4) verticalMotion -= diff;
+    }
+  }
+
+  // A hand nearer the camera moves more pixels
+  const magnitude = motionMagnitude / options.thresholds.motionScale;
+  if (magnitude <= 1000) return null;
+  const confidence = Math.min(85, 60 + (magnitude / 100));
+  if (Math.abs(horizontalMotion) > Math.abs(verticalMotion)) {
+    return { gesture: horizontalMotion > 0 ? "Swipe Right" : "Swipe Left", confidence };
+  }
+  return { gesture: verticalMotion > 0 ? "Swipe Down" : "Swipe Up", confidence };
+}
+
+// Every frame votes, including empty ones, so held signs get released
+function stepCommit(state: RecognizerState, gesture: RecognizedGesture | null, time: number, options: RecognizerOptions) {
+  return stepCommitState(state.commit, {
+    gesture: gesture && gesture.gesture !== "Unknown" ? gesture.gesture : null,
+    confidence: gesture?.confidence ?? 0,
+    time
+  }, options.commit);
+}
+
+// The best sign for a frame with hands. Later recognizers override earlier
+// ones when more confident; a sequence model has the final say.
+function recognizeHands(
+  state: RecognizerState,
+  frame: RecognizerFrame,
+  pair: HandPair,
+  location: HandLocation | null,
+  options: RecognizerOptions
+): Omit<RecognizerOutput, "events" | "markers"> {
+  const { time } = frame;
+  const hand = pair.dominant;
+  const inter = pair.nonDominant ? extractInterHandFeatures(pair.dominant, pair.nonDominant) : null;
+  const twoHanded = pair.nonDominant && inter ? twoHandVector(pair.dominant, pair.nonDominant, inter) : null;
+
+  const motionFrames = frame.motionFrame
+    ? [...state.motionFrames.slice(-(maxMotionFrames - 1)), frame.motionFrame]
+    : state.motionFrames;
+  const trajectoryPoint = toTrajectoryPoint(hand, time);
+  const trajectory = trimTrajectory([...state.trajectory, trajectoryPoint], time, trajectoryWindowMs);
+  const base = {
+    state: { ...state, motionFrames, trajectory },
+    handInfo: {
+      dominant: pair.dominant.handedness,
+      nonDominant: pair.nonDominant?.handedness ?? null,
+      inContact: inter?.inContact ?? false,
+      location
+    },
+    sampleVector: twoHanded ?? hand.vector,
+    trajectoryPoint
+  };
+
+  const { classifier } = options;
+  const classified = frame.classification !== undefined
+    ? frame.classification
+    : classifier.isTrained
+      ? (twoHanded && classifier.classify(twoHanded)) || classifier.classify(hand.vector)
+      : null;
+
+  // Fingerspelling only considers letters and numerals
+  if (options.isFingerspelling) {
+    const spelled = recognizeLetter(hand, pair.nonDominant, inter, classified);
+    return { ...base, gesture: spelled, probabilities: spelled ? {} : undefined };
+  }
+
+  let gesture: RecognizedGesture | null = null;
+  let probabilities: Record<string, number> | undefined;
+  const override = (candidate: RecognizedGesture | null) => {
+    if (candidate && candidate.confidence > (gesture?.confidence ?? 0)) gesture = candidate;
+  };
+
+  const movement = matchTrajectory(trajectory, options.templates, minMovementPalms);
+  const context = { location, motion: movement?.gesture ?? null, thresholds: options.thresholds };
+  const unrestricted = (definitions: GestureDefinition[]) => definitions.filter(definition => !definition.methods);
+
+  // A trained classifier replaces the built-in handshapes. Loaded definitions
+  // still run beside it and win when more confident; ties go to the classifier.
+  if (classifier.isTrained) {
+    if (classified) {
+      gesture = { gesture: classified.gesture, confidence: classified.confidence };
+      probabilities = classified.probabilities;
+    }
+    override(matchGestureDefinitions(unrestricted(options.loadedDefinitions), hand, context));
+  } else {
+    gesture =
+      (pair.nonDominant && inter && recognizeTwoHanded(pair.dominant, pair.nonDominant, inter, options.thresholds)) ||
+      matchGestureDefinitions(unrestricted(options.definitions), hand, context);
+  }
+
+  // Movement signs from the trajectory override the handshape while moving
+  override(movement);
+
+  if (options.detectionMethod === "frame-diff") {
+    override(recognizeFrameMotion(motionFrames, options));
+  }
+
+  // Definitions tied to the detection method (e.g. pinch and spread for object tracking)
+  override(matchGestureDefinitions(
+    options.definitions.filter(definition => definition.methods?.includes(options.detectionMethod)),
+    hand,
+    context
+  ));
+
+  const modelResult = options.detectionMethod === "trained-model" ? options.classifySequence?.(time) : null;
+  if (modelResult) {
+    gesture = { gesture: modelResult.gesture, confidence: modelResult.confidence };
+    probabilities = modelResult.probabilities;
+  }
+
+  return {
+    ...base,
+    gesture,
+    probabilities,
+    movement: movement?.description ?? null
+  };
+}
+
+// One frame of detected hands (possibly none): face markers, the recognized
+// sign and the commit events it causes
+export function recognizeFrame(state: RecognizerState, frame: RecognizerFrame, options: RecognizerOptions): RecognizerOutput {
+  const { time } = frame;
+  const nonManual = frame.nonManual ? stepNonManualState(state.nonManual, frame.nonManual, time) : null;
+  const pair = pairHands(frame.hands, options.dominantHand);
+  const location = frame.nonManual && pair ? locateHand(pair.dominant, frame.nonManual) : null;
+  const next = nonManual ? { ...state, nonManual: nonManual.state } : state;
+  const markers = frame.nonManual?.face && nonManual ? nonManual.markers : null;
+
+  const recognized: Omit<RecognizerOutput, "events" | "markers"> = pair
+    ? recognizeHands(next, frame, pair, location, options)
+    : { state: { ...next, trajectory: [] }, gesture: null, handInfo: null, sampleVector: null, trajectoryPoint: null };
+
+  const { state: commit, events } = stepCommit(recognized.state, recognized.gesture, time, options);
+  return { ...recognized, state: { ...recognized.state, commit }, events, markers };
+}
+
+// Motion-only recognition for frames analyzed without a hand landmarker
+export function recognizeMotionFrame(
+  state: RecognizerState,
+  motionFrame: ImageData | undefined,
+  time: number,
+  options: RecognizerOptions
+): RecognizerOutput {
+  const motionFrames = motionFrame ? [...state.motionFrames.slice(-(maxMotionFrames - 1)), motionFrame] : state.motionFrames;
+  const motion = motionFrame ? recognizeFrameMotion(motionFrames, options) : null;
+  const gesture = motion ? { gesture: motion.gesture, confidence: Math.round(motion.confidence) } : null;
+  const { state: commit, events } = stepCommit(state, gesture, time, options);
+  return {
+    state: { ...state, motionFrames, commit },
+    gesture,
+    events,
+    handInfo: null,
+    markers: null,
+    sampleVector: null,
+    trajectoryPoint: null
+  };
+}
+
+// Hands of a recorded frame, as the detector reported them while recording
+export function recordedFrameHands(frame: LandmarkFrame, mirroredInput: boolean): HandFeatures[] {
+  return extractFrameFeatures(landmarkFrameToResult(frame), frame.aspectRatio, mirroredInput);
+}
+
+// The commits a recorded session produces when replayed from a fresh state,
+// on the session's own clock like the recorded ones
+export function replaySession(session: RecordedSession, options: RecognizerOptions): SessionCommit[] {
+  let state = createRecognizerState();
+  const commits: SessionCommit[] = [];
+  for (const frame of session.frames) {
+    const output = recognizeFrame(state, {
+      hands: recordedFrameHands(frame, session.header.mirroredInput),
+      time: frame.time,
+      nonManual: frame.nonManual
+    }, options);
+    state = output.state;
+    output.events
+      .filter(event => event.type === "commit")
+      .forEach(event => commits.push({ time: event.time, gesture: event.gesture, confidence: event.confidence }));
+  }
+  return commits;
+}
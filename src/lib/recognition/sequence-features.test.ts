@@ -0,0 +1,74 @@
+import { readFileSync } from "fs";
+import { describe, expect, it } from "vitest";
+import { featureVectorLength } from "./features";
+import { frameFeatureLength, sequenceFeatures, sequenceSteps, trimSequenceFrames } from "./sequence-features";
+import { LandmarkFrame, parseSession } from "./session";
+
+// Frames at 0, 66.7, 133.3 and 200 ms: one hand, one hand, both hands, no hands
+const frames: LandmarkFrame[] = parseSession(
+  readFileSync(new URL("./__fixtures__/four-frames.session.ndjson", import.meta.url), "utf-8")
+).frames;
+
+// The same frames as a left-handed signer would produce them
+const mirrored: LandmarkFrame[] = frames.map(frame => ({
+  ...frame,
+  hands: frame.hands.map(hand => ({
+    ...hand,
+    handedness: hand.handedness === "Left" ? "Right" : "Left",
+    landmarks: hand.landmarks.map(point => ({ ...point, x: 1 - point.x }))
+  }))
+}));
+
+const flags = (row: number[]) => row.slice(featureVectorLength * 2, featureVectorLength * 2 + 2);
+const offset = (row: number[]) => row.slice(featureVectorLength * 2 + 2);
+
+describe("sequenceFeatures", () => {
+  it("returns one fixed-length row per step", () => {
+    const features = sequenceFeatures(frames, "Right");
+    expect(features).toHaveLength(sequenceSteps);
+    expect(features.every(row => row.length === frameFeatureLength)).toBe(true);
+    expect(sequenceFeatures(frames, "Right", 8)).toHaveLength(8);
+  });
+
+  it("fills an empty sample with zeros", () => {
+    const features = sequenceFeatures([], "Right", 4);
+    expect(features).toEqual(Array.from({ length: 4 }, () => new Array(frameFeatureLength).fill(0)));
+  });
+
+  it("resamples to the nearest frame at evenly spaced times", () => {
+    const features = sequenceFeatures(frames, "Right", 4);
+    expect(features.map(flags)).toEqual([[1, 0], [1, 0], [1, 1], [0, 0]]);
+    expect(features[3]).toEqual(new Array(frameFeatureLength).fill(0));
+  });
+
+  it("does not depend on the order frames arrive in", () => {
+    const shuffled = [frames[2], frames[0], frames[3], frames[1]];
+    expect(sequenceFeatures(shuffled, "Right")).toEqual(sequenceFeatures(frames, "Right"));
+  });
+
+  it("measures movement from where the dominant hand started", () => {
+    const features = sequenceFeatures(frames, "Right", 4);
+    expect(offset(features[0])).toEqual([0, 0]);
+    expect(Math.hypot(...offset(features[1]))).toBeGreaterThan(0);
+  });
+
+  it("holds a static sample for the whole sequence", () => {
+    const features = sequenceFeatures([frames[0]], "Right", 4);
+    expect(new Set(features.map(row => row.join(","))).size).toBe(1);
+    expect(offset(features[0])).toEqual([0, 0]);
+  });
+
+  it("gives a mirrored left-handed signer the same features", () => {
+    const right = sequenceFeatures(frames, "Right", 4).flat();
+    const left = sequenceFeatures(mirrored, "Left", 4).flat();
+    left.forEach((value, index) => expect(value).toBeCloseTo(right[index], 6));
+  });
+});
+
+describe("trimSequenceFrames", () => {
+  it("keeps the frames within the window", () => {
+    expect(trimSequenceFrames(frames, 200, 100).map(frame => frame.time)).toEqual([133.3, 200]);
+    expect(trimSequenceFrames(frames, 200, 1000)).toBe(frames);
+    expect(trimSequenceFrames(frames, 1000, 100)).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import { Handedness, HandFeatures, extractFrameFeatures, featureVectorLength } from "./features";
+import { LandmarkFrame, landmarkFrameToResult } from "./session";
+import { pairHands } from "./two-hand";
+
+// Fixed-size inputs for sequence models. A sample (or the live window) is
+// resampled to `sequenceSteps` frames, each described by both hands' feature
+// vectors, presence flags and how far the dominant hand has travelled.
+
+export const sequenceSteps = 32;
+
+// Dominant and non-dominant vectors, two presence flags and the dominant
+// palm centre's offset from where the sequence started
+export const frameFeatureLength = featureVectorLength * 2 + 4;
+
+const emptyVector = new Array<number>(featureVectorLength).fill(0);
+
+function frameHands(frame: LandmarkFrame, dominantHand: Handedness) {
+  // Recorded frames are raw camera frames, so handedness is swapped as when live
+  const hands: HandFeatures[] = extractFrameFeatures(landmarkFrameToResult(frame), frame.aspectRatio, false);
+  return pairHands(hands, dominantHand);
+}
+
+// Nearest frame to each of `steps` evenly spaced times
+function resample(frames: LandmarkFrame[], steps: number): LandmarkFrame[] {
+  const sorted = [...frames].sort((a, b) => a.time - b.time);
+  const start = sorted[0].time;
+  const duration = sorted[sorted.length - 1].time - start;
+  const resampled: LandmarkFrame[] = [];
+  let index = 0;
+  for (let step = 0; step < steps; step++) {
+    const target = start + (steps > 1 ? (duration * step) / (steps - 1) : 0);
+    while (index < sorted.length - 1 && Math.abs(sorted[index + 1].time - target) <= Math.abs(sorted[index].time - target)) {
+      index++;
+    }
+    resampled.push(sorted[index]);
+  }
+  return resampled;
+}
+
+// One row of `frameFeatureLength` numbers per step; a single-frame (static)
+// sample is held for the whole sequence
+export function sequenceFeatures(frames: LandmarkFrame[], dominantHand: Handedness, steps = sequenceSteps): number[][] {
+  if (frames.length === 0) return Array.from({ length: steps }, () => new Array<number>(frameFeatureLength).fill(0));
+
+  const pairs = resample(frames, steps).map(frame => frameHands(frame, dominantHand));
+  const origin = pairs.find(pair => pair)?.dominant ?? null;
+  // Left-handed signers move the other way; mirror so both produce the same features
+  const mirror = dominantHand === "Left" ? -1 : 1;
+
+  return pairs.map(pair => {
+    const dominant = pair?.dominant ?? null;
+    const nonDominant = pair?.nonDominant ?? null;
+    let dx = 0;
+    let dy = 0;
+    if (dominant && origin) {
+      dx = ((dominant.center.x - origin.center.x) * dominant.aspectRatio * mirror) / origin.palmSize;
+      dy = (dominant.center.y - origin.center.y) / origin.palmSize;
+    }
+    return [
+      ...(dominant?.vector ?? emptyVector),
+      ...(nonDominant?.vector ?? emptyVector),
+      dominant ? 1 : 0,
+      nonDominant ? 1 : 0,
+      dx,
+      dy
+    ];
+  });
+}
+
+// The live window a model needs: frames from the last `durationMs`
+export function trimSequenceFrames(frames: LandmarkFrame[], now: number, durationMs: number): LandmarkFrame[] {
+  const start = frames.findIndex(frame => now - frame.time <= durationMs);
+  return start < 0 ? [] : start === 0 ? frames : frames.slice(start);
+}
@@ -0,0 +1,282 @@
+import * as tf from "@tensorflow/tfjs";
+import type { ClassificationResult } from "./classifier";
+import type { DatasetSample } from "./dataset";
+import { frameFeatureLength, sequenceFeatures, sequenceSteps } from "./sequence-features";
+import { deleteRecords, getAllRecords, getRecord, putRecords } from "./local-db";
+
+// Small sequence classifiers trained in the browser on captured landmark
+// samples, or imported from elsewhere (see model-import.ts). Weights are saved
+// with TF.js's IndexedDB handler, MediaPipe task files as raw bytes, and each
+// model is described by a registry record, so several models and versions can
+// sit side by side.
+
+export type ModelArchitecture = "lstm" | "gru" | "cnn1d";
+
+// "tfjs" models read landmark sequences like trained ones; "mediapipe" task
+// files run on the video frames in the inference worker
+export type ModelSource = "trained" | "tfjs" | "mediapipe";
+
+export interface RecognitionModelInfo {
+  id: string;
+  name: string;
+  // Counts up for every model saved under the same name
+  version: number;
+  source: ModelSource;
+  // Unknown for imported models
+  architecture: ModelArchitecture | null;
+  labels: string[];
+  // MediaPipe category names, parallel to `labels`
+  categories?: string[];
+  // [steps, features per step]; empty for MediaPipe tasks
+  inputShape: number[];
+  // Length of the live window resampled into one input
+  sequenceMs: number;
+  // Final training and held-out accuracy, 0-1
+  accuracy: number | null;
+  validationAccuracy: number | null;
+  // Null when the training set is unknown
+  sampleCount: number | null;
+  createdAt: string;
+}
+
+interface ModelFileRecord {
+  id: string;
+  data: ArrayBuffer;
+}
+
+export interface TrainingOptions {
+  architecture: ModelArchitecture;
+  epochs: number;
+  batchSize: number;
+  learningRate: number;
+  // Share of each label's samples held out for validation
+  validationSplit: number;
+}
+
+export interface EpochMetrics {
+  epoch: number;
+  loss: number;
+  accuracy: number;
+  validationLoss: number;
+  validationAccuracy: number;
+}
+
+export const architectureNames: Record<ModelArchitecture, string> = {
+  lstm: "LSTM",
+  gru: "GRU",
+  cnn1d: "1D convolution"
+};
+
+export const modelSourceNames: Record<ModelSource, string> = {
+  trained: "Trained here",
+  tfjs: "Imported TF.js",
+  mediapipe: "Imported MediaPipe task"
+};
+
+export const defaultTrainingOptions: TrainingOptions = {
+  architecture: "gru",
+  epochs: 40,
+  batchSize: 16,
+  learningRate: 0.001,
+  validationSplit: 0.2
+};
+
+// Predictions below this confidence (0-100) are not reported
+export const minModelConfidence = 60;
+
+const SELECTED_MODEL_STORAGE_KEY = "hellenKellerRecognitionModel";
+
+const modelUrl = (id: string) => `indexeddb://hellenKeller-model-${id}`;
+
+export function buildSequenceModel(architecture: ModelArchitecture, labelCount: number): tf.LayersModel {
+  const model = tf.sequential();
+  const inputShape = [sequenceSteps, frameFeatureLength];
+  if (architecture === "cnn1d") {
+    model.add(tf.layers.conv1d({ inputShape, filters: 64, kernelSize: 5, activation: "relu", padding: "same" }));
+    model.add(tf.layers.maxPooling1d({ poolSize: 2 }));
+    model.add(tf.layers.conv1d({ filters: 64, kernelSize: 3, activation: "relu", padding: "same" }));
+    model.add(tf.layers.globalAveragePooling1d({}));
+  } else if (architecture === "lstm") {
+    model.add(tf.layers.lstm({ inputShape, units: 64 }));
+  } else {
+    model.add(tf.layers.gru({ inputShape, units: 64 }));
+  }
+  model.add(tf.layers.dropout({ rate: 0.3 }));
+  model.add(tf.layers.dense({ units: labelCount, activation: "softmax" }));
+  return model;
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// Holds out the same share of every label, at least one sample each
+export function splitDataset(samples: DatasetSample[], validationSplit: number) {
+  const training: DatasetSample[] = [];
+  const validation: DatasetSample[] = [];
+  const byLabel = new Map<string, DatasetSample[]>();
+  samples.forEach(sample => byLabel.set(sample.label, [...(byLabel.get(sample.label) ?? []), sample]));
+
+  for (const [label, labelSamples] of byLabel) {
+    if (labelSamples.length < 2) {
+      throw new Error(`"${label}" needs at least 2 samples to hold one out for validation`);
+    }
+    const held = Math.max(1, Math.round(labelSamples.length * validationSplit));
+    const shuffled = shuffle(labelSamples);
+    validation.push(...shuffled.slice(0, held));
+    training.push(...shuffled.slice(held));
+  }
+  return { training, validation };
+}
+
+// Longest sample duration, which becomes the live window length
+export function sampleDurationMs(samples: DatasetSample[]): number {
+  const durations = samples.map(sample => sample.frames[sample.frames.length - 1].time - sample.frames[0].time);
+  return Math.max(500, ...durations);
+}
+
+function toTensors(samples: DatasetSample[], labels: string[]) {
+  const inputs = samples.map(sample => sequenceFeatures(sample.frames, sample.dominantHand));
+  const targets = samples.map(sample => labels.indexOf(sample.label));
+  return {
+    inputs: tf.tensor3d(inputs),
+    targets: tf.oneHot(tf.tensor1d(targets, "int32"), labels.length)
+  };
+}
+
+export async function trainSequenceModel(
+  samples: DatasetSample[],
+  options: TrainingOptions,
+  onEpoch: (metrics: EpochMetrics) => void,
+  shouldStop: () => boolean
+): Promise<{ model: tf.LayersModel; labels: string[]; history: EpochMetrics[] }> {
+  const labels = Array.from(new Set(samples.map(sample => sample.label))).sort();
+  if (labels.length < 2) throw new Error("Training needs samples for at least 2 labels");
+
+  const { training, validation } = splitDataset(samples, options.validationSplit);
+  const model = buildSequenceModel(options.architecture, labels.length);
+  model.compile({
+    optimizer: tf.train.adam(options.learningRate),
+    loss: "categoricalCrossentropy",
+    metrics: ["accuracy"]
+  });
+
+  const train = toTensors(training, labels);
+  const held = toTensors(validation, labels);
+  const history: EpochMetrics[] = [];
+  try {
+    await model.fit(train.inputs, train.targets, {
+      epochs: options.epochs,
+      batchSize: options.batchSize,
+      shuffle: true,
+      validationData: [held.inputs, held.targets],
+      callbacks: {
+        onEpochEnd: async (epoch, logs) => {
+          const metrics = {
+            epoch: epoch + 1,
+            loss: logs?.loss ?? 0,
+            accuracy: logs?.acc ?? logs?.accuracy ?? 0,
+            validationLoss: logs?.val_loss ?? 0,
+            validationAccuracy: logs?.val_acc ?? logs?.val_accuracy ?? 0
+          };
+          history.push(metrics);
+          onEpoch(metrics);
+          if (shouldStop()) model.stopTraining = true;
+          // Lets the page repaint between epochs
+          await tf.nextFrame();
+        }
+      }
+    });
+  } catch (error) {
+    model.dispose();
+    throw error;
+  } finally {
+    tf.dispose([train.inputs, train.targets, held.inputs, held.targets]);
+  }
+  return { model, labels, history };
+}
+
+export function nextModelVersion(models: RecognitionModelInfo[], name: string): number {
+  return Math.max(0, ...models.filter(model => model.name === name).map(model => model.version)) + 1;
+}
+
+export async function listRecognitionModels(): Promise<RecognitionModelInfo[]> {
+  const models = await getAllRecords<RecognitionModelInfo>("recognitionModels");
+  return models.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Layers models are saved as TF.js weights, MediaPipe tasks as the file's bytes
+export async function saveRecognitionModel(model: tf.LayersModel | ArrayBuffer, info: RecognitionModelInfo) {
+  if (model instanceof ArrayBuffer) {
+    await putRecords<ModelFileRecord>("modelFiles", [{ id: info.id, data: model }]);
+  } else {
+    await model.save(modelUrl(info.id));
+  }
+  await putRecords("recognitionModels", [info]);
+}
+
+export async function loadRecognitionModel(info: RecognitionModelInfo): Promise<tf.LayersModel> {
+  try {
+    return await tf.loadLayersModel(modelUrl(info.id));
+  } catch (error) {
+    throw new Error(`Could not load "${info.name}" v${info.version}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+export async function loadModelTask(info: RecognitionModelInfo): Promise<ArrayBuffer> {
+  const record = await getRecord<ModelFileRecord>("modelFiles", info.id);
+  if (!record) throw new Error(`The task file for "${info.name}" v${info.version} is missing`);
+  return record.data;
+}
+
+export async function deleteRecognitionModel(info: RecognitionModelInfo) {
+  await deleteRecords("recognitionModels", [info.id]);
+  if (info.source === "mediapipe") {
+    await deleteRecords("modelFiles", [info.id]);
+    return;
+  }
+  // The registry record is what lists a model; stray weights are harmless
+  await tf.io.removeModel(modelUrl(info.id)).catch(error => console.error("Error removing model weights:", error));
+}
+
+// Classifies one input sequence (`sequenceSteps` × `frameFeatureLength`). The
+// scores are read back asynchronously, so the GPU is never waited on.
+export async function predictSequence(model: tf.LayersModel, labels: string[], features: number[][]): Promise<ClassificationResult> {
+  const output = tf.tidy(() => model.predict(tf.tensor3d([features])) as tf.Tensor);
+  const scores = await output.data();
+  output.dispose();
+  const probabilities: Record<string, number> = {};
+  let best = 0;
+  labels.forEach((label, index) => {
+    probabilities[label] = scores[index] ?? 0;
+    if (probabilities[label] > probabilities[labels[best]]) best = index;
+  });
+  return {
+    gesture: labels[best],
+    confidence: Math.round(probabilities[labels[best]] * 100),
+    probabilities
+  };
+}
+
+export function loadSelectedModelId(): string | null {
+  try {
+    return localStorage.getItem(SELECTED_MODEL_STORAGE_KEY);
+  } catch (error) {
+    console.error("Error loading selected model:", error);
+    return null;
+  }
+}
+
+export function saveSelectedModelId(id: string | null) {
+  try {
+    if (id) localStorage.setItem(SELECTED_MODEL_STORAGE_KEY, id);
+    else localStorage.removeItem(SELECTED_MODEL_STORAGE_KEY);
+  } catch (error) {
+    console.error("Error saving selected model:", error);
+  }
+}
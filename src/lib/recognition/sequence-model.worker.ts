@@ -0,0 +1,50 @@
+import type * as tf from "@tensorflow/tfjs";
+import { RecognitionModelInfo, loadRecognitionModel, predictSequence } from "./sequence-model";
+import { SequenceModelRequest, SequenceModelResponse } from "./inference-protocol";
+
+// Runs the selected TF.js sequence model off the main thread. The page keeps
+// the live window and sends one resampled sequence at a time.
+
+let model: tf.LayersModel | null = null;
+let info: RecognitionModelInfo | null = null;
+
+function respond(message: SequenceModelResponse) {
+  self.postMessage(message);
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function load(request: Extract<SequenceModelRequest, { type: "load" }>) {
+  model?.dispose();
+  model = null;
+  info = request.model;
+  try {
+    model = await loadRecognitionModel(request.model);
+    respond({ type: "loaded" });
+  } catch (error) {
+    respond({ type: "error", stage: "load", message: errorMessage(error) });
+  }
+}
+
+async function predict(request: Extract<SequenceModelRequest, { type: "predict" }>) {
+  try {
+    if (!model || !info) throw new Error("No sequence model is loaded");
+    respond({ type: "prediction", id: request.id, result: await predictSequence(model, info.labels, request.features) });
+  } catch (error) {
+    respond({ type: "error", stage: "predict", message: errorMessage(error) });
+  }
+}
+
+self.onmessage = (event: MessageEvent<SequenceModelRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case "load":
+      load(request);
+      break;
+    case "predict":
+      predict(request);
+      break;
+  }
+};
@@ -0,0 +1,205 @@
+import type { Handedness } from "./features";
+import type { DetectionMethod } from "./gesture-definitions";
+import { csvRow } from "./csv";
+
+// The full log of committed signs for one learner session, kept across page
+// visits and exported as CSV, JSON or a printable report.
+
+export interface SessionLogEntry {
+  gesture: string;
+  // Hands in view when the sign was committed; null for motion-only recognition
+  hands: Handedness | "Both" | null;
+  confidence: number;
+  method: DetectionMethod;
+  // Epoch milliseconds; `endedAt` stays null until the sign is released
+  startedAt: number;
+  endedAt: number | null;
+}
+
+export interface SessionLog {
+  learner: string;
+  startedAt: number;
+  entries: SessionLogEntry[];
+}
+
+export interface GestureSummary {
+  gesture: string;
+  count: number;
+  averageConfidence: number;
+  // Mean time from the sign starting to its release
+  averageDurationMs: number | null;
+}
+
+export interface SessionLogSummary {
+  total: number;
+  averageConfidence: number;
+  durationMs: number;
+  // Most frequent first
+  gestures: GestureSummary[];
+}
+
+export type SessionLogFormat = "csv" | "json";
+
+const SESSION_LOG_STORAGE_KEY = "hellenKellerSessionLog";
+
+const detectionMethodNames: Record<DetectionMethod, string> = {
+  manual: "Manual",
+  "frame-diff": "Frame Difference",
+  "object-detection": "Object Tracking",
+  "trained-model": "Trained Model"
+};
+
+export function createSessionLog(learner = ""): SessionLog {
+  return { learner, startedAt: Date.now(), entries: [] };
+}
+
+export function logCommit(log: SessionLog, entry: SessionLogEntry): SessionLog {
+  return { ...log, entries: [...log.entries, entry] };
+}
+
+// Closes the latest open entry for the released sign
+export function logRelease(log: SessionLog, gesture: string, endedAt: number): SessionLog {
+  const index = log.entries.map(entry => entry.gesture === gesture && entry.endedAt === null).lastIndexOf(true);
+  if (index === -1) return log;
+  const entries = [...log.entries];
+  entries[index] = { ...entries[index], endedAt };
+  return { ...log, entries };
+}
+
+export function summarizeSessionLog(log: SessionLog): SessionLogSummary {
+  const byGesture = new Map<string, SessionLogEntry[]>();
+  log.entries.forEach(entry => byGesture.set(entry.gesture, [...(byGesture.get(entry.gesture) ?? []), entry]));
+
+  const gestures = Array.from(byGesture, ([gesture, entries]) => {
+    const durations = entries.filter(entry => entry.endedAt !== null).map(entry => entry.endedAt! - entry.startedAt);
+    return {
+      gesture,
+      count: entries.length,
+      averageConfidence: Math.round(entries.reduce((sum, entry) => sum + entry.confidence, 0) / entries.length),
+      averageDurationMs: durations.length > 0
+        ? Math.round(durations.reduce((sum, duration) => sum + duration, 0) / durations.length)
+        : null
+    };
+  }).sort((a, b) => b.count - a.count || a.gesture.localeCompare(b.gesture));
+
+  const last = log.entries[log.entries.length - 1];
+  return {
+    total: log.entries.length,
+    averageConfidence: log.entries.length > 0
+      ? Math.round(log.entries.reduce((sum, entry) => sum + entry.confidence, 0) / log.entries.length)
+      : 0,
+    durationMs: last ? (last.endedAt ?? last.startedAt) - log.startedAt : 0,
+    gestures
+  };
+}
+
+const isoTime = (time: number | null) => (time === null ? "" : new Date(time).toISOString());
+
+export function serializeSessionLog(log: SessionLog, format: SessionLogFormat): string {
+  if (format === "json") {
+    return JSON.stringify({ ...log, summary: summarizeSessionLog(log) }, null, 2);
+  }
+  const header = ["gesture", "hands", "confidence", "method", "started_at", "ended_at", "duration_ms"];
+  const rows = log.entries.map(entry => [
+    entry.gesture,
+    entry.hands ?? "",
+    entry.confidence,
+    entry.method,
+    isoTime(entry.startedAt),
+    isoTime(entry.endedAt),
+    entry.endedAt === null ? "" : entry.endedAt - entry.startedAt
+  ]);
+  return [header, ...rows].map(csvRow).join("\n") + "\n";
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+// A standalone HTML page meant for the browser's print dialog
+export function sessionReportHtml(log: SessionLog): string {
+  const summary = summarizeSessionLog(log);
+  const started = new Date(log.startedAt);
+  const methods = Array.from(new Set(log.entries.map(entry => detectionMethodNames[entry.method])));
+  const title = `Signing Session Report${log.learner ? ` – ${log.learner}` : ""}`;
+
+  const gestureRows = summary.gestures.map(gesture => `
+        <tr>
+          <td>${escapeHtml(gesture.gesture)}</td>
+          <td>${gesture.count}</td>
+          <td>${gesture.averageConfidence}%</td>
+          <td>${gesture.averageDurationMs === null ? "–" : `${(gesture.averageDurationMs / 1000).toFixed(1)}s`}</td>
+        </tr>`).join("");
+  const entryRows = log.entries.map(entry => `
+        <tr>
+          <td>${new Date(entry.startedAt).toLocaleTimeString()}</td>
+          <td>${escapeHtml(entry.gesture)}</td>
+          <td>${entry.hands ?? "–"}</td>
+          <td>${entry.confidence}%</td>
+          <td>${detectionMethodNames[entry.method]}</td>
+        </tr>`).join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #111; }
+    h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+    h2 { font-size: 1.1rem; margin-top: 2rem; }
+    dl { display: grid; grid-template-columns: max-content auto; gap: 0.25rem 1rem; }
+    dt { color: #555; }
+    table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+    th, td { border-bottom: 1px solid #ddd; padding: 0.35rem 0.5rem; text-align: left; }
+    th { background: #f3f3f3; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <dl>
+    <dt>Date</dt><dd>${started.toLocaleDateString()} ${started.toLocaleTimeString()}</dd>
+    <dt>Duration</dt><dd>${formatDuration(summary.durationMs)}</dd>
+    <dt>Signs recognized</dt><dd>${summary.total}</dd>
+    <dt>Average confidence</dt><dd>${summary.averageConfidence}%</dd>
+    <dt>Detection methods</dt><dd>${methods.join(", ") || "–"}</dd>
+  </dl>
+  <h2>Per-Gesture Summary</h2>
+  <table>
+    <thead><tr><th>Gesture</th><th>Count</th><th>Avg. confidence</th><th>Avg. duration</th></tr></thead>
+    <tbody>${gestureRows}
+    </tbody>
+  </table>
+  <h2>Session Log</h2>
+  <table>
+    <thead><tr><th>Time</th><th>Gesture</th><th>Hands</th><th>Confidence</th><th>Method</th></tr></thead>
+    <tbody>${entryRows}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+}
+
+export function loadSessionLog(): SessionLog {
+  try {
+    const stored = localStorage.getItem(SESSION_LOG_STORAGE_KEY);
+    const log = stored ? JSON.parse(stored) : null;
+    return log && Array.isArray(log.entries) ? log : createSessionLog();
+  } catch (error) {
+    console.error("Error loading session log:", error);
+    return createSessionLog();
+  }
+}
+
+export function saveSessionLog(log: SessionLog) {
+  try {
+    localStorage.setItem(SESSION_LOG_STORAGE_KEY, JSON.stringify(log));
+  } catch (error) {
+    console.error("Error saving session log:", error);
+  }
+}
@@ -0,0 +1,70 @@
+import { readFileSync } from "fs";
+import { describe, expect, it } from "vitest";
+import { RecordedSession, compareCommits, parseSession, serializeSession } from "./session";
+
+const fixture = (name: string) => readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), "utf-8");
+
+const recorded = fixture("two-signs.session.ndjson");
+const expected: RecordedSession = JSON.parse(fixture("two-signs.expected.json"));
+
+// Swaps the fixture's first hand for a modified copy and serializes it back as NDJSON
+function withFirstHand(change: (hand: Record<string, unknown>) => void): string {
+  const session = parseSession(recorded);
+  const hand: Record<string, unknown> = { ...session.frames[0].hands[0] };
+  change(hand);
+  session.frames[0].hands[0] = hand as unknown as RecordedSession["frames"][number]["hands"][number];
+  return serializeSession(session, "ndjson");
+}
+
+describe("parseSession", () => {
+  it("reads the recorded fixture into time-ordered frames and commits", () => {
+    expect(parseSession(recorded)).toEqual(expected);
+  });
+
+  it("reads back both file formats it writes", () => {
+    const session = parseSession(recorded);
+    expect(parseSession(serializeSession(session, "ndjson"))).toEqual(expected);
+    expect(parseSession(serializeSession(session, "json"))).toEqual(expected);
+  });
+
+  it("rejects files that are not sessions", () => {
+    expect(() => parseSession("")).toThrow("empty");
+    expect(() => parseSession("{ not json")).toThrow("not valid JSON or NDJSON");
+    expect(() => parseSession(JSON.stringify({ format: "something-else" }))).toThrow("not a recorded landmark session");
+    expect(() => parseSession(recorded.replace('"version":1', '"version":99'))).toThrow("Unsupported session version 99");
+  });
+
+  it("rejects hands without 21 landmarks", () => {
+    const text = withFirstHand(hand => { hand.landmarks = (hand.landmarks as unknown[]).slice(0, 20); });
+    expect(() => parseSession(text)).toThrow("The frame at 0 ms has a hand without 21 landmarks");
+  });
+
+  it("rejects landmarks with missing or non-numeric coordinates", () => {
+    const missing = withFirstHand(hand => {
+      hand.landmarks = (hand.landmarks as object[]).map((point, index) => index === 3 ? { x: 0.5, y: 0.5 } : point);
+    });
+    const text = withFirstHand(hand => {
+      hand.landmarks = (hand.landmarks as object[]).map((point, index) => index === 3 ? { x: "0.5", y: 0.5, z: 0 } : point);
+    });
+    expect(() => parseSession(missing)).toThrow("numeric x, y and z");
+    expect(() => parseSession(text)).toThrow("numeric x, y and z");
+  });
+
+  it("rejects malformed world landmarks but accepts none", () => {
+    const malformed = withFirstHand(hand => { hand.worldLandmarks = [{ x: 0, y: 0, z: 0 }]; });
+    const absent = withFirstHand(hand => { delete hand.worldLandmarks; });
+    expect(() => parseSession(malformed)).toThrow("world landmarks");
+    expect(parseSession(absent).frames[0].hands[0].worldLandmarks).toEqual([]);
+  });
+});
+
+describe("compareCommits", () => {
+  it("counts the recorded commits a replay reproduced in order", () => {
+    const commit = (gesture: string) => ({ time: 0, gesture, confidence: 1 });
+    const result = compareCommits(
+      ["HELLO", "I", "THANK-YOU"].map(commit),
+      ["HELLO", "YOU", "THANK-YOU", "I"].map(commit)
+    );
+    expect(result).toEqual({ matched: 2, recorded: 3, replayed: 4 });
+  });
+});
@@ -0,0 +1,240 @@
+import type { HandLandmarkerResult } from "@mediapipe/tasks-vision";
+import type { Handedness, Landmark } from "./features";
+import type { MetricsSummary } from "./metrics";
+import type { NonManualFrame } from "./non-manual";
+
+// Recorded landmark sessions: raw MediaPipe hand landmarks per frame plus the
+// signs that were committed live, so a session can be replayed through the
+// recognizers and the commits compared.
+
+export const sessionFormat = "hellen-keller-landmark-session";
+export const sessionFormatVersion = 1;
+
+export type SessionFileFormat = "ndjson" | "json";
+
+export const replaySpeeds = [0.5, 1, 2, 4];
+
+// MediaPipe's hand model always returns this many points per hand
+const handLandmarkCount = 21;
+
+export interface RecordedHand {
+  // MediaPipe's own handedness label, before the unmirrored-input swap
+  handedness: Handedness;
+  score: number;
+  landmarks: Landmark[];
+  worldLandmarks: Landmark[];
+}
+
+export interface LandmarkFrame {
+  // Milliseconds since the session started (or a performance.now() time while live)
+  time: number;
+  aspectRatio: number;
+  hands: RecordedHand[];
+  // Face and body features, when non-manual tracking was on
+  nonManual?: NonManualFrame;
+}
+
+export interface SessionCommit {
+  time: number;
+  gesture: string;
+  confidence: number;
+}
+
+export interface SessionHeader {
+  format: typeof sessionFormat;
+  version: number;
+  createdAt: string;
+  dominantHand: Handedness;
+  // Whether the recorded frames were mirrored before detection
+  mirroredInput: boolean;
+  durationMs: number;
+  // Pipeline performance while the session was recorded
+  metrics?: MetricsSummary;
+}
+
+export interface RecordedSession {
+  header: SessionHeader;
+  frames: LandmarkFrame[];
+  commits: SessionCommit[];
+}
+
+type SessionRecord =
+  | ({ type: "header" } & SessionHeader)
+  | ({ type: "frame" } & LandmarkFrame)
+  | ({ type: "commit" } & SessionCommit);
+
+// Four decimals is well under a pixel at camera resolutions and halves the file size
+const round = (value: number) => Math.round(value * 1e4) / 1e4;
+
+function roundLandmarks(points: Landmark[] | undefined): Landmark[] {
+  return (points ?? []).map(point => ({ x: round(point.x), y: round(point.y), z: round(point.z) }));
+}
+
+export function landmarkFrameFromResult(result: HandLandmarkerResult, time: number, aspectRatio: number): LandmarkFrame {
+  return {
+    time,
+    aspectRatio: round(aspectRatio),
+    hands: (result.landmarks ?? []).map((points, index) => {
+      const category = result.handedness?.[index]?.[0];
+      return {
+        handedness: category?.categoryName === "Left" ? "Left" : "Right",
+        score: round(category?.score ?? 0),
+        landmarks: roundLandmarks(points),
+        worldLandmarks: roundLandmarks(result.worldLandmarks?.[index])
+      };
+    })
+  };
+}
+
+// Rebuilds the parts of a detector result that feature extraction reads
+export function landmarkFrameToResult(frame: LandmarkFrame): HandLandmarkerResult {
+  const handedness = frame.hands.map(hand => [{
+    score: hand.score,
+    index: hand.handedness === "Left" ? 0 : 1,
+    categoryName: hand.handedness,
+    displayName: hand.handedness
+  }]);
+
+  return {
+    landmarks: frame.hands.map(hand => hand.landmarks.map(point => ({ ...point, visibility: 1 }))),
+    worldLandmarks: frame.hands.map(hand => hand.worldLandmarks.map(point => ({ ...point, visibility: 1 }))),
+    handedness,
+    handednesses: handedness
+  };
+}
+
+export function createSessionHeader(dominantHand: Handedness, mirroredInput: boolean): SessionHeader {
+  return {
+    format: sessionFormat,
+    version: sessionFormatVersion,
+    createdAt: new Date().toISOString(),
+    dominantHand,
+    mirroredInput,
+    durationMs: 0
+  };
+}
+
+export function serializeSession(session: RecordedSession, fileFormat: SessionFileFormat): string {
+  if (fileFormat === "json") {
+    return JSON.stringify({ ...session.header, frames: session.frames, commits: session.commits });
+  }
+
+  // One record per line, in time order, so long sessions can be streamed and diffed
+  const records: SessionRecord[] = [
+    ...session.frames.map(frame => ({ type: "frame" as const, ...frame })),
+    ...session.commits.map(commit => ({ type: "commit" as const, ...commit }))
+  ].sort((a, b) => a.time - b.time);
+
+  return [{ type: "header", ...session.header }, ...records].map(record => JSON.stringify(record)).join("\n") + "\n";
+}
+
+function validateHeader(value: Partial<SessionHeader> | undefined): SessionHeader {
+  if (!value || value.format !== sessionFormat) {
+    throw new Error("This file is not a recorded landmark session");
+  }
+  if (typeof value.version !== "number" || value.version > sessionFormatVersion) {
+    throw new Error(`Unsupported session version ${value.version}`);
+  }
+  return {
+    format: sessionFormat,
+    version: value.version,
+    createdAt: value.createdAt ?? "",
+    dominantHand: value.dominantHand === "Left" ? "Left" : "Right",
+    mirroredInput: Boolean(value.mirroredInput),
+    durationMs: value.durationMs ?? 0,
+    metrics: value.metrics
+  };
+}
+
+function isFrame(value: Partial<LandmarkFrame>): value is LandmarkFrame {
+  return typeof value.time === "number" && typeof value.aspectRatio === "number" && Array.isArray(value.hands);
+}
+
+function isLandmark(value: Partial<Landmark> | null): value is Landmark {
+  return !!value && [value.x, value.y, value.z].every(coordinate => typeof coordinate === "number" && Number.isFinite(coordinate));
+}
+
+function isLandmarkList(value: unknown): value is Landmark[] {
+  return Array.isArray(value) && value.length === handLandmarkCount && value.every(isLandmark);
+}
+
+// Replay feeds hands straight into feature extraction, so a bad point would
+// surface later as NaN features rather than as an import error
+function validateHand(value: Partial<RecordedHand> | null, frame: LandmarkFrame): RecordedHand {
+  if (!value || !isLandmarkList(value.landmarks)) {
+    throw new Error(`The frame at ${frame.time} ms has a hand without ${handLandmarkCount} landmarks with numeric x, y and z`);
+  }
+  const worldLandmarks = value.worldLandmarks ?? [];
+  if (worldLandmarks.length > 0 && !isLandmarkList(worldLandmarks)) {
+    throw new Error(`The frame at ${frame.time} ms has a hand whose world landmarks are not ${handLandmarkCount} numeric x, y, z points`);
+  }
+  return {
+    handedness: value.handedness === "Left" ? "Left" : "Right",
+    score: typeof value.score === "number" ? value.score : 0,
+    landmarks: value.landmarks.map(({ x, y, z }) => ({ x, y, z })),
+    worldLandmarks: worldLandmarks.map(({ x, y, z }) => ({ x, y, z }))
+  };
+}
+
+function validateFrame(frame: LandmarkFrame): LandmarkFrame {
+  return { ...frame, hands: frame.hands.map(hand => validateHand(hand, frame)) };
+}
+
+function isCommit(value: Partial<SessionCommit>): value is SessionCommit {
+  return typeof value.time === "number" && typeof value.gesture === "string";
+}
+
+// Reads either file format; throws with a readable message on malformed input
+export function parseSession(text: string): RecordedSession {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error("The session file is empty");
+
+  let header: SessionHeader;
+  let frames: LandmarkFrame[] = [];
+  let commits: SessionCommit[] = [];
+
+  // A JSON document parses as a whole; NDJSON only line by line
+  let document: (Partial<SessionHeader> & { type?: string; frames?: unknown; commits?: unknown }) | null = null;
+  try {
+    document = JSON.parse(trimmed);
+  } catch {
+    document = null;
+  }
+
+  if (document && document.type !== "header") {
+    header = validateHeader(document);
+    frames = Array.isArray(document.frames) ? document.frames : [];
+    commits = Array.isArray(document.commits) ? document.commits : [];
+  } else {
+    let records: SessionRecord[];
+    try {
+      records = trimmed.split(/\r?\n/).filter(line => line.trim()).map(line => JSON.parse(line));
+    } catch {
+      throw new Error("The session file is not valid JSON or NDJSON");
+    }
+    header = validateHeader(records.find(record => record.type === "header"));
+    frames = records.filter(record => record.type === "frame").map(({ type, ...frame }) => frame as LandmarkFrame);
+    commits = records.filter(record => record.type === "commit").map(({ type, ...commit }) => commit as SessionCommit);
+  }
+
+  return {
+    header,
+    frames: frames.filter(isFrame).map(validateFrame).sort((a, b) => a.time - b.time),
+    commits: commits.filter(isCommit).sort((a, b) => a.time - b.time)
+  };
+}
+
+// How many recorded commits a replay reproduced, in order (longest common subsequence)
+export function compareCommits(recorded: SessionCommit[], replayed: SessionCommit[]) {
+  const table = Array.from({ length: recorded.length + 1 }, () => new Array<number>(replayed.length + 1).fill(0));
+  for (let i = 1; i <= recorded.length; i++) {
+    for (let j = 1; j <= replayed.length; j++) {
+      table[i][j] = recorded[i - 1].gesture === replayed[j - 1].gesture
+        ? table[i - 1][j - 1] + 1
+        : Math.max(table[i - 1][j], table[i][j - 1]);
+    }
+  }
+  return { matched: table[recorded.length][replayed.length], recorded: recorded.length, replayed: replayed.length };
+}
+
+export type CommitComparison = ReturnType<typeof compareCommits>;
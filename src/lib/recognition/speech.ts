@@ -0,0 +1,87 @@
+// Spoken output for recognized signs: voice, language and rate settings, and
+// per-gesture text to say instead of the gesture's name.
+
+export interface SpeechSettings {
+  // Speak each committed gesture and finished fingerspelled word
+  speakGestures: boolean;
+  lang: string;
+  // A SpeechSynthesisVoice.voiceURI; null picks the browser's voice for `lang`
+  voiceURI: string | null;
+  rate: number;
+  // Spoken text keyed by gesture label
+  phrases: Record<string, string>;
+}
+
+export const speechLanguages = [
+  { code: "en-IN", name: "English (India)" },
+  { code: "hi-IN", name: "Hindi" },
+  { code: "en-US", name: "English (US)" },
+  { code: "en-GB", name: "English (UK)" }
+];
+
+// Spoken by the Test Voice button, keyed by base language
+const testPhrases: Record<string, string> = {
+  en: "Hello, this is how recognized signs will sound",
+  hi: "नमस्ते, पहचाने गए संकेत ऐसे सुनाई देंगे"
+};
+
+export function speechTestPhrase(lang: string): string {
+  return testPhrases[lang.split("-")[0]] ?? testPhrases.en;
+}
+
+export const minSpeechRate = 0.5;
+export const maxSpeechRate = 2;
+
+// Utterances waiting beyond this are stale by the time they would be spoken
+export const maxQueuedUtterances = 3;
+
+export const defaultSpeechSettings: SpeechSettings = {
+  speakGestures: false,
+  lang: "en-IN",
+  voiceURI: null,
+  rate: 1,
+  phrases: {}
+};
+
+const SPEECH_STORAGE_KEY = "hellenKellerSpeechSettings";
+
+// Exact locale first, then other voices of the same language
+export function voicesForLanguage(voices: SpeechSynthesisVoice[], lang: string): SpeechSynthesisVoice[] {
+  const base = lang.split("-")[0].toLowerCase();
+  const normalize = (voiceLang: string) => voiceLang.replace("_", "-").toLowerCase();
+  const exact = voices.filter(voice => normalize(voice.lang) === lang.toLowerCase());
+  const related = voices.filter(voice =>
+    normalize(voice.lang).split("-")[0] === base && normalize(voice.lang) !== lang.toLowerCase()
+  );
+  return [...exact, ...related];
+}
+
+export function pickVoice(voices: SpeechSynthesisVoice[], settings: SpeechSettings): SpeechSynthesisVoice | null {
+  const candidates = voicesForLanguage(voices, settings.lang);
+  const chosen = candidates.find(voice => voice.voiceURI === settings.voiceURI);
+  // Voices of the exact locale come first, so only a default among them is preferred
+  const exactDefault = candidates.find(voice => voice.default && voice.lang.replace("_", "-") === settings.lang);
+  return chosen ?? exactDefault ?? candidates[0] ?? null;
+}
+
+export function spokenText(gesture: string, settings: SpeechSettings): string {
+  return settings.phrases[gesture]?.trim() || gesture;
+}
+
+export function loadSpeechSettings(): SpeechSettings {
+  try {
+    const stored = localStorage.getItem(SPEECH_STORAGE_KEY);
+    return stored ? { ...defaultSpeechSettings, ...JSON.parse(stored) } : defaultSpeechSettings;
+  } catch (error) {
+    console.error("Error loading speech settings:", error);
+    return defaultSpeechSettings;
+  }
+}
+
+export function saveSpeechSettings(settings: SpeechSettings) {
+  try {
+    localStorage.setItem(SPEECH_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Error saving speech settings:", error);
+  }
+}
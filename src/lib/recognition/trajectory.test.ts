@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { defaultCommitOptions } from "./commit";
+import { TrajectoryPoint, builtInTemplates, dtwDistance, matchTrajectory, normalizePath } from "./trajectory";
+
+const palmSize = 0.1;
+
+// A palm path sampled at `times` (ms), as the recognizer records it
+function track(path: (t: number) => { x: number; y: number }, times: number[]): TrajectoryPoint[] {
+  const end = times[times.length - 1];
+  return times.map(time => ({ ...path(time / end), palmSize, time }));
+}
+
+const evenly = (count: number) => Array.from({ length: count }, (_, index) => index * 50);
+// Slow start, fast finish
+const accelerating = (count: number) => Array.from({ length: count }, (_, index) => Math.round(1000 * Math.sqrt(index / (count - 1))));
+
+const swipe = (t: number) => ({ x: 0.3 + 0.4 * t, y: 0.5 });
+const wave = (t: number) => ({ x: 0.5 + 0.15 * Math.sin(t * 4 * Math.PI), y: 0.5 });
+
+describe("dtwDistance", () => {
+  const path = normalizePath(track(wave, evenly(30)));
+
+  it("is zero for identical paths and symmetric", () => {
+    const other = normalizePath(track(swipe, evenly(30)));
+    expect(dtwDistance(path, path)).toBe(0);
+    expect(dtwDistance(path, other)).toBeCloseTo(dtwDistance(other, path), 10);
+  });
+
+  it("averages the offset between aligned points", () => {
+    const shifted = path.map(point => ({ x: point.x + 0.1, y: point.y }));
+    expect(dtwDistance(path, shifted)).toBeCloseTo(0.05, 10);
+  });
+
+  it("aligns the same shape drawn at a different speed", () => {
+    // Lingering at the start: each of the first points is held for a second sample
+    const lingering = path.flatMap((point, index) => index < 8 ? [point, point] : [point]);
+    expect(lingering).toHaveLength(40);
+    expect(dtwDistance(path, lingering)).toBe(0);
+  });
+});
+
+describe("normalizePath", () => {
+  it("compares paths by shape regardless of position, size and sampling", () => {
+    const reference = normalizePath(track(swipe, evenly(10)));
+    const moved = normalizePath(track(t => ({ x: 0.1 + 0.8 * t, y: 0.2 }), accelerating(25)));
+    expect(reference).toHaveLength(32);
+    moved.forEach((point, index) => {
+      expect(point.x).toBeCloseTo(reference[index].x, 10);
+      expect(point.y).toBeCloseTo(reference[index].y, 10);
+    });
+  });
+});
+
+describe("matchTrajectory", () => {
+  it("matches movements to the built-in templates at any speed", () => {
+    expect(matchTrajectory(track(swipe, evenly(12)), builtInTemplates, 1)?.gesture).toBe("Swipe Left");
+    expect(matchTrajectory(track(swipe, accelerating(12)), builtInTemplates, 1)?.gesture).toBe("Swipe Left");
+    expect(matchTrajectory(track(t => swipe(1 - t), evenly(12)), builtInTemplates, 1)?.gesture).toBe("Swipe Right");
+    expect(matchTrajectory(track(wave, evenly(30)), builtInTemplates, 1)?.gesture).toBe("Goodbye");
+  });
+
+  it("scores a closer match higher", () => {
+    const exact = matchTrajectory(track(swipe, evenly(12)), builtInTemplates, 1);
+    const wobbly = matchTrajectory(track(t => ({ x: swipe(t).x, y: 0.5 + 0.03 * Math.sin(t * 6 * Math.PI) }), evenly(12)), builtInTemplates, 1);
+    expect(exact?.confidence).toBeGreaterThan(90);
+    expect(wobbly?.gesture).toBe("Swipe Left");
+    expect(wobbly!.confidence).toBeLessThan(exact!.confidence);
+  });
+
+  it("returns nothing for too few points, too little movement or no templates", () => {
+    expect(matchTrajectory(track(swipe, evenly(4)), builtInTemplates, 1)).toBeNull();
+    expect(matchTrajectory(track(swipe, evenly(12)), builtInTemplates, 10)).toBeNull();
+    expect(matchTrajectory(track(swipe, evenly(12)), [], 1)).toBeNull();
+  });
+
+  it("scores the wrong template too low to commit", () => {
+    const swipeRight = builtInTemplates.filter(template => template.label === "Swipe Right");
+    const match = matchTrajectory(track(swipe, evenly(12)), swipeRight, 1);
+    expect(match?.confidence ?? 0).toBeLessThan(defaultCommitOptions.enterConfidence);
+  });
+});
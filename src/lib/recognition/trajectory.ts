@@ -0,0 +1,260 @@
+import type { HandFeatures } from "./features";
+
+export interface TrajectoryPoint {
+  // Palm centre in aspect-corrected image units (y down)
+  x: number;
+  y: number;
+  palmSize: number;
+  time: number;
+}
+
+export interface TrajectoryTemplate {
+  label: string;
+  // Resampled, centred and scale-normalized path
+  points: Array<{ x: number; y: number }>;
+  createdAt: number;
+  builtIn?: boolean;
+}
+
+export interface TrajectoryDescription {
+  // Total distance travelled, in palm units
+  pathLength: number;
+  // Start → end displacement, in palm units
+  netDisplacement: { x: number; y: number };
+  direction: "left" | "right" | "up" | "down" | "none";
+  // Number of back-and-forth direction reversals along the main axis
+  repetitions: number;
+  shape: "straight" | "curved" | "oscillating" | "circular";
+}
+
+export interface TrajectoryMatch {
+  gesture: string;
+  confidence: number;
+  distance: number;
+  description: TrajectoryDescription;
+}
+
+const resampleCount = 32;
+const TEMPLATES_STORAGE_KEY = "hellenKellerTrajectoryTemplates";
+
+// DTW distance (in normalized path units) at which confidence reaches zero
+const maxMatchDistance = 0.6;
+
+export function toTrajectoryPoint(hand: HandFeatures, time: number): TrajectoryPoint {
+  return {
+    x: hand.center.x * hand.aspectRatio,
+    y: hand.center.y,
+    palmSize: hand.palmSize,
+    time
+  };
+}
+
+// Keeps only the points recorded within the last `durationMs`
+export function trimTrajectory(points: TrajectoryPoint[], now: number, durationMs: number): TrajectoryPoint[] {
+  const cutoff = now - durationMs;
+  return points.filter(point => point.time >= cutoff);
+}
+
+function averagePalmSize(points: TrajectoryPoint[]): number {
+  return points.reduce((sum, point) => sum + point.palmSize, 0) / (points.length || 1) || 1;
+}
+
+export function describeTrajectory(points: TrajectoryPoint[]): TrajectoryDescription {
+  const palm = averagePalmSize(points);
+  let pathLength = 0;
+  let turning = 0;
+  let previousAngle: number | null = null;
+
+  for (let i = 1; i < points.length; i++) {
+    const dx = points[i].x - points[i - 1].x;
+    const dy = points[i].y - points[i - 1].y;
+    const step = Math.hypot(dx, dy);
+    pathLength += step;
+    // Ignore jitter when accumulating turning
+    if (step / palm > 0.05) {
+      const angle = Math.atan2(dy, dx);
+      if (previousAngle !== null) {
+        let delta = angle - previousAngle;
+        while (delta > Math.PI) delta -= 2 * Math.PI;
+        while (delta < -Math.PI) delta += 2 * Math.PI;
+        turning += delta;
+      }
+      previousAngle = angle;
+    }
+  }
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const netDisplacement = points.length > 1
+    ? { x: (last.x - first.x) / palm, y: (last.y - first.y) / palm }
+    : { x: 0, y: 0 };
+  pathLength /= palm;
+
+  const net = Math.hypot(netDisplacement.x, netDisplacement.y);
+  let direction: TrajectoryDescription["direction"] = "none";
+  if (net > 0.5) {
+    if (Math.abs(netDisplacement.x) > Math.abs(netDisplacement.y)) {
+      // Unmirrored camera: the signer's leftward movement goes right in the image
+      direction = netDisplacement.x > 0 ? "left" : "right";
+    } else {
+      direction = netDisplacement.y > 0 ? "down" : "up";
+    }
+  }
+
+  // Count reversals along the axis with the widest range of motion
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const horizontal = Math.max(...xs) - Math.min(...xs) >= Math.max(...ys) - Math.min(...ys);
+  const axis = horizontal ? xs : ys;
+  let repetitions = 0;
+  let lastSign = 0;
+  let travelled = 0;
+  for (let i = 1; i < axis.length; i++) {
+    const delta = axis[i] - axis[i - 1];
+    travelled += Math.abs(delta);
+    const sign = Math.sign(delta);
+    if (sign !== 0 && sign !== lastSign && travelled / palm > 0.4) {
+      if (lastSign !== 0) repetitions++;
+      lastSign = sign;
+      travelled = 0;
+    }
+  }
+
+  const straightness = pathLength > 0 ? net / pathLength : 1;
+  let shape: TrajectoryDescription["shape"] = "curved";
+  if (Math.abs(turning) > 1.6 * Math.PI) shape = "circular";
+  else if (repetitions >= 2) shape = "oscillating";
+  else if (straightness > 0.85) shape = "straight";
+
+  return { pathLength, netDisplacement, direction, repetitions, shape };
+}
+
+// Resamples a path to `count` equally spaced points, centred on its mean and
+// scaled by its largest extent so templates compare by shape and direction.
+export function normalizePath(points: Array<{ x: number; y: number }>, count = resampleCount) {
+  if (points.length === 0) return [];
+
+  const distances = [0];
+  for (let i = 1; i < points.length; i++) {
+    distances.push(distances[i - 1] + Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y));
+  }
+  const total = distances[distances.length - 1];
+
+  const resampled: Array<{ x: number; y: number }> = [];
+  let segment = 1;
+  for (let i = 0; i < count; i++) {
+    const target = total === 0 ? 0 : (total * i) / (count - 1);
+    while (segment < points.length - 1 && distances[segment] < target) segment++;
+    const start = points[Math.max(0, segment - 1)];
+    const end = points[Math.min(points.length - 1, segment)];
+    const span = distances[segment] - distances[Math.max(0, segment - 1)];
+    const t = span > 0 ? (target - distances[segment - 1]) / span : 0;
+    resampled.push({ x: start.x + (end.x - start.x) * t, y: start.y + (end.y - start.y) * t });
+  }
+
+  const meanX = resampled.reduce((sum, point) => sum + point.x, 0) / count;
+  const meanY = resampled.reduce((sum, point) => sum + point.y, 0) / count;
+  const extent = Math.max(
+    ...resampled.map(point => Math.max(Math.abs(point.x - meanX), Math.abs(point.y - meanY)))
+  ) || 1;
+
+  return resampled.map(point => ({ x: (point.x - meanX) / extent, y: (point.y - meanY) / extent }));
+}
+
+// Dynamic time warping with a Sakoe-Chiba band, normalized by path length
+export function dtwDistance(a: Array<{ x: number; y: number }>, b: Array<{ x: number; y: number }>, band = 8): number {
+  const n = a.length;
+  const m = b.length;
+  const cost: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(Infinity));
+  cost[0][0] = 0;
+
+  for (let i = 1; i <= n; i++) {
+    const from = Math.max(1, i - band);
+    const to = Math.min(m, i + band);
+    for (let j = from; j <= to; j++) {
+      const d = Math.hypot(a[i - 1].x - b[j - 1].x, a[i - 1].y - b[j - 1].y);
+      cost[i][j] = d + Math.min(cost[i - 1][j], cost[i][j - 1], cost[i - 1][j - 1]);
+    }
+  }
+
+  return cost[n][m] / (n + m);
+}
+
+function line(dx: number, dy: number) {
+  return Array.from({ length: 8 }, (_, i) => ({ x: dx * i, y: dy * i }));
+}
+
+function wave(cycles: number) {
+  return Array.from({ length: 40 }, (_, i) => ({ x: Math.sin((i / 39) * cycles * 2 * Math.PI), y: 0 }));
+}
+
+// Built-in movement templates, in unmirrored image space (the signer's right
+// is the image's left). Hello is an outward arc from the forehead, Goodbye a
+// side-to-side wave.
+export const builtInTemplates: TrajectoryTemplate[] = [
+  { label: "Swipe Left", points: normalizePath(line(1, 0)), createdAt: 0, builtIn: true },
+  { label: "Swipe Right", points: normalizePath(line(-1, 0)), createdAt: 0, builtIn: true },
+  { label: "Swipe Up", points: normalizePath(line(0, -1)), createdAt: 0, builtIn: true },
+  { label: "Swipe Down", points: normalizePath(line(0, 1)), createdAt: 0, builtIn: true },
+  {
+    label: "Hello",
+    points: normalizePath(Array.from({ length: 12 }, (_, i) => {
+      const angle = (i / 11) * (Math.PI / 2);
+      return { x: -Math.sin(angle), y: -Math.cos(angle) + 1 - 0.3 * Math.sin(angle) };
+    })),
+    createdAt: 0,
+    builtIn: true
+  },
+  { label: "Goodbye", points: normalizePath(wave(2)), createdAt: 0, builtIn: true }
+];
+
+export function createTemplate(label: string, points: TrajectoryPoint[]): TrajectoryTemplate {
+  return { label, points: normalizePath(points), createdAt: Date.now() };
+}
+
+// Matches the recent trajectory against every template. Returns null while the
+// hand has not travelled `minPathLength` palm units.
+export function matchTrajectory(
+  points: TrajectoryPoint[],
+  templates: TrajectoryTemplate[],
+  minPathLength: number
+): TrajectoryMatch | null {
+  if (points.length < 5 || templates.length === 0) return null;
+
+  const description = describeTrajectory(points);
+  if (description.pathLength < minPathLength) return null;
+
+  const path = normalizePath(points);
+  let best: { template: TrajectoryTemplate; distance: number } | null = null;
+  for (const template of templates) {
+    const distance = dtwDistance(path, template.points);
+    if (!best || distance < best.distance) best = { template, distance };
+  }
+
+  if (!best || best.distance > maxMatchDistance) return null;
+
+  return {
+    gesture: best.template.label,
+    confidence: Math.round(100 * (1 - best.distance / maxMatchDistance)),
+    distance: best.distance,
+    description
+  };
+}
+
+export function loadTemplates(): TrajectoryTemplate[] {
+  try {
+    const stored = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Error loading movement templates:", error);
+    return [];
+  }
+}
+
+export function saveTemplates(templates: TrajectoryTemplate[]) {
+  try {
+    localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates.filter(template => !template.builtIn)));
+  } catch (error) {
+    console.error("Error saving movement templates:", error);
+  }
+}
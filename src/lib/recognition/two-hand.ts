@@ -0,0 +1,97 @@
+import { HandFeatures, Handedness, Landmark, featureVectorLength, fingertipIndices } from "./features";
+
+export interface HandPair {
+  dominant: HandFeatures;
+  nonDominant: HandFeatures | null;
+}
+
+export interface InterHandFeatures {
+  // Palm-centre distance in average palm units
+  distance: number;
+  // Non-dominant palm centre relative to the dominant one, in palm units (y down)
+  relativePosition: { x: number; y: number };
+  // Closest fingertip of either hand to any landmark of the other, in palm units
+  closestContact: number;
+  inContact: boolean;
+  // Palm size ratio non-dominant / dominant (hints at depth difference)
+  scaleRatio: number;
+  vector: number[];
+}
+
+// Fingertip-to-hand distance below which the hands count as touching
+const contactThreshold = 0.3;
+
+export const interHandVectorLength = 6;
+export const twoHandVectorLength = featureVectorLength * 2 + interHandVectorLength;
+
+// Splits detected hands into dominant and non-dominant. When both hands are
+// labelled the same (a common tracking glitch), the one on the signer's
+// dominant side of the frame wins.
+export function pairHands(hands: HandFeatures[], dominantHand: Handedness): HandPair | null {
+  if (hands.length === 0) return null;
+  if (hands.length === 1) return { dominant: hands[0], nonDominant: null };
+
+  const [first, second] = hands;
+  if (first.handedness !== second.handedness) {
+    return first.handedness === dominantHand
+      ? { dominant: first, nonDominant: second }
+      : { dominant: second, nonDominant: first };
+  }
+
+  // Signer's right hand appears on the left of an unmirrored frame
+  const firstIsRightOfSigner = first.center.x < second.center.x;
+  const firstIsDominant = dominantHand === "Right" ? firstIsRightOfSigner : !firstIsRightOfSigner;
+  return firstIsDominant
+    ? { dominant: first, nonDominant: second }
+    : { dominant: second, nonDominant: first };
+}
+
+function imageDistance(a: Landmark, b: Landmark, aspectRatio: number): number {
+  return Math.hypot((a.x - b.x) * aspectRatio, a.y - b.y);
+}
+
+export function extractInterHandFeatures(dominant: HandFeatures, nonDominant: HandFeatures): InterHandFeatures {
+  const aspectRatio = dominant.aspectRatio;
+  const palmUnit = (dominant.palmSize + nonDominant.palmSize) / 2 || 1;
+
+  const relativePosition = {
+    x: ((nonDominant.center.x - dominant.center.x) * aspectRatio) / palmUnit,
+    y: (nonDominant.center.y - dominant.center.y) / palmUnit
+  };
+  const distance = Math.hypot(relativePosition.x, relativePosition.y);
+
+  let closestContact = Infinity;
+  const pairs: Array<[HandFeatures, HandFeatures]> = [[dominant, nonDominant], [nonDominant, dominant]];
+  for (const [from, to] of pairs) {
+    for (const tip of fingertipIndices) {
+      for (const point of to.imageLandmarks) {
+        const d = imageDistance(from.imageLandmarks[tip], point, aspectRatio) / palmUnit;
+        if (d < closestContact) closestContact = d;
+      }
+    }
+  }
+
+  const scaleRatio = dominant.palmSize > 0 ? nonDominant.palmSize / dominant.palmSize : 1;
+  const inContact = closestContact < contactThreshold;
+
+  return {
+    distance,
+    relativePosition,
+    closestContact,
+    inContact,
+    scaleRatio,
+    vector: [
+      relativePosition.x,
+      relativePosition.y,
+      distance,
+      Math.min(closestContact, 3),
+      inContact ? 1 : 0,
+      scaleRatio
+    ]
+  };
+}
+
+// Classifier input for a two-handed sign: both hands plus their relation
+export function twoHandVector(dominant: HandFeatures, nonDominant: HandFeatures, inter: InterHandFeatures): number[] {
+  return [...dominant.vector, ...nonDominant.vector, ...inter.vector];
+}
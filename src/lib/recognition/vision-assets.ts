@@ -0,0 +1,125 @@
+import { FilesetResolver } from "@mediapipe/tasks-vision";
+
+type WasmFileset = Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>;
+type ModuleFactory = (moduleArg?: object) => Promise<unknown>;
+
+declare global {
+  // Read, and cleared, by MediaPipe each time it creates a task
+  var ModuleFactory: ModuleFactory | undefined;
+}
+
+interface WasmRuntime {
+  fileset: WasmFileset;
+  factory: ModuleFactory;
+}
+
+export type Delegate = "GPU" | "CPU";
+
+export interface LoadedVisionTask<T> {
+  task: T;
+  delegate: Delegate;
+}
+
+// Model files every build serves from public/mediapipe/models (see
+// scripts/mediapipe-models.mjs); nothing is loaded from the network
+export const visionModels = {
+  handLandmarker: "hand_landmarker.task",
+  selfieSegmenter: "selfie_segmenter.tflite",
+  faceLandmarker: "face_landmarker.task",
+  poseLandmarker: "pose_landmarker_lite.task"
+};
+
+export type VisionModel = keyof typeof visionModels;
+
+const assetBase = `${import.meta.env.BASE_URL}mediapipe`;
+const wasmPath = `${assetBase}/wasm`;
+
+let runtime: Promise<WasmRuntime> | null = null;
+
+// The dev server answers unknown paths with index.html, which is not a model
+async function isAvailable(url: string): Promise<boolean> {
+  try {
+    const response = await fetch(url, { method: "HEAD" });
+    return response.ok && !response.headers.get("content-type")?.includes("text/html");
+  } catch {
+    return false;
+  }
+}
+
+// MediaPipe would load its WASM loader script with importScripts, which module
+// workers lack. The bundled loader is used instead: with an empty loader path
+// MediaPipe takes the ModuleFactory global that createWithDelegates sets.
+async function importRuntime(): Promise<WasmRuntime> {
+  const simd = await FilesetResolver.isSimdSupported();
+  const loader = simd
+    ? await import("virtual:mediapipe-wasm-loader/vision_wasm_internal")
+    : await import("virtual:mediapipe-wasm-loader/vision_wasm_nosimd_internal");
+  const name = simd ? "vision_wasm_internal" : "vision_wasm_nosimd_internal";
+  return {
+    fileset: { wasmLoaderPath: "", wasmBinaryPath: `${wasmPath}/${name}.wasm` },
+    factory: loader.default
+  };
+}
+
+function loadRuntime(): Promise<WasmRuntime> {
+  if (!runtime) {
+    runtime = importRuntime().catch(error => {
+      // Allow a later retry instead of caching the failure
+      runtime = null;
+      throw error;
+    });
+  }
+  return runtime;
+}
+
+export function modelUrl(model: VisionModel): string {
+  return `${assetBase}/models/${visionModels[model]}`;
+}
+
+// Tries each delegate in turn, returning the first task created
+async function createWithDelegates<T>(
+  name: string,
+  delegates: Delegate[],
+  create: (fileset: WasmFileset, delegate: Delegate) => Promise<T>
+): Promise<LoadedVisionTask<T>> {
+  let lastError: unknown = new Error(`No delegate available for ${name}`);
+  for (const delegate of delegates) {
+    try {
+      const { fileset, factory } = await loadRuntime();
+      // Set right before creating, since concurrent creations each clear it
+      globalThis.ModuleFactory = factory;
+      const task = await create(fileset, delegate);
+      return { task, delegate };
+    } catch (error) {
+      console.warn(`Could not create ${name} (${delegate}):`, error);
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
+
+// Creates a MediaPipe vision task from the bundled assets, preferring the GPU
+// delegate and falling back to the CPU. A model missing from the build is an
+// error rather than a download.
+export async function createVisionTask<T>(
+  model: VisionModel,
+  create: (fileset: WasmFileset, modelAssetPath: string, delegate: Delegate) => Promise<T>,
+  delegates: Delegate[] = ["GPU", "CPU"]
+): Promise<LoadedVisionTask<T>> {
+  const url = modelUrl(model);
+  if (!(await isAvailable(url))) {
+    throw new Error(`${visionModels[model]} is missing from this build; run \`npm run fetch:models\` and rebuild`);
+  }
+  return createWithDelegates(model, delegates, (fileset, delegate) => create(fileset, url, delegate));
+}
+
+// Creates a task from a model the user supplied, with the same delegate
+// fallback as createVisionTask
+export async function createCustomVisionTask<T>(
+  name: string,
+  create: (fileset: WasmFileset, delegate: Delegate) => Promise<T>,
+  delegates: Delegate[] = ["GPU", "CPU"]
+): Promise<LoadedVisionTask<T>> {
+  return createWithDelegates(name, delegates, create);
+}
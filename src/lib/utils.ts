@@ -4,3 +4,14 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// Saves text or a blob through a temporary download link
+export function downloadFile(fileName: string, content: string | Blob, mimeType = "text/plain") {
+  const blob = typeof content === "string" ? new Blob([content], { type: mimeType }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
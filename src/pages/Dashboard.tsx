@@ -13,15 +13,21 @@ import {
   Award,
   TrendingUp,
   Heart,
-  Globe
+  Globe,
+  Brain
 } from "lucide-react";
 import TranslationHub from "@/components/TranslationHub";
 import HandRecognition from "@/components/HandRecognition";
 import LearningCenter from "@/components/LearningCenter";
 import FileUpload from "@/components/FileUpload";
+import ModelTraining from "@/components/ModelTraining";
+import type { TranslationTab } from "@/lib/recognition/commands";
 
 const Dashboard = () => {
   const [activeFeature, setActiveFeature] = useState<string | null>(null);
+  // Text handed from one feature to another, e.g. fingerspelling → translation
+  const [sharedText, setSharedText] = useState("");
+  const [translationTab, setTranslationTab] = useState<TranslationTab>("translate");
   const [userInfo, setUserInfo] = useState<any>(null);
   const [stats, setStats] = useState({
     translationsUsed: 42,
@@ -70,6 +76,14 @@ const Dashboard = () => {
       icon: Upload,
       color: "from-success to-success/80",
       component: FileUpload
+    },
+    {
+      id: "model-training",
+      title: "Model Training",
+      description: "Train sign recognizers on your samples or import your own",
+      icon: Brain,
+      color: "from-primary to-accent",
+      component: ModelTraining
     }
   ];
 
@@ -77,8 +91,29 @@ const Dashboard = () => {
     const feature = features.find(f => f.id === activeFeature);
     if (!feature) return null;
     
+    const onClose = () => setActiveFeature(null);
+    if (feature.id === "hand-recognition") {
+      return (
+        <HandRecognition
+          onClose={onClose}
+          onSendText={(text) => {
+            setSharedText(text);
+            setTranslationTab("translate");
+            setActiveFeature("translation");
+          }}
+          onOpenTranslation={(tab) => {
+            setTranslationTab(tab);
+            setActiveFeature("translation");
+          }}
+        />
+      );
+    }
+    if (feature.id === "translation") {
+      return <TranslationHub onClose={onClose} initialText={sharedText} initialTab={translationTab} />;
+    }
+    
     const Component = feature.component;
-    return <Component onClose={() => setActiveFeature(null)} />;
+    return <Component onClose={onClose} />;
   };
 
   if (activeFeature) {
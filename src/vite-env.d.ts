@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+// MediaPipe WASM loader scripts, bundled as modules by vite.config.ts
+declare module "virtual:mediapipe-wasm-loader/*" {
+  const ModuleFactory: (moduleArg?: object) => Promise<unknown>;
+  export default ModuleFactory;
+}
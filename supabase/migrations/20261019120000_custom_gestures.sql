@@ -0,0 +1,73 @@
+-- Custom gestures trained in the recognizer: k-NN feature samples and movement
+-- templates per label, owned by the (possibly anonymous) user who trained them.
+
+create type public.gesture_visibility as enum ('private', 'link', 'public');
+
+create table public.custom_gestures (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  label text not null check (char_length(label) between 1 and 64),
+  -- [{ "vector": number[], "createdAt": number }], one- or two-handed feature vectors
+  samples jsonb not null default '[]'::jsonb,
+  -- [{ "points": [{ "x": number, "y": number }], "createdAt": number }]
+  templates jsonb not null default '[]'::jsonb,
+  -- Length of a one-handed feature vector when the samples were recorded
+  feature_length integer not null,
+  visibility public.gesture_visibility not null default 'private',
+  -- Anyone holding the token can import a 'link' or 'public' gesture
+  share_token uuid not null default gen_random_uuid() unique,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (owner_id, label)
+);
+
+create index custom_gestures_public_idx on public.custom_gestures (updated_at desc) where visibility = 'public';
+
+alter table public.custom_gestures enable row level security;
+
+create policy "Owners and everyone for public gestures can read"
+  on public.custom_gestures for select
+  using (owner_id = auth.uid() or visibility = 'public');
+
+create policy "Owners can insert their gestures"
+  on public.custom_gestures for insert
+  with check (owner_id = auth.uid());
+
+create policy "Owners can update their gestures"
+  on public.custom_gestures for update
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+create policy "Owners can delete their gestures"
+  on public.custom_gestures for delete
+  using (owner_id = auth.uid());
+
+create function public.touch_custom_gesture()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger custom_gestures_touch
+  before update on public.custom_gestures
+  for each row execute function public.touch_custom_gesture();
+
+-- Link-shared gestures are not readable through the table, only by token
+create function public.get_shared_gestures(tokens uuid[])
+returns setof public.custom_gestures
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select *
+  from public.custom_gestures
+  where share_token = any (tokens)
+    and visibility in ('link', 'public');
+$$;
+
+grant execute on function public.get_shared_gestures(uuid[]) to anon, authenticated;
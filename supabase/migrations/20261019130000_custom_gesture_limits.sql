@@ -0,0 +1,36 @@
+-- Bounds what one (possibly anonymous) user can store: each gesture's samples
+-- and templates stay under 1 MB, and an owner keeps at most 200 gestures.
+
+alter table public.custom_gestures
+  add constraint custom_gestures_samples_size
+    check (jsonb_typeof(samples) = 'array' and pg_column_size(samples) < 1048576),
+  add constraint custom_gestures_templates_size
+    check (jsonb_typeof(templates) = 'array' and pg_column_size(templates) < 1048576);
+
+create function public.limit_custom_gestures()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Serializes one owner's inserts so concurrent saves cannot pass the count together
+  perform pg_advisory_xact_lock(hashtext(new.owner_id::text));
+  -- Upserts of an existing label go through insert first and replace the row
+  if exists (
+    select 1 from public.custom_gestures
+    where owner_id = new.owner_id and label = new.label
+  ) then
+    return new;
+  end if;
+  if (select count(*) from public.custom_gestures where owner_id = new.owner_id) >= 200 then
+    raise exception 'A library holds at most 200 gestures; delete some before saving more'
+      using errcode = 'check_violation';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger custom_gestures_limit
+  before insert on public.custom_gestures
+  for each row execute function public.limit_custom_gestures();
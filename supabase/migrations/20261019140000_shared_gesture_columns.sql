@@ -0,0 +1,41 @@
+-- get_shared_gestures runs as the table owner, so it returns only what an
+-- importer needs: the owner's id stays private, replaced by whether the
+-- caller owns the gesture.
+
+drop function public.get_shared_gestures(uuid[]);
+
+create function public.get_shared_gestures(tokens uuid[])
+returns table (
+  id uuid,
+  label text,
+  samples jsonb,
+  templates jsonb,
+  feature_length integer,
+  visibility public.gesture_visibility,
+  share_token uuid,
+  is_own boolean,
+  created_at timestamptz,
+  updated_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    g.id,
+    g.label,
+    g.samples,
+    g.templates,
+    g.feature_length,
+    g.visibility,
+    g.share_token,
+    coalesce(g.owner_id = auth.uid(), false),
+    g.created_at,
+    g.updated_at
+  from public.custom_gestures g
+  where g.share_token = any (tokens)
+    and g.visibility in ('link', 'public');
+$$;
+
+grant execute on function public.get_shared_gestures(uuid[]) to anon, authenticated;
@@ -1,7 +1,84 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import fs from "fs";
 import { componentTagger } from "lovable-tagger";
+import { mediapipeModels, mediapipeModelsDir } from "./scripts/mediapipe-models.mjs";
+
+const mediapipeDir = path.resolve(__dirname, "node_modules/@mediapipe/tasks-vision");
+
+// Bundles MediaPipe's WASM loader scripts as modules
+// (virtual:mediapipe-wasm-loader/<name>), so the worker never fetches and
+// evaluates code at runtime. Each loader is a script declaring a ModuleFactory
+// global, which becomes the module's default export.
+function mediapipeWasmLoader(): Plugin {
+  const prefix = "virtual:mediapipe-wasm-loader/";
+
+  return {
+    name: "mediapipe-wasm-loader",
+    resolveId(id) {
+      if (id.startsWith(prefix)) return `\0${id}`;
+    },
+    load(id) {
+      if (!id.startsWith(`\0${prefix}`)) return;
+      const file = path.join(mediapipeDir, "wasm", `${path.basename(id.slice(prefix.length + 1))}.js`);
+      return `${fs.readFileSync(file, "utf-8")}\nexport default ModuleFactory;\n`;
+    },
+  };
+}
+
+// Serves the MediaPipe WASM binaries from node_modules at /mediapipe/wasm in
+// development and copies them into the build, so they always match the npm package.
+function mediapipeWasm(): Plugin {
+  const wasmDir = path.join(mediapipeDir, "wasm");
+  const urlPrefix = "/mediapipe/wasm/";
+
+  return {
+    name: "mediapipe-wasm",
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        if (!req.url?.startsWith(urlPrefix)) return next();
+        const file = path.join(wasmDir, path.basename(req.url.slice(urlPrefix.length).split("?")[0]));
+        if (!file.endsWith(".wasm") || !fs.existsSync(file)) return next();
+        res.setHeader("Content-Type", "application/wasm");
+        fs.createReadStream(file).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const file of fs.readdirSync(wasmDir).filter((name) => name.endsWith(".wasm"))) {
+        this.emitFile({
+          type: "asset",
+          fileName: `mediapipe/wasm/${file}`,
+          source: fs.readFileSync(path.join(wasmDir, file)),
+        });
+      }
+    },
+  };
+}
+
+// The models are served from public/ like any static file. A build without
+// them fails, rather than shipping an app that cannot track hands offline;
+// the dev server only warns, and hand tracking reports them missing.
+function mediapipeModelsCheck(): Plugin {
+  let command: "build" | "serve" = "serve";
+  const missingModels = () =>
+    Object.keys(mediapipeModels).filter((file) => !fs.existsSync(path.resolve(__dirname, mediapipeModelsDir, file)));
+  const message = (files: string[]) =>
+    `MediaPipe models missing from ${mediapipeModelsDir}: ${files.join(", ")}. Run \`npm run fetch:models\` or copy them there.`;
+
+  return {
+    name: "mediapipe-models",
+    configResolved(config) {
+      command = config.command;
+    },
+    buildStart() {
+      const missing = missingModels();
+      if (missing.length === 0) return;
+      if (command === "build") this.error(message(missing));
+      else this.warn(message(missing));
+    },
+  };
+}
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -9,7 +86,12 @@ export default defineConfig(({ mode }) => ({
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  // The inference worker is a module worker and imports the WASM loader on demand
+  worker: {
+    format: "es",
+    plugins: () => [mediapipeWasmLoader()],
+  },
+  plugins: [react(), mediapipeWasmLoader(), mediapipeWasm(), mediapipeModelsCheck(), mode === "development" && componentTagger()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),